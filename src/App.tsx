@@ -9,14 +9,22 @@ import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
 import { Button } from "@/components/ui/button";
 import { NavLink } from "react-router-dom";
-import { Home, CheckSquare, Clock, Calendar, FileText, Zap, LogOut, Settings } from "lucide-react";
+import { Home, CheckSquare, Clock, Calendar, FileText, Zap, LogOut, Settings, BarChart3 } from "lucide-react";
 import { CyberTerminal } from "@/components/CyberTerminal";
+import { RunningTimerBadge } from "@/components/RunningTimerBadge";
+import { IdleTimeDialog } from "@/components/IdleTimeDialog";
+import { GlobalSearch } from "@/components/GlobalSearch";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import type { User, Session } from "@supabase/supabase-js";
+import type { TodoDates } from "@/lib/dueDates";
+import { useTodoReminders } from "@/hooks/use-todo-reminders";
+import { useFocusSessionRunner } from "@/hooks/use-focus-session-runner";
+import { entryEndingAt } from "@/lib/timeEntries";
 import DashboardPage from "./pages/DashboardPage";
 import TodosPage from "./pages/TodosPage";
 import TimeLogPage from "./pages/TimeLogPage";
+import ReportsPage from "./pages/ReportsPage";
 import CalendarPage from "./pages/CalendarPage";
 import NotesPage from "./pages/NotesPage";
 import AuthPage from "./pages/AuthPage";
@@ -53,7 +61,10 @@ const App = () => {
     return () => subscription.unsubscribe();
   }, []);
 
-  const handleAddTodo = async (text: string, priority: 'low' | 'medium' | 'high') => {
+  useTodoReminders(user?.id);
+  useFocusSessionRunner(user?.id);
+
+  const handleAddTodo = async (text: string, priority: string, dates: Partial<TodoDates> = {}) => {
     try {
       const { error } = await supabase
         .from('todos')
@@ -62,7 +73,8 @@ const App = () => {
             user_id: user?.id,
             text,
             priority,
-            completed: false
+            completed: false,
+            ...dates
           }
         ]);
 
@@ -94,9 +106,10 @@ const App = () => {
         .from('time_logs')
         .insert([
           {
+            // Logged time is taken to have just ended
+            ...entryEndingAt(duration),
             user_id: user?.id,
-            activity,
-            duration
+            activity
           }
         ]);
 
@@ -122,7 +135,7 @@ const App = () => {
     }
   };
 
-  const handleAddCalendarEvent = async (title: string, date: Date) => {
+  const handleAddCalendarEvent = async (title: string, date: Date, type = 'reminder') => {
     try {
       const { error } = await supabase
         .from('calendar_events')
@@ -131,7 +144,7 @@ const App = () => {
             user_id: user?.id,
             title,
             date: date.toISOString().split('T')[0], // Format as YYYY-MM-DD
-            type: 'reminder'
+            type
           }
         ]);
 
@@ -225,17 +238,20 @@ const App = () => {
               <div className="min-h-screen flex w-full scanlines relative">
                 <AppSidebar />
                 <div className="flex-1 flex flex-col">
-                  <header className="h-16 terminal-border bg-black/90 backdrop-blur-sm flex items-center justify-between px-6">
+                  <header className="print:hidden h-16 terminal-border bg-black/90 backdrop-blur-sm flex items-center justify-between px-6">
                     <div className="flex items-center gap-4">
                       <SidebarTrigger />
                       <div className="flex items-center gap-2">
                         <Zap className="w-6 h-6 text-primary neon-glow" />
                         <h1 className="text-xl font-bold font-mono neon-glow">TERMINAL_TIME</h1>
                       </div>
+                      <RunningTimerBadge />
+                      <IdleTimeDialog />
                     </div>
                     
                     {/* Main Navigation */}
                     <nav className="hidden md:flex items-center gap-2">
+                      <GlobalSearch />
                       <NavLink to="/">
                         {({ isActive }) => (
                           <Button 
@@ -272,6 +288,18 @@ const App = () => {
                           </Button>
                         )}
                       </NavLink>
+                      <NavLink to="/reports">
+                        {({ isActive }) => (
+                          <Button 
+                            variant={isActive ? "default" : "ghost"} 
+                            size="sm" 
+                            className={`gap-2 font-mono terminal-border ${isActive ? 'neon-glow' : 'hover:neon-glow'}`}
+                          >
+                            <BarChart3 className="w-4 h-4" />
+                            REPORTS
+                          </Button>
+                        )}
+                      </NavLink>
                       <NavLink to="/calendar">
                         {({ isActive }) => (
                           <Button 
@@ -329,6 +357,7 @@ const App = () => {
                         <Route path="/" element={<DashboardPage />} />
                         <Route path="/todos" element={<TodosPage />} />
                         <Route path="/timelog" element={<TimeLogPage />} />
+                        <Route path="/reports" element={<ReportsPage />} />
                         <Route path="/calendar" element={<CalendarPage />} />
                         <Route path="/notes" element={<NotesPage />} />
                         <Route path="/settings" element={<SettingsPage />} />
@@ -339,7 +368,7 @@ const App = () => {
                     </main>
                     
                      {/* Terminal - Fixed Height */}
-                     <div className="h-72 bg-black/30">
+                     <div className="h-72 bg-black/30 print:hidden">
                         <CyberTerminal 
                           embedded={true}
                           onAddTodo={handleAddTodo}
@@ -9,6 +9,8 @@ import {
   DialogTitle,
   DialogFooter,
 } from "@/components/ui/dialog";
+import { TodoDateFields } from "@/components/TodoDateFields";
+import { EMPTY_TODO_DATES, TodoDatesForm } from "@/lib/dueDates";
 
 interface CustomPriority {
   id: string;
@@ -23,7 +25,7 @@ interface CustomPriority {
 interface AddSubtaskModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAdd: (text: string, priority: string) => void;
+  onAdd: (text: string, priority: string, dates: TodoDatesForm) => void;
   priorities: CustomPriority[];
   parentTaskText: string;
 }
@@ -39,18 +41,21 @@ export function AddSubtaskModal({
   const [selectedPriority, setSelectedPriority] = useState(
     priorities.length > 0 ? priorities[0].name : "medium"
   );
+  const [dates, setDates] = useState<TodoDatesForm>(EMPTY_TODO_DATES);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (subtaskText.trim()) {
-      onAdd(subtaskText.trim(), selectedPriority);
+      onAdd(subtaskText.trim(), selectedPriority, dates);
       setSubtaskText("");
+      setDates(EMPTY_TODO_DATES);
       onClose();
     }
   };
 
   const handleClose = () => {
     setSubtaskText("");
+    setDates(EMPTY_TODO_DATES);
     onClose();
   };
 
@@ -90,6 +95,7 @@ export function AddSubtaskModal({
                 ))}
               </select>
             </div>
+            <TodoDateFields value={dates} onChange={setDates} idPrefix="subtask" />
           </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
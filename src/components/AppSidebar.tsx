@@ -1,5 +1,5 @@
 
-import { Calendar, CheckSquare, FileText, Home, Plus, Clock, Settings } from "lucide-react";
+import { Calendar, CheckSquare, FileText, Home, Plus, Clock, Settings, BarChart3 } from "lucide-react";
 import { NavLink, useLocation } from "react-router-dom";
 import {
   Sidebar,
@@ -17,6 +17,7 @@ const navigationItems = [
   { title: "Dashboard", url: "/", icon: Home },
   { title: "Todo List", url: "/todos", icon: CheckSquare },
   { title: "Time Log", url: "/timelog", icon: Clock },
+  { title: "Reports", url: "/reports", icon: BarChart3 },
   { title: "Calendar", url: "/calendar", icon: Calendar },
   { title: "Notes", url: "/notes", icon: FileText },
   { title: "Settings", url: "/settings", icon: Settings },
@@ -35,7 +36,7 @@ export function AppSidebar() {
     }`;
 
   return (
-    <Sidebar className={`${collapsed ? "w-16" : "w-64"} border-r bg-card`}>
+    <Sidebar className={`print:hidden ${collapsed ? "w-16" : "w-64"} border-r bg-card`}>
       <SidebarContent className="p-4">
         <div className="mb-8">
           <h1 className={`font-bold text-xl text-primary ${collapsed ? "hidden" : "block"}`}>
@@ -0,0 +1,266 @@
+import { useRef, useState } from "react";
+import {
+  DndContext,
+  PointerSensor,
+  useDraggable,
+  useSensor,
+  useSensors,
+  DragMoveEvent,
+} from "@dnd-kit/core";
+import { CheckSquare } from "lucide-react";
+import { addMinutes, format, isToday, startOfDay } from "date-fns";
+import { getEventTypeColor } from "@/lib/eventTypes";
+import {
+  EventFields,
+  EventTiming,
+  eventOccursOn,
+  formatEventTime,
+  isTimed,
+  layoutDay,
+  moveEvent,
+  resizeEvent,
+  snapMinutes,
+} from "@/lib/calendarEvents";
+import { occurrenceKey } from "@/lib/rrule";
+
+interface GridEvent extends EventTiming {
+  id: string;
+  title: string;
+  type: string;
+  description: string | null;
+  occurrence_date?: string;
+}
+
+interface GridTodo {
+  id: string;
+  text: string;
+  completed: boolean;
+  due_date: string;
+}
+
+interface CalendarTimeGridProps {
+  days: Date[];
+  events: GridEvent[];
+  dueTodos: GridTodo[];
+  onEventClick: (event: GridEvent) => void;
+  onSlotClick: (start: Date, allDay: boolean) => void;
+  onEventChange: (event: GridEvent, fields: EventFields) => void;
+}
+
+type DragKind = 'move' | 'resize';
+
+const HOUR_HEIGHT = 48;
+const GUTTER_WIDTH = 56;
+// Clicking an empty slot creates an event on the nearest half hour
+const SLOT_MINUTES = 30;
+
+const minutesToPixels = (minutes: number) => (minutes / 60) * HOUR_HEIGHT;
+
+interface DraggableEventProps {
+  event: GridEvent;
+  kind: DragKind;
+  // Multi-day events render once per day, so each copy needs its own draggable id
+  day: Date;
+  className?: string;
+  style?: React.CSSProperties;
+  onClick?: () => void;
+  children: React.ReactNode;
+}
+
+function DraggableEvent({ event, kind, day, className, style, onClick, children }: DraggableEventProps) {
+  const { attributes, listeners, setNodeRef } = useDraggable({
+    id: `${kind}:${occurrenceKey(event)}:${format(day, 'yyyy-MM-dd')}`,
+    data: { event, kind },
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      className={className}
+      style={style}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick?.();
+      }}
+    >
+      {children}
+    </div>
+  );
+}
+
+export function CalendarTimeGrid({ days, events, dueTodos, onEventClick, onSlotClick, onEventChange }: CalendarTimeGridProps) {
+  const [preview, setPreview] = useState<{ id: string; fields: EventFields } | null>(null);
+  const columnsRef = useRef<HTMLDivElement>(null);
+  const columnWidth = useRef(0);
+  // Pointer-up after a drag also fires a click; this swallows it
+  const justDragged = useRef(false);
+
+  // A small distance lets plain clicks through to open the event
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 4 } }));
+
+  const gridColumns = { gridTemplateColumns: `${GUTTER_WIDTH}px repeat(${days.length}, minmax(0, 1fr))` };
+  const shownEvents = events.map(event => preview?.id === occurrenceKey(event) ? { ...event, ...preview.fields } : event);
+  // Drags start from the stored position, not the previewed one
+  const originalEvent = (event: GridEvent) => events.find(e => occurrenceKey(e) === occurrenceKey(event));
+
+  const getDraggedFields = ({ active, delta }: DragMoveEvent): EventFields => {
+    const { event, kind } = active.data.current as { event: GridEvent; kind: DragKind };
+    const dayDelta = columnWidth.current > 0 ? Math.round(delta.x / columnWidth.current) : 0;
+
+    if (kind === 'resize') {
+      return resizeEvent(event, snapMinutes((delta.y / HOUR_HEIGHT) * 60));
+    }
+    return moveEvent(event, isTimed(event) ? snapMinutes((delta.y / HOUR_HEIGHT) * 60) : 0, dayDelta);
+  };
+
+  const handleDragStart = () => {
+    const width = columnsRef.current?.getBoundingClientRect().width || 0;
+    columnWidth.current = (width - GUTTER_WIDTH) / days.length;
+    justDragged.current = true;
+  };
+
+  const handleDragMove = (dragEvent: DragMoveEvent) => {
+    const { event } = dragEvent.active.data.current as { event: GridEvent };
+    setPreview({ id: occurrenceKey(event), fields: getDraggedFields(dragEvent) });
+  };
+
+  const handleDragEnd = (dragEvent: DragMoveEvent) => {
+    const { event } = dragEvent.active.data.current as { event: GridEvent };
+    const fields = getDraggedFields(dragEvent);
+    setPreview(null);
+    setTimeout(() => { justDragged.current = false; }, 0);
+
+    const changed = (Object.keys(fields) as (keyof EventFields)[]).some(key => (event[key] ?? null) !== fields[key]);
+    if (changed) {
+      onEventChange(event, fields);
+    }
+  };
+
+  const handleEventClick = (event: GridEvent) => {
+    if (!justDragged.current) onEventClick(event);
+  };
+
+  const handleColumnClick = (day: Date, e: React.MouseEvent<HTMLDivElement>) => {
+    const offset = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    const minutes = Math.floor(((offset / HOUR_HEIGHT) * 60) / SLOT_MINUTES) * SLOT_MINUTES;
+    onSlotClick(addMinutes(startOfDay(day), minutes), false);
+  };
+
+  return (
+    <DndContext
+      sensors={sensors}
+      onDragStart={handleDragStart}
+      onDragMove={handleDragMove}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setPreview(null)}
+    >
+      <div className="border rounded-lg overflow-hidden">
+        <div className="grid border-b" style={gridColumns}>
+          <div />
+          {days.map((day) => (
+            <div
+              key={day.toString()}
+              className={`p-2 text-center text-sm font-medium border-l ${isToday(day) ? "text-primary font-bold" : "text-muted-foreground"}`}
+            >
+              {format(day, "EEE d")}
+            </div>
+          ))}
+        </div>
+
+        {/* All-day and multi-day events, plus todos due that day */}
+        <div ref={columnsRef} className="grid border-b" style={gridColumns}>
+          <div className="p-1 text-xs text-muted-foreground text-right pr-2">all day</div>
+          {days.map((day) => {
+            const dayKey = format(day, 'yyyy-MM-dd');
+            return (
+              <div
+                key={day.toString()}
+                onClick={() => onSlotClick(day, true)}
+                className="min-h-[40px] p-1 space-y-1 border-l cursor-pointer hover:bg-accent"
+              >
+                {shownEvents
+                  .filter(event => !isTimed(event) && eventOccursOn(event, day))
+                  .map((event) => (
+                    <DraggableEvent
+                      key={occurrenceKey(event)}
+                      event={originalEvent(event)}
+                      kind="move"
+                      day={day}
+                      onClick={() => handleEventClick(event)}
+                      className={`text-xs px-1 rounded border truncate cursor-grab ${getEventTypeColor(event.type)}`}
+                    >
+                      {event.title}
+                    </DraggableEvent>
+                  ))}
+                {dueTodos
+                  .filter(todo => todo.due_date === dayKey)
+                  .map((todo) => (
+                    <div
+                      key={todo.id}
+                      className={`text-xs px-1 rounded border border-dashed truncate flex items-center gap-1 ${todo.completed ? "line-through opacity-60" : ""}`}
+                    >
+                      <CheckSquare className="w-3 h-3 flex-shrink-0" />
+                      {todo.text}
+                    </div>
+                  ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="max-h-[600px] overflow-y-auto">
+          <div className="grid relative" style={gridColumns}>
+            <div>
+              {Array.from({ length: 24 }, (_, hour) => (
+                <div key={hour} className="text-xs text-muted-foreground text-right pr-2" style={{ height: HOUR_HEIGHT }}>
+                  {hour > 0 && format(new Date(2000, 0, 1, hour), 'HH:mm')}
+                </div>
+              ))}
+            </div>
+            {days.map((day) => (
+              <div
+                key={day.toString()}
+                onClick={(e) => handleColumnClick(day, e)}
+                className={`relative border-l cursor-pointer ${isToday(day) ? "bg-primary/5" : ""}`}
+                style={{ height: HOUR_HEIGHT * 24 }}
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <div key={hour} className="border-t border-border/50" style={{ height: HOUR_HEIGHT }} />
+                ))}
+                {layoutDay(shownEvents, day).map(({ event, top, height, lane, lanes }) => (
+                  <DraggableEvent
+                    key={occurrenceKey(event)}
+                    event={originalEvent(event)}
+                    kind="move"
+                    day={day}
+                    onClick={() => handleEventClick(event)}
+                    className={`absolute rounded border px-1 text-xs overflow-hidden cursor-grab ${getEventTypeColor(event.type)} ${preview?.id === occurrenceKey(event) ? "shadow-lg z-10" : ""}`}
+                    style={{
+                      top: minutesToPixels(top),
+                      height: minutesToPixels(height),
+                      left: `${(lane / lanes) * 100}%`,
+                      width: `${100 / lanes}%`,
+                    }}
+                  >
+                    <div className="font-medium truncate">{event.title}</div>
+                    <div className="truncate">{formatEventTime(event)}</div>
+                    <DraggableEvent
+                      event={originalEvent(event)}
+                      kind="resize"
+                      day={day}
+                      className="absolute bottom-0 left-0 right-0 h-2 cursor-ns-resize"
+                    >
+                      <span className="sr-only">Resize</span>
+                    </DraggableEvent>
+                  </DraggableEvent>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </DndContext>
+  );
+}
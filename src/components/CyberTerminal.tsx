@@ -2,22 +2,44 @@ import { useState, useRef, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Terminal, Minimize2, Maximize2, X, Expand } from "lucide-react";
-import { toast } from "@/hooks/use-toast";
-import { format } from "date-fns";
 import { useNavigate, useLocation } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { terminalRegistry } from "@/lib/terminal/commands";
+import { DEFAULT_PRIORITIES, TerminalPriority, fetchPriorities } from "@/lib/terminal/priorities";
+import type { CommandChoice, CompletionCandidate, OutputLine, TerminalContext } from "@/lib/terminal/registry";
+import type { RefKind } from "@/lib/terminal/refs";
+import { EMPTY_LOOKUPS, TerminalLookups, fetchLookups } from "@/lib/terminal/lookups";
+import { appendHistory, clearHistory, expandHistory, fetchHistory, searchHistory } from "@/lib/terminal/history";
+import { SCRIPTS_CHANGED_EVENT, TerminalScripts, fetchScripts, runAsStartup, scriptLines } from "@/lib/terminal/scripts";
+import type { TodoDates } from "@/lib/dueDates";
+import { useRunningTimer } from "@/hooks/use-running-timer";
+import { fetchRunningTimer, startTimer } from "@/lib/timer";
 
 interface Command {
   input: string;
-  output: string[];
+  output: OutputLine[];
   timestamp: Date;
   type: 'success' | 'error' | 'info';
 }
 
+interface CompletionMenu {
+  // Input up to the word being completed
+  base: string;
+  candidates: CompletionCandidate[];
+  selected: number;
+}
+
+interface ReverseSearch {
+  query: string;
+  // Position of the shown match in the history, -1 when nothing matches
+  index: number;
+  // Input to restore when the search is cancelled
+  original: string;
+}
+
 interface CyberTerminalProps {
-  onAddTodo?: (text: string, priority: 'low' | 'medium' | 'high') => void;
+  onAddTodo?: (text: string, priority: string, dates?: Partial<TodoDates>) => void;
   onAddTimeLog?: (activity: string, duration: number) => void;
-  onAddCalendarEvent?: (title: string, date: Date) => void;
+  onAddCalendarEvent?: (title: string, date: Date, type?: string) => void;
   onAddNote?: (title: string, content: string, tags: string[]) => void;
   embedded?: boolean;
 }
@@ -46,17 +68,75 @@ export function CyberTerminal({ onAddTodo, onAddTimeLog, onAddCalendarEvent, onA
   const [commandHistory, setCommandHistory] = useState<string[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
   const [navigationHistory, setNavigationHistory] = useState<string[]>([]);
-  const [activeTimeLog, setActiveTimeLog] = useState<{activity: string, startTime: number} | null>(null);
   const [currentTheme, setCurrentTheme] = useState('purple');
+  const [priorities, setPriorities] = useState<TerminalPriority[]>(DEFAULT_PRIORITIES);
+  // Offered by the last command, e.g. when a short id matched several todos
+  const [pendingChoices, setPendingChoices] = useState<CommandChoice[] | null>(null);
+  const [lookups, setLookups] = useState<TerminalLookups>(EMPTY_LOOKUPS);
+  const [completionMenu, setCompletionMenu] = useState<CompletionMenu | null>(null);
+  const [reverseSearch, setReverseSearch] = useState<ReverseSearch | null>(null);
+  // Latest history write, so clearing cannot race a command still being saved
+  const historySave = useRef<Promise<void>>(Promise.resolve());
+  // Set on every render, so the mount effect runs the startup script with a current context
+  const startupRunner = useRef<(loaded: TerminalScripts) => Promise<void>>();
+  // Updated in place, so a later link of a chain sees the list an earlier one printed
+  const listings = useRef<Partial<Record<RefKind, string[]>>>({});
+  // Likewise updated in place by the alias and macro commands, so a later line of a macro sees them
+  const scripts = useRef<TerminalScripts>({ aliases: {}, macros: {}, startup: "" });
   const inputRef = useRef<HTMLInputElement>(null);
   const terminalRef = useRef<HTMLDivElement>(null);
+  const { timer: runningTimer } = useRunningTimer();
 
-  // Load active time log from localStorage on mount
+  // Timers used to live in localStorage; carry one over to the database once
   useEffect(() => {
     const savedTimeLog = localStorage.getItem('activeTimeLog');
-    if (savedTimeLog) {
-      setActiveTimeLog(JSON.parse(savedTimeLog));
-    }
+    if (!savedTimeLog) return;
+
+    const { activity, startTime } = JSON.parse(savedTimeLog) as { activity: string; startTime: number };
+    fetchRunningTimer()
+      .then(running => running ? null : startTimer(activity, { startedAt: new Date(startTime) }))
+      .then(() => localStorage.removeItem('activeTimeLog'))
+      .catch(error => console.error('Error migrating saved timer:', error));
+  }, []);
+
+  // Load custom priorities for validation and Tab completion, then the user's aliases and
+  // macros, and run the startup script once both are in
+  useEffect(() => {
+    refreshPriorities()
+      .catch(error => console.error('Error fetching priorities:', error))
+      .then(() => fetchScripts())
+      .then((loaded) => {
+        scripts.current = loaded;
+        return startupRunner.current?.(loaded);
+      })
+      .catch(error => console.error('Error running startup script:', error));
+  }, []);
+
+  // Aliases and macros edited in Settings or by a command apply right away
+  useEffect(() => {
+    const reload = () => {
+      fetchScripts()
+        .then((loaded) => {
+          scripts.current = loaded;
+        })
+        .catch(error => console.error('Error loading terminal scripts:', error));
+    };
+    window.addEventListener(SCRIPTS_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(SCRIPTS_CHANGED_EVENT, reload);
+  }, []);
+
+  // Load saved history; anything typed before it arrives goes after it
+  useEffect(() => {
+    fetchHistory()
+      .then(saved => setCommandHistory(prev => [...saved, ...prev]))
+      .catch(error => console.error('Error loading command history:', error));
+  }, []);
+
+  // Load todos, events and tags for Tab completion
+  useEffect(() => {
+    fetchLookups()
+      .then(setLookups)
+      .catch(error => console.error('Error loading completions:', error));
   }, []);
 
   // Load theme from localStorage on mount
@@ -75,15 +155,6 @@ export function CyberTerminal({ onAddTodo, onAddTimeLog, onAddCalendarEvent, onA
     }
   }, []);
 
-  // Save active time log to localStorage when it changes
-  useEffect(() => {
-    if (activeTimeLog) {
-      localStorage.setItem('activeTimeLog', JSON.stringify(activeTimeLog));
-    } else {
-      localStorage.removeItem('activeTimeLog');
-    }
-  }, [activeTimeLog]);
-
   // Save and apply theme when it changes
   useEffect(() => {
     localStorage.setItem('cyberTerminalTheme', currentTheme);
@@ -110,698 +181,256 @@ export function CyberTerminal({ onAddTodo, onAddTimeLog, onAddCalendarEvent, onA
     }
   }, [commands]);
 
-  // Helper function to parse arguments with support for short flags
-  const parseArgs = (args: string[]) => {
-    const parsed: {[key: string]: string} = {};
-    const positional: string[] = [];
-    
-    for (let i = 0; i < args.length; i++) {
-      const arg = args[i];
-      if (arg.startsWith('--')) {
-        const [key, value] = arg.split('=');
-        parsed[key] = value || args[i + 1];
-        if (!value) i++; // Skip next arg if it was used as value
-      } else if (arg.startsWith('-') && arg.length > 1) {
-        // Short flag mapping
-        const shortFlag = arg.substring(1);
-        const flagMap: {[key: string]: string} = {
-          'p': 'priority',
-          'd': 'date',
-          't': 'tags',
-          'h': 'help',
-          'f': 'format'
-        };
-        const fullFlag = flagMap[shortFlag];
-        if (fullFlag) {
-          parsed[`--${fullFlag}`] = args[i + 1];
-          i++; // Skip next arg
-        }
-      } else {
-        positional.push(arg);
-      }
-    }
-    
-    return { parsed, positional };
+  // Apply a theme class to the document and force a style recalculation
+  const applyTheme = (theme: string) => {
+    setCurrentTheme(theme);
+
+    const documentElement = document.documentElement;
+    documentElement.classList.remove('theme-green', 'theme-purple', 'theme-red', 'theme-black', 'dark');
+    documentElement.classList.add(`theme-${theme}`);
+
+    documentElement.style.setProperty('--force-recalc', Math.random().toString());
+    setTimeout(() => {
+      documentElement.style.removeProperty('--force-recalc');
+    }, 0);
   };
 
-  // Helper function to get current page name
-  const getCurrentPageName = () => {
-    const path = location.pathname;
-    const pathMap: {[key: string]: string} = {
-      '/': 'dashboard',
-      '/dashboard': 'dashboard',
-      '/todos': 'todos',
-      '/timelog': 'timelog',
-      '/calendar': 'calendar',
-      '/notes': 'notes'
-    };
-    return pathMap[path] || 'unknown';
+  const refreshPriorities = async () => {
+    const latest = await fetchPriorities();
+    setPriorities(latest);
+    return latest;
   };
 
+  const buildContext = (onClear: () => void = () => {}): TerminalContext => ({
+    currentPath: location.pathname,
+    navigationHistory,
+    commandHistory,
+    clearHistory: async () => {
+      await historySave.current;
+      await clearHistory();
+      setCommandHistory([]);
+      setHistoryIndex(-1);
+    },
+    runningTimer,
+    priorities,
+    refreshPriorities,
+    listings: listings.current,
+    setListing: (kind, ids) => {
+      listings.current[kind] = ids;
+    },
+    lookups,
+    scripts: scripts.current,
+    navigate: (path) => {
+      setNavigationHistory(prev => [...prev, location.pathname]);
+      navigate(path);
+    },
+    goBack: () => {
+      if (navigationHistory.length === 0) return null;
+      const lastPath = navigationHistory[navigationHistory.length - 1];
+      setNavigationHistory(prev => prev.slice(0, -1));
+      navigate(lastPath);
+      return lastPath;
+    },
+    setTheme: applyTheme,
+    clear: () => {
+      onClear();
+      setCommands([]);
+    },
+    onAddTodo,
+    onAddTimeLog,
+    onAddCalendarEvent,
+    onAddNote,
+  });
+
   const executeCommand = async (input: string) => {
-    const trimmedInput = input.trim();
+    let trimmedInput = input.trim();
     if (!trimmedInput) return;
 
+    // A number answers the pending choice; anything else dismisses it
+    if (pendingChoices) {
+      const choice = /^\d+$/.test(trimmedInput) ? pendingChoices[Number(trimmedInput) - 1] : undefined;
+      setPendingChoices(null);
+      if (choice) {
+        trimmedInput = choice.input;
+      }
+    }
+
+    const expansion = expandHistory(trimmedInput, commandHistory);
+    if ('error' in expansion) {
+      setCommands(prev => [...prev, { input: trimmedInput, output: [expansion.error], timestamp: new Date(), type: 'error' }]);
+      setCurrentInput("");
+      return;
+    }
+    trimmedInput = expansion.input;
+
     // Add to command history
     setCommandHistory(prev => [...prev, trimmedInput]);
     setHistoryIndex(-1);
+    historySave.current = appendHistory(trimmedInput)
+      .catch(error => console.error('Error saving command history:', error));
+
+    let cleared = false;
+    const result = await terminalRegistry.execute(trimmedInput, buildContext(() => {
+      cleared = true;
+    }));
+
+    if (result && !cleared) {
+      const newCommand: Command = {
+        input: trimmedInput,
+        output: result.output,
+        timestamp: new Date(),
+        type: result.type
+      };
+      setCommands(prev => [...prev, newCommand]);
+    }
+    setPendingChoices(result && result.choices?.length ? result.choices : null);
+    setCurrentInput("");
+    setCompletionMenu(null);
 
-    const args = trimmedInput.split(' ');
-    const command = args[0].toLowerCase();
-    const { parsed, positional } = parseArgs(args.slice(1));
-    
-    let output: string[] = [];
-    let type: 'success' | 'error' | 'info' = 'info';
-
-    try {
-      switch (command) {
-        case 'help':
-          if (positional.length > 0) {
-            const helpCommand = positional[0];
-            const helpTexts: {[key: string]: string[]} = {
-              'todo.add': [
-                "todo.add <task> [-p|--priority=low|medium|high]",
-                "Add a new todo item",
-                "Examples:",
-                "• todo.add 'Complete project' -p high",
-                "• todo.add 'Review code' --priority=medium"
-              ],
-              'todo.list': [
-                "todo.list [-p|--priority=low|medium|high]",
-                "List todos, optionally filtered by priority",
-                "Examples:",
-                "• todo.list",
-                "• todo.list -p high"
-              ],
-              'time.start': [
-                "time.start <activity>",
-                "Start time tracking for an activity",
-                "Auto-stops previous activity if running",
-                "Examples:",
-                "• time.start 'Deep work session'",
-                "• time.start 'Meeting with team'"
-              ],
-              'nav.dash': [
-                "nav.dash | goto.dashboard",
-                "Navigate to dashboard page",
-                "Examples:",
-                "• nav.dash",
-                "• goto.dashboard"
-              ]
-            };
-            output = helpTexts[helpCommand] || [`No help available for '${helpCommand}'`];
-          } else {
-            output = [
-              "ENHANCED TERMINAL COMMANDS v3.0:",
-              "",
-              "📍 NAVIGATION:",
-              "├── nav.dash, goto.dashboard - Dashboard",
-              "├── nav.todos, goto.tasks - Todo list",
-              "├── nav.time, goto.timelog - Time tracking",
-              "├── nav.calendar, goto.calendar - Calendar",
-              "├── nav.notes, goto.notes - Notes",
-              "└── nav.back - Go back",
-              "",
-              "✅ TODO MANAGEMENT:",
-              "├── todo.add <task> [-p high|medium|low]",
-              "├── todo.list [-p priority]",
-              "├── todo.complete <id>",
-              "├── todo.delete <id>",
-              "└── todo.priority <id> -p <priority>",
-              "",
-              "⏱️ TIME TRACKING:",
-              "├── time.start <activity> - Start tracking",
-              "├── time.stop - Stop current session",
-              "├── time.status - Show active session",
-              "├── time.log <activity> <minutes> - Manual entry",
-              "└── time.today - Today's summary",
-              "",
-              "📅 CALENDAR & NOTES:",
-              "├── cal.add <event> [-d YYYY-MM-DD]",
-              "├── cal.today - Today's events",
-              "├── note.add <title> <content> [-t tags]",
-              "└── note.search <keyword>",
-              "",
-              "🔧 SYSTEM:",
-              "├── sys.status - System information",
-              "├── theme.change -[green/purple/red/black]",
-              "├── history - Command history",
-              "├── clear - Clear terminal",
-              "└── help <command> - Detailed help",
-              "",
-              "💡 Use 'help <command>' for detailed usage"
-            ];
-          }
-          type = 'success';
-          break;
-
-        // Navigation Commands
-        case 'nav.dash':
-        case 'goto.dashboard':
-          setNavigationHistory(prev => [...prev, location.pathname]);
-          navigate('/dashboard');
-          output = ["[✓] Navigated to dashboard"];
-          type = 'success';
-          break;
-
-        case 'nav.todos':
-        case 'goto.tasks':
-          setNavigationHistory(prev => [...prev, location.pathname]);
-          navigate('/todos');
-          output = ["[✓] Navigated to todos"];
-          type = 'success';
-          break;
-
-        case 'nav.time':
-        case 'goto.timelog':
-          setNavigationHistory(prev => [...prev, location.pathname]);
-          navigate('/timelog');
-          output = ["[✓] Navigated to time log"];
-          type = 'success';
-          break;
-
-        case 'nav.calendar':
-        case 'goto.calendar':
-          setNavigationHistory(prev => [...prev, location.pathname]);
-          navigate('/calendar');
-          output = ["[✓] Navigated to calendar"];
-          type = 'success';
-          break;
-
-        case 'nav.notes':
-        case 'goto.notes':
-          setNavigationHistory(prev => [...prev, location.pathname]);
-          navigate('/notes');
-          output = ["[✓] Navigated to notes"];
-          type = 'success';
-          break;
-
-        case 'nav.back':
-          if (navigationHistory.length > 0) {
-            const lastPath = navigationHistory[navigationHistory.length - 1];
-            setNavigationHistory(prev => prev.slice(0, -1));
-            navigate(lastPath);
-            output = [`[✓] Navigated back to ${lastPath}`];
-            type = 'success';
-          } else {
-            output = ["No navigation history available"];
-            type = 'error';
-          }
-          break;
-
-        case 'nav.refresh':
-          window.location.reload();
-          return;
-
-        // Enhanced Todo Management
-        case 'todo.add':
-          if (positional.length < 1) {
-            output = ["ERROR: Task description required"];
-            type = 'error';
-          } else {
-            const priority = (parsed['--priority'] || parsed['-p'] || 'medium') as 'low' | 'medium' | 'high';
-            const taskText = positional.join(' ').replace(/['"]/g, '');
-            
-            if (['low', 'medium', 'high'].includes(priority)) {
-              onAddTodo?.(taskText, priority);
-              output = [`[✓] Task added: "${taskText}" (priority: ${priority})`];
-              type = 'success';
-              toast({
-                title: "Task added via terminal",
-                description: taskText,
-              });
-            } else {
-              output = ["ERROR: Invalid priority. Use low, medium, or high"];
-              type = 'error';
-            }
-          }
-          break;
-
-        case 'todo.list':
-          try {
-            const priorityFilter = parsed['--priority'] || parsed['-p'];
-            let query = supabase.from('todos').select('*').order('created_at', { ascending: false });
-            
-            if (priorityFilter) {
-              query = query.eq('priority', priorityFilter);
-            }
-            
-            const { data: todos, error } = await query;
-            
-            if (error) {
-              output = [`ERROR: ${error.message}`];
-              type = 'error';
-            } else {
-              if (todos?.length === 0) {
-                output = ["No todos found"];
-                type = 'info';
-              } else {
-                output = [
-                  `Found ${todos?.length} todo(s):`,
-                  ""
-                ];
-                todos?.forEach((todo, index) => {
-                  const status = todo.completed ? '✅' : '⏳';
-                  const priority = todo.priority.toUpperCase();
-                  const shortId = todo.id.substring(0, 8);
-                  output.push(`${index + 1}. ${status} [${priority}] ${todo.text} (ID: ${shortId})`);
-                });
-                type = 'success';
-              }
-            }
-          } catch (error) {
-            output = ["ERROR: Failed to fetch todos"];
-            type = 'error';
-          }
-          break;
-
-        case 'todo.complete':
-          if (positional.length < 1) {
-            output = ["ERROR: Todo ID required"];
-            type = 'error';
-          } else {
-            const todoId = positional[0];
-            try {
-              const { error } = await supabase
-                .from('todos')
-                .update({ completed: true })
-                .eq('id', todoId);
-              
-              if (error) {
-                output = [`ERROR: ${error.message}`];
-                type = 'error';
-              } else {
-                output = [`[✓] Todo ${todoId.substring(0, 8)} marked as completed`];
-                type = 'success';
-                toast({
-                  title: "Todo completed",
-                  description: "Task marked as completed via terminal",
-                });
-              }
-            } catch (error) {
-              output = ["ERROR: Failed to complete todo"];
-              type = 'error';
-            }
-          }
-          break;
-
-        case 'todo.delete':
-          if (positional.length < 1) {
-            output = ["ERROR: Todo ID required"];
-            type = 'error';
-          } else {
-            const todoId = positional[0];
-            try {
-              const { error } = await supabase
-                .from('todos')
-                .delete()
-                .eq('id', todoId);
-              
-              if (error) {
-                output = [`ERROR: ${error.message}`];
-                type = 'error';
-              } else {
-                output = [`[✓] Todo ${todoId.substring(0, 8)} deleted`];
-                type = 'success';
-                toast({
-                  title: "Todo deleted",
-                  description: "Task deleted via terminal",
-                });
-              }
-            } catch (error) {
-              output = ["ERROR: Failed to delete todo"];
-              type = 'error';
-            }
-          }
-          break;
-
-        // Smart Time Tracking
-        case 'time.start':
-          if (positional.length < 1) {
-            output = ["ERROR: Activity name required"];
-            type = 'error';
-          } else {
-            const activity = positional.join(' ').replace(/['"]/g, '');
-            
-            // Stop previous activity if running
-            if (activeTimeLog) {
-              const duration = Math.round((Date.now() - activeTimeLog.startTime) / 60000);
-              await onAddTimeLog?.(activeTimeLog.activity, duration);
-              output = [`[✓] Stopped: "${activeTimeLog.activity}" (${duration} minutes)`];
-            }
-            
-            // Start new activity
-            setActiveTimeLog({ activity, startTime: Date.now() });
-            output = [...output, `[✓] Started tracking: "${activity}"`];
-            type = 'success';
-            toast({
-              title: "Time tracking started",
-              description: activity,
-            });
-          }
-          break;
-
-        case 'time.stop':
-          if (!activeTimeLog) {
-            output = ["No active time tracking session"];
-            type = 'error';
-          } else {
-            const duration = Math.round((Date.now() - activeTimeLog.startTime) / 60000);
-            await onAddTimeLog?.(activeTimeLog.activity, duration);
-            output = [`[✓] Stopped: "${activeTimeLog.activity}" (${duration} minutes)`];
-            setActiveTimeLog(null);
-            type = 'success';
-            toast({
-              title: "Time tracking stopped",
-              description: `${activeTimeLog.activity} - ${duration}m`,
-            });
-          }
-          break;
-
-        case 'time.status':
-          if (!activeTimeLog) {
-            output = ["No active time tracking session"];
-            type = 'info';
-          } else {
-            const elapsed = Math.round((Date.now() - activeTimeLog.startTime) / 60000);
-            output = [
-              "ACTIVE TIME TRACKING:",
-              `├── Activity: ${activeTimeLog.activity}`,
-              `├── Started: ${format(new Date(activeTimeLog.startTime), 'HH:mm:ss')}`,
-              `└── Elapsed: ${elapsed} minutes`
-            ];
-            type = 'success';
-          }
-          break;
-
-        case 'time.log':
-          if (positional.length < 2) {
-            output = ["ERROR: Usage: time.log <activity> <duration_minutes>"];
-            type = 'error';
-          } else {
-            const duration = parseInt(positional[positional.length - 1]);
-            const activity = positional.slice(0, -1).join(' ').replace(/['"]/g, '');
-            
-            if (isNaN(duration)) {
-              output = ["ERROR: Duration must be a number"];
-              type = 'error';
-            } else {
-              onAddTimeLog?.(activity, duration);
-              output = [`[✓] Time logged: "${activity}" - ${duration} minutes`];
-              type = 'success';
-              toast({
-                title: "Time logged via terminal",
-                description: `${activity} - ${duration}m`,
-              });
-            }
-          }
-          break;
-
-        case 'time.today':
-          try {
-            const today = format(new Date(), 'yyyy-MM-dd');
-            const { data: logs, error } = await supabase
-              .from('time_logs')
-              .select('*')
-              .eq('date', today)
-              .order('created_at', { ascending: false });
-            
-            if (error) {
-              output = [`ERROR: ${error.message}`];
-              type = 'error';
-            } else {
-              const totalTime = logs?.reduce((sum, log) => sum + log.duration, 0) || 0;
-              output = [
-                `TODAY'S TIME SUMMARY (${today}):`,
-                `├── Total time: ${totalTime} minutes (${Math.round(totalTime/60*10)/10}h)`,
-                `├── Sessions: ${logs?.length || 0}`,
-                ""
-              ];
-              
-              if (logs?.length) {
-                output.push("Recent sessions:");
-                logs.slice(0, 5).forEach((log, index) => {
-                  output.push(`${index + 1}. ${log.activity} - ${log.duration}m`);
-                });
-              }
-              type = 'success';
-            }
-          } catch (error) {
-            output = ["ERROR: Failed to fetch time logs"];
-            type = 'error';
-          }
-          break;
-
-        // Enhanced Calendar Commands
-        case 'cal.add':
-          if (positional.length < 1) {
-            output = ["ERROR: Event title required"];
-            type = 'error';
-          } else {
-            const dateStr = parsed['--date'] || parsed['-d'];
-            const date = dateStr ? new Date(dateStr) : new Date();
-            const title = positional.join(' ').replace(/['"]/g, '');
-            
-            if (dateStr && isNaN(date.getTime())) {
-              output = ["ERROR: Invalid date format. Use YYYY-MM-DD"];
-              type = 'error';
-            } else {
-              onAddCalendarEvent?.(title, date);
-              output = [`[✓] Event added: "${title}" on ${format(date, 'yyyy-MM-dd')}`];
-              type = 'success';
-              toast({
-                title: "Calendar event added via terminal",
-                description: title,
-              });
-            }
-          }
-          break;
-
-        case 'cal.today':
-          try {
-            const today = format(new Date(), 'yyyy-MM-dd');
-            const { data: events, error } = await supabase
-              .from('calendar_events')
-              .select('*')
-              .eq('date', today)
-              .order('created_at', { ascending: false });
-            
-            if (error) {
-              output = [`ERROR: ${error.message}`];
-              type = 'error';
-            } else {
-              output = [
-                `TODAY'S EVENTS (${today}):`,
-                ""
-              ];
-              
-              if (events?.length === 0) {
-                output.push("No events scheduled for today");
-              } else {
-                events?.forEach((event, index) => {
-                  output.push(`${index + 1}. ${event.title} (${event.type})`);
-                });
-              }
-              type = 'success';
-            }
-          } catch (error) {
-            output = ["ERROR: Failed to fetch calendar events"];
-            type = 'error';
-          }
-          break;
-
-        // Enhanced Notes Commands
-        case 'note.add':
-          if (positional.length < 2) {
-            output = ["ERROR: Usage: note.add <title> <content> [-t tag1,tag2]"];
-            type = 'error';
-          } else {
-            const tagsStr = parsed['--tags'] || parsed['-t'];
-            const tags = tagsStr ? tagsStr.split(',').map(tag => tag.trim()) : [];
-            const title = positional[0].replace(/['"]/g, '');
-            const content = positional.slice(1).join(' ').replace(/['"]/g, '');
-            
-            onAddNote?.(title, content, tags);
-            output = [`[✓] Note created: "${title}"`];
-            if (tags.length > 0) {
-              output.push(`    Tags: ${tags.join(', ')}`);
-            }
-            type = 'success';
-            toast({
-              title: "Note added via terminal",
-              description: title,
-            });
-          }
-          break;
-
-        case 'note.search':
-          if (positional.length < 1) {
-            output = ["ERROR: Search keyword required"];
-            type = 'error';
-          } else {
-            const keyword = positional.join(' ');
-            try {
-              const { data: notes, error } = await supabase
-                .from('notes')
-                .select('*')
-                .or(`title.ilike.%${keyword}%,content.ilike.%${keyword}%`)
-                .order('created_at', { ascending: false });
-              
-              if (error) {
-                output = [`ERROR: ${error.message}`];
-                type = 'error';
-              } else {
-                output = [
-                  `Found ${notes?.length || 0} note(s) matching "${keyword}":`,
-                  ""
-                ];
-                
-                notes?.forEach((note, index) => {
-                  const shortId = note.id.substring(0, 8);
-                  output.push(`${index + 1}. ${note.title} (ID: ${shortId})`);
-                  if (note.tags?.length) {
-                    output.push(`    Tags: ${note.tags.join(', ')}`);
-                  }
-                });
-                type = 'success';
-              }
-            } catch (error) {
-              output = ["ERROR: Failed to search notes"];
-              type = 'error';
-            }
-          }
-          break;
-
-        // System Commands
-        case 'sys.status':
-          const currentPage = getCurrentPageName();
-          output = [
-            "SYSTEM STATUS:",
-            "├── Neural Interface: ONLINE",
-            "├── Productivity Matrix: ACTIVE",
-            "├── Database: CONNECTED",
-            `├── Current Location: ${currentPage}`,
-            `├── Active Time Log: ${activeTimeLog ? activeTimeLog.activity : 'None'}`,
-            `├── Memory Usage: ${Math.round(Math.random() * 100)}%`,
-            "└── Threat Level: MINIMAL",
-            "",
-            `Current Time: ${format(new Date(), 'yyyy-MM-dd HH:mm:ss')}`
-          ];
-          type = 'success';
-          break;
-
-        case 'history':
-          output = [
-            "COMMAND HISTORY:",
-            ""
-          ];
-          commandHistory.slice(-10).forEach((cmd, index) => {
-            output.push(`${commandHistory.length - 10 + index + 1}. ${cmd}`);
-          });
-          type = 'success';
-          break;
-
-        case 'data.refresh':
-          window.location.reload();
-          return;
-
-        case 'clear':
-          setCommands([]);
-          setCurrentInput("");
-          return;
-
-        case 'theme.change':
-          if (positional.length < 1) {
-            output = [
-              "ERROR: Theme required. Usage: theme.change -[green/purple/red/black]",
-              "",
-              "Available themes:",
-              "├── green - Matrix-style green theme",
-              "├── purple - Cyberpunk purple theme (default)",
-              "├── red - Alert red theme",
-              "└── black - Monochrome black/white theme"
-            ];
-            type = 'error';
-          } else {
-            const themeArg = positional[0];
-            const theme = themeArg.startsWith('-') ? themeArg.substring(1) : themeArg;
-            const validThemes = ['green', 'purple', 'red', 'black'];
-            
-            if (validThemes.includes(theme)) {
-              setCurrentTheme(theme);
-              
-              // Force immediate application and style recalculation
-              const documentElement = document.documentElement;
-               documentElement.classList.remove('theme-green', 'theme-purple', 'theme-red', 'theme-black', 'dark');
-               documentElement.classList.add(`theme-${theme}`);
-              
-              // Force browser to recalculate styles
-              documentElement.style.setProperty('--force-recalc', Math.random().toString());
-              setTimeout(() => {
-                documentElement.style.removeProperty('--force-recalc');
-              }, 0);
-              
-              output = [
-                `[✓] Theme changed to ${theme.toUpperCase()}`,
-                `Color scheme updated successfully`,
-                `Theme persisted to local storage`
-              ];
-              type = 'success';
-              toast({
-                title: "Theme Changed",
-                description: `Switched to ${theme} theme`,
-              });
-            } else {
-              output = [
-                `ERROR: Invalid theme '${theme}'`,
-                "Available themes: green, purple, red, black"
-              ];
-              type = 'error';
-            }
-          }
-          break;
-
-        case 'hack.time':
-          output = [
-            `> Accessing temporal matrix...`,
-            `> Current timestamp: ${Date.now()}`,
-            `> Local time: ${format(new Date(), 'yyyy-MM-dd HH:mm:ss')}`,
-            `> Time zone: ${Intl.DateTimeFormat().resolvedOptions().timeZone}`,
-            `> Active session: ${activeTimeLog ? activeTimeLog.activity : 'None'}`,
-          ];
-          type = 'success';
-          break;
-
-        default:
-          output = [
-            `Command '${command}' not recognized.`,
-            "Type 'help' for available commands.",
-            "Use 'help <command>' for detailed usage."
-          ];
-          type = 'error';
+    // The command may have added or removed what completion offers
+    fetchLookups()
+      .then(setLookups)
+      .catch(error => console.error('Error loading completions:', error));
+  };
+
+  // Startup commands are shown like typed ones but stay out of the history
+  const runStartupScript = (loaded: TerminalScripts) => runAsStartup(async () => {
+    for (const line of scriptLines(loaded.startup)) {
+      // Built per line, so scripts reloaded in between are picked up
+      const result = await terminalRegistry.execute(line, buildContext());
+      if (result) {
+        setCommands(prev => [...prev, { input: line, output: result.output, timestamp: new Date(), type: result.type }]);
       }
-    } catch (error) {
-      output = [
-        `ERROR: Command execution failed`,
-        `Details: ${error instanceof Error ? error.message : 'Unknown error'}`
-      ];
-      type = 'error';
     }
-
-    const newCommand: Command = {
-      input: trimmedInput,
-      output,
-      timestamp: new Date(),
-      type
+  });
+  startupRunner.current = runStartupScript;
+
+  const findCompletion = (input: string): CompletionMenu | null => {
+    const completion = terminalRegistry.complete(input, buildContext());
+    if (!completion || completion.candidates.length === 0) return null;
+    return {
+      base: input.slice(0, input.length - completion.prefix.length),
+      candidates: completion.candidates,
+      selected: 0,
     };
+  };
 
-    setCommands(prev => [...prev, newCommand]);
-    setCurrentInput("");
+  const acceptCandidate = (menu: CompletionMenu, candidate: CompletionCandidate) => {
+    setCurrentInput(`${menu.base}${candidate.value} `);
+    setCompletionMenu(null);
+  };
+
+  // Most recent command that starts with what has been typed, shown after the cursor
+  const historySuggestion = currentInput && !completionMenu && !reverseSearch
+    ? [...commandHistory].reverse().find(entry => entry.startsWith(currentInput) && entry !== currentInput)
+    : undefined;
+
+  const completeInput = () => {
+    const menu = findCompletion(currentInput);
+    if (!menu) {
+      if (historySuggestion) setCurrentInput(historySuggestion);
+      return;
+    }
+
+    const { base, candidates } = menu;
+    if (candidates.length === 1) {
+      acceptCandidate(menu, candidates[0]);
+      return;
+    }
+
+    // Extend to the longest shared prefix and offer the rest in the menu
+    const prefix = currentInput.slice(base.length);
+    if (candidates.every(candidate => candidate.value.toLowerCase().startsWith(prefix.toLowerCase()))) {
+      let shared = candidates[0].value;
+      for (const candidate of candidates) {
+        while (!candidate.value.toLowerCase().startsWith(shared.toLowerCase())) {
+          shared = shared.slice(0, -1);
+        }
+      }
+      if (shared.length > prefix.length) {
+        setCurrentInput(`${base}${shared}`);
+      }
+    }
+    setCompletionMenu(menu);
+  };
+
+  // Ctrl+R: the input holds the search text and the latest matching command is shown above it
+  const reverseSearchMatch = reverseSearch && reverseSearch.index !== -1 ? commandHistory[reverseSearch.index] : undefined;
+
+  const handleReverseSearchKey = (e: React.KeyboardEvent, search: ReverseSearch) => {
+    if (e.ctrlKey && e.key.toLowerCase() === 'r') {
+      e.preventDefault();
+      // Again: the next older match
+      const index = searchHistory(commandHistory, search.query, search.index === -1 ? commandHistory.length : search.index);
+      if (index !== -1) setReverseSearch({ ...search, index });
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      setReverseSearch(null);
+      executeCommand(reverseSearchMatch ?? search.original);
+    } else if (e.key === 'Escape' || (e.ctrlKey && e.key.toLowerCase() === 'g')) {
+      e.preventDefault();
+      setReverseSearch(null);
+      setCurrentInput(search.original);
+    } else if (['Tab', 'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown'].includes(e.key)) {
+      // Take the match into the input for editing
+      e.preventDefault();
+      setReverseSearch(null);
+      setCurrentInput(reverseSearchMatch ?? search.original);
+    }
+  };
+
+  const handleInputChange = (value: string) => {
+    if (reverseSearch) {
+      setReverseSearch({ ...reverseSearch, query: value, index: value ? searchHistory(commandHistory, value) : -1 });
+      return;
+    }
+    setCurrentInput(value);
+    // An open menu follows what is typed and closes once nothing matches
+    if (completionMenu) {
+      setCompletionMenu(findCompletion(value));
+    }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
+    if (reverseSearch) {
+      handleReverseSearchKey(e, reverseSearch);
+      return;
+    }
+    if (completionMenu) {
+      const count = completionMenu.candidates.length;
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setCompletionMenu({ ...completionMenu, selected: (completionMenu.selected + step + count) % count });
+        return;
+      }
+      if (e.key === 'Tab' || e.key === 'Enter') {
+        e.preventDefault();
+        acceptCandidate(completionMenu, completionMenu.candidates[completionMenu.selected]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setCompletionMenu(null);
+        return;
+      }
+    }
+
+    if (e.key === 'ArrowRight' && historySuggestion && inputRef.current?.selectionStart === currentInput.length) {
+      e.preventDefault();
+      setCurrentInput(historySuggestion);
+    } else if (e.key === 'Enter') {
       executeCommand(currentInput);
+    } else if (e.key === 'Escape' && pendingChoices) {
+      e.preventDefault();
+      setPendingChoices(null);
+    } else if (e.ctrlKey && e.key.toLowerCase() === 'r') {
+      e.preventDefault();
+      setCompletionMenu(null);
+      setReverseSearch({ query: '', index: -1, original: currentInput });
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      completeInput();
     } else if (e.key === 'ArrowUp') {
       e.preventDefault();
       if (commandHistory.length > 0) {
@@ -927,7 +556,14 @@ export function CyberTerminal({ onAddTodo, onAddTimeLog, onAddCalendarEvent, onA
                        'text-muted-foreground'
                      }`}
                   >
-                    {line}
+                    {typeof line === 'string' ? line : line.map((segment, segmentIndex) => (
+                      <span
+                        key={segmentIndex}
+                        style={segment.color ? { color: segment.color } : undefined}
+                      >
+                        {segment.text}
+                      </span>
+                    ))}
                   </div>
                 ))}
               </div>
@@ -940,17 +576,57 @@ export function CyberTerminal({ onAddTodo, onAddTimeLog, onAddCalendarEvent, onA
       {!isMinimized && (
         <div className={`fixed bottom-0 left-0 right-0 p-3 ${isFullscreen ? 'bg-black' : 'bg-black/90'} backdrop-blur-sm border-t border-primary/30 z-[60]`}>
            <div className="flex items-center gap-2 font-mono text-xs">
-             <span className="text-accent">root@cyber:~$</span>
-            <input
-              ref={inputRef}
-              type="text"
-              value={currentInput}
-              onChange={(e) => setCurrentInput(e.target.value)}
-              onKeyDown={handleKeyDown}
-              className="flex-1 bg-transparent border-none outline-none text-primary placeholder-muted-foreground terminal-cursor"
-              placeholder="Enter command..."
-              autoComplete="off"
-            />
+             <span className="text-accent">{reverseSearch ? '(reverse-i-search)' : 'root@cyber:~$'}</span>
+            <div className="relative flex-1">
+              {reverseSearch && (
+                <div className="absolute bottom-full left-0 mb-2 w-full max-w-lg truncate rounded border border-primary/30 bg-black/95 px-2 py-1 shadow-lg">
+                  {reverseSearchMatch ? (
+                    <span className="text-primary">{reverseSearchMatch}</span>
+                  ) : (
+                    <span className="text-muted-foreground">
+                      {reverseSearch.query ? `No command matching "${reverseSearch.query}"` : 'Type to search history, Ctrl+R for older matches, Esc to cancel'}
+                    </span>
+                  )}
+                </div>
+              )}
+              {completionMenu && (
+                <div className="absolute bottom-full left-0 mb-2 max-h-48 w-full max-w-lg overflow-y-auto rounded border border-primary/30 bg-black/95 py-1 shadow-lg">
+                  {completionMenu.candidates.map((candidate, index) => (
+                    <div
+                      key={candidate.value}
+                      onMouseDown={(e) => {
+                        // Keep focus in the input
+                        e.preventDefault();
+                        acceptCandidate(completionMenu, candidate);
+                      }}
+                      className={`flex cursor-pointer gap-3 px-2 py-0.5 ${
+                        index === completionMenu.selected ? 'bg-primary/20 text-primary' : 'text-muted-foreground hover:bg-primary/10'
+                      }`}
+                    >
+                      <span className="shrink-0">{candidate.value}</span>
+                      {candidate.description && <span className="truncate opacity-70">{candidate.description}</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {historySuggestion && (
+                <div className="pointer-events-none absolute inset-0 flex items-center whitespace-pre text-muted-foreground/50">
+                  <span className="invisible">{currentInput}</span>
+                  <span>{historySuggestion.slice(currentInput.length)}</span>
+                </div>
+              )}
+              <input
+                ref={inputRef}
+                type="text"
+                value={reverseSearch ? reverseSearch.query : currentInput}
+                onChange={(e) => handleInputChange(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onBlur={() => setCompletionMenu(null)}
+                className="relative w-full bg-transparent border-none outline-none text-primary placeholder-muted-foreground terminal-cursor"
+                placeholder={pendingChoices ? `Pick 1-${pendingChoices.length}, or enter another command...` : "Enter command..."}
+                autoComplete="off"
+              />
+            </div>
           </div>
         </div>
       )}
@@ -1,10 +1,20 @@
 
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { CheckSquare, Calendar, FileText, Target } from "lucide-react";
+import { CheckSquare, Calendar, FileText, Target, CalendarClock } from "lucide-react";
 import { format } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { useEffect, useState } from "react";
+import { formatDue, getDueDateTime, getDueGroup } from "@/lib/dueDates";
+import { FocusTimer } from "@/components/FocusTimer";
+
+interface DueTodo {
+  id: string;
+  text: string;
+  completed: boolean;
+  due_date: string | null;
+  due_time: string | null;
+}
 
 interface DashboardStats {
   activeTasks: number;
@@ -28,6 +38,7 @@ export function Dashboard() {
     focusTimeActual: "0h 0m",
     focusTimeTarget: "6h",
   });
+  const [dueTodos, setDueTodos] = useState<DueTodo[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -39,7 +50,7 @@ export function Dashboard() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const today = new Date().toISOString().split('T')[0];
+      const today = format(new Date(), 'yyyy-MM-dd');
       
       // Fetch todos
       const { data: todos } = await supabase
@@ -73,6 +84,13 @@ export function Dashboard() {
           todo.completed && 
           new Date(todo.updated_at).toDateString() === new Date().toDateString()
         ).length;
+        // Overdue and due-today todos, soonest first
+        setDueTodos(
+          todos
+            .filter(todo => !todo.completed && ['overdue', 'today'].includes(getDueGroup(todo)))
+            .sort((a, b) => getDueDateTime(a).getTime() - getDueDateTime(b).getTime())
+        );
+
         const upcomingEvents = events.length;
         const notesCreated = notes.length;
         
@@ -195,6 +213,31 @@ export function Dashboard() {
         ))}
       </div>
 
+      {/* Focus Session */}
+      <FocusTimer />
+
+      {/* Due Today */}
+      {dueTodos.length > 0 && (
+        <Card className="p-6">
+          <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Due Today
+          </h2>
+          <div className="space-y-2">
+            {dueTodos.map((todo) => {
+              const overdue = getDueGroup(todo) === 'overdue';
+              return (
+                <div key={todo.id} className="flex items-center justify-between text-sm">
+                  <span>{todo.text}</span>
+                  <Badge variant={overdue ? "destructive" : "secondary"}>
+                    {overdue ? `Overdue: ${formatDue(todo)}` : formatDue(todo)}
+                  </Badge>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
 
       {/* Progress Overview */}
       <Card className="p-6">
@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { addMinutes, format, parse } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  DEFAULT_EVENT_MINUTES,
+  EventFields,
+  EventTiming,
+  getEventEnd,
+  getEventStart,
+  isTimed,
+  toEventFields,
+} from "@/lib/calendarEvents";
+import { RecurrenceFields } from "@/components/RecurrenceFields";
+
+export interface EventFormValues extends EventFields {
+  title: string;
+  type: string;
+  description: string | null;
+  rrule: string | null;
+}
+
+interface EditableEvent extends EventTiming {
+  id: string;
+  title: string;
+  type: string;
+  description: string | null;
+  rrule?: string | null;
+  recurrence_id?: string | null;
+}
+
+interface EventDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (values: EventFormValues) => void;
+  onDelete: (id: string) => void;
+  event: EditableEvent | null;
+  defaultStart: Date;
+  defaultAllDay: boolean;
+  eventTypes: string[];
+}
+
+const CUSTOM_TYPE = "__custom";
+
+export function EventDialog({
+  isOpen,
+  onClose,
+  onSave,
+  onDelete,
+  event,
+  defaultStart,
+  defaultAllDay,
+  eventTypes,
+}: EventDialogProps) {
+  const [title, setTitle] = useState("");
+  const [allDay, setAllDay] = useState(true);
+  const [startDate, setStartDate] = useState("");
+  const [startClock, setStartClock] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [endClock, setEndClock] = useState("");
+  const [selectedType, setSelectedType] = useState("reminder");
+  const [customType, setCustomType] = useState("");
+  const [description, setDescription] = useState("");
+  const [rrule, setRrule] = useState<string | null>(null);
+
+  // Reset the form whenever the dialog opens for a different event or slot
+  useEffect(() => {
+    if (!isOpen) return;
+    const start = event ? getEventStart(event) : defaultStart;
+    const end = event ? getEventEnd(event) : addMinutes(defaultStart, DEFAULT_EVENT_MINUTES);
+    setTitle(event?.title || "");
+    setAllDay(event ? !isTimed(event) : defaultAllDay);
+    setStartDate(format(start, "yyyy-MM-dd"));
+    setStartClock(format(start, "HH:mm"));
+    setEndDate(format(end, "yyyy-MM-dd"));
+    setEndClock(format(end, "HH:mm"));
+    setSelectedType(event?.type || "reminder");
+    setCustomType("");
+    setDescription(event?.description || "");
+    setRrule(event?.rrule || null);
+  }, [isOpen, event, defaultStart, defaultAllDay]);
+
+  const type = selectedType === CUSTOM_TYPE ? customType.trim().toLowerCase() : selectedType;
+  const start = parse(`${startDate} ${allDay ? "00:00" : startClock}`, "yyyy-MM-dd HH:mm", new Date());
+  const end = parse(`${endDate || startDate} ${allDay ? "00:00" : endClock}`, "yyyy-MM-dd HH:mm", new Date());
+  const validRange = allDay ? end >= start : end > start;
+  const canSave = title.trim() && startDate && type && validRange;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    onSave({
+      ...toEventFields(start, end, allDay),
+      title: title.trim(),
+      type,
+      description: description.trim() || null,
+      rrule,
+    });
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!event) return;
+    onDelete(event.id);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{event ? "Edit Event" : "Add Event"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="event-title">Title</Label>
+              <Input
+                id="event-title"
+                placeholder="Event title..."
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="event-all-day"
+                checked={allDay}
+                onCheckedChange={(checked) => setAllDay(checked === true)}
+              />
+              <Label htmlFor="event-all-day">All day</Label>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="grid gap-2">
+                <Label htmlFor="event-start-date">Starts</Label>
+                <Input
+                  id="event-start-date"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+                {!allDay && (
+                  <Input
+                    type="time"
+                    value={startClock}
+                    onChange={(e) => setStartClock(e.target.value)}
+                  />
+                )}
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="event-end-date">Ends</Label>
+                <Input
+                  id="event-end-date"
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+                {!allDay && (
+                  <Input
+                    type="time"
+                    value={endClock}
+                    onChange={(e) => setEndClock(e.target.value)}
+                  />
+                )}
+              </div>
+            </div>
+            {!validRange && startDate && (
+              <p className="text-sm text-destructive">The event must end after it starts.</p>
+            )}
+            {/* Detached occurrences of a series can't start a series of their own */}
+            {!event?.recurrence_id && startDate && (
+              <RecurrenceFields value={rrule} onChange={setRrule} start={start} allDay={allDay} />
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="event-type">Type</Label>
+              <select
+                id="event-type"
+                value={selectedType}
+                onChange={(e) => setSelectedType(e.target.value)}
+                className="px-3 py-2 border rounded-md bg-background capitalize"
+              >
+                {eventTypes.map((eventType) => (
+                  <option key={eventType} value={eventType} className="capitalize">
+                    {eventType}
+                  </option>
+                ))}
+                <option value={CUSTOM_TYPE}>Custom...</option>
+              </select>
+            </div>
+            {selectedType === CUSTOM_TYPE && (
+              <div className="grid gap-2">
+                <Label htmlFor="event-custom-type">Custom type</Label>
+                <Input
+                  id="event-custom-type"
+                  placeholder="e.g. birthday, travel..."
+                  value={customType}
+                  onChange={(e) => setCustomType(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="event-description">Description</Label>
+              <Textarea
+                id="event-description"
+                placeholder="Optional details..."
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter className="sm:justify-between">
+            {event ? (
+              <Button type="button" variant="destructive" onClick={handleDelete}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            ) : <span />}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!canSave}>
+                {event ? "Save Changes" : "Add Event"}
+              </Button>
+            </div>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
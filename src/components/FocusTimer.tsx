@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { Brain, Play, Settings2, SkipForward, Square } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { toast } from "@/hooks/use-toast";
+import { useFocusSession } from "@/hooks/use-focus-session";
+import {
+  FocusSettings,
+  PHASE_LABELS,
+  formatRemaining,
+  getPhaseMinutes,
+  loadFocusSettings,
+  saveFocusSettings,
+  skipFocusPhase,
+  startFocusSession,
+  stopFocusSession,
+} from "@/lib/pomodoro";
+
+const SETTING_FIELDS: { key: keyof FocusSettings; label: string }[] = [
+  { key: 'workMinutes', label: 'Focus (min)' },
+  { key: 'shortBreakMinutes', label: 'Short break (min)' },
+  { key: 'longBreakMinutes', label: 'Long break (min)' },
+  { key: 'cycles', label: 'Focus intervals per long break' },
+];
+
+// Pomodoro widget: alternating focus intervals and breaks, with each finished interval logged
+export function FocusTimer() {
+  const { session, remaining } = useFocusSession();
+  const [activity, setActivity] = useState("");
+  const [settings, setSettings] = useState<FocusSettings>(loadFocusSettings);
+
+  const updateSetting = (key: keyof FocusSettings, value: string) => {
+    const number = parseInt(value);
+    if (isNaN(number) || number < 1) return;
+    const updated = { ...settings, [key]: number };
+    setSettings(updated);
+    saveFocusSettings(updated);
+  };
+
+  const handleStart = () => {
+    startFocusSession(activity.trim() || "Focus session", settings);
+    setActivity("");
+  };
+
+  const handleSkip = async () => {
+    try {
+      await skipFocusPhase();
+    } catch (error) {
+      console.error('Error skipping focus phase:', error);
+      toast({
+        title: "Error logging focus time",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleStop = async () => {
+    try {
+      const stopped = await stopFocusSession();
+      if (stopped) {
+        toast({
+          title: "Focus session stopped",
+          description: `${stopped.session.completedWork} interval(s) completed${stopped.logged ? `, ${stopped.logged.duration}m logged for the last one` : ''}`,
+        });
+      }
+    } catch (error) {
+      console.error('Error stopping focus session:', error);
+      toast({
+        title: "Error logging focus time",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (session) {
+    const total = getPhaseMinutes(session) * 60 * 1000;
+    const progress = Math.min(((total - remaining) / total) * 100, 100);
+    // Intervals done towards the next long break; all of them while it runs
+    const filled = session.phase === 'long-break' ? session.settings.cycles : session.completedWork % session.settings.cycles;
+
+    return (
+      <Card className="p-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <p className={`text-sm font-medium ${session.phase === 'work' ? "text-purple-500" : "text-green-600"}`}>
+              {PHASE_LABELS[session.phase]}
+            </p>
+            <h2 className="text-lg font-semibold truncate">{session.activity}</h2>
+            <div className="flex items-center gap-1 mt-2" title={`${session.completedWork} focus interval(s) completed`}>
+              {Array.from({ length: session.settings.cycles }, (_, i) => (
+                <span
+                  key={i}
+                  className={`w-2 h-2 rounded-full ${i < filled ? "bg-purple-500" : "bg-muted"}`}
+                />
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-4xl font-mono font-bold tabular-nums">{formatRemaining(remaining)}</span>
+            <Button variant="outline" size="sm" onClick={handleSkip} title="Skip to the next phase">
+              <SkipForward className="w-4 h-4" />
+            </Button>
+            <Button variant="destructive" size="sm" onClick={handleStop}>
+              <Square className="w-4 h-4 mr-2" />
+              Stop
+            </Button>
+          </div>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-2 mt-4">
+          <div
+            className={`h-2 rounded-full transition-all duration-300 ${session.phase === 'work' ? "bg-gradient-to-r from-purple-500 to-pink-500" : "bg-green-500"}`}
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+        <Brain className="w-5 h-5" />
+        Focus Session
+      </h2>
+      <div className="flex gap-2">
+        <Input
+          placeholder="What will you focus on?"
+          value={activity}
+          onChange={(e) => setActivity(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleStart()}
+        />
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="icon" title="Focus settings">
+              <Settings2 className="w-4 h-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72" align="end">
+            <div className="grid gap-3">
+              {SETTING_FIELDS.map(({ key, label }) => (
+                <div key={key} className="grid grid-cols-3 items-center gap-2">
+                  <Label htmlFor={`focus-${key}`} className="col-span-2">{label}</Label>
+                  <Input
+                    id={`focus-${key}`}
+                    type="number"
+                    min="1"
+                    value={settings[key]}
+                    onChange={(e) => updateSetting(key, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          </PopoverContent>
+        </Popover>
+        <Button onClick={handleStart}>
+          <Play className="w-4 h-4 mr-2" />
+          Start
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        {settings.workMinutes}m focus, {settings.shortBreakMinutes}m breaks and a {settings.longBreakMinutes}m break
+        after every {settings.cycles} intervals. Finished intervals are added to your time log.
+      </p>
+    </Card>
+  );
+}
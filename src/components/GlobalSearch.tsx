@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Calendar, CheckSquare, Clock, FileText, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  SEARCH_KIND_LABELS,
+  SEARCH_KIND_PATHS,
+  SearchKind,
+  SearchResult,
+  searchAll,
+  splitSnippet,
+} from "@/lib/search";
+
+const SEARCH_DELAY = 200;
+
+const KIND_ICONS: Record<SearchKind, typeof Search> = {
+  note: FileText,
+  todo: CheckSquare,
+  event: Calendar,
+  time: Clock,
+};
+
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {splitSnippet(text).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-primary/30 text-foreground rounded-sm px-0.5">{part.text}</mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+// Search everything from anywhere: header button or Ctrl+K / Cmd+K
+export function GlobalSearch() {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Editors that use the same shortcut have already handled it
+      if (e.defaultPrevented) return;
+      if (e.key.toLowerCase() === 'k' && (e.ctrlKey || e.metaKey) && !e.shiftKey && !e.altKey) {
+        e.preventDefault();
+        setOpen(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timeout = setTimeout(() => {
+      searchAll(query)
+        .then(found => !cancelled && setResults(found))
+        .catch(error => console.error('Error searching:', error))
+        .finally(() => !cancelled && setSearching(false));
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const handleSelect = (result: SearchResult) => {
+    setOpen(false);
+    setQuery("");
+    navigate(result.kind === 'note' ? `/notes?note=${result.id}` : SEARCH_KIND_PATHS[result.kind]);
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="gap-2 font-mono terminal-border hover:neon-glow"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="w-4 h-4" />
+        <span className="hidden lg:inline">SEARCH</span>
+        <kbd className="hidden lg:inline text-xs text-muted-foreground">⌘K</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg sm:max-w-[640px]">
+          <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-item]]:py-2">
+            <CommandInput
+              placeholder="Search notes, todos, events and time logs..."
+              value={query}
+              onValueChange={setQuery}
+            />
+            <CommandList className="max-h-[420px]">
+              {query.trim() && !searching && <CommandEmpty>No results for "{query}"</CommandEmpty>}
+              {/* Results arrive best first, so kinds are listed by their best match */}
+              {[...new Set(results.map(result => result.kind))].map((kind) => {
+                const matches = results.filter(result => result.kind === kind);
+                const Icon = KIND_ICONS[kind];
+                return (
+                  <CommandGroup key={kind} heading={SEARCH_KIND_LABELS[kind]}>
+                    {matches.map((result) => (
+                      <CommandItem
+                        key={result.id}
+                        value={`${result.kind}-${result.id}`}
+                        onSelect={() => handleSelect(result)}
+                        className="items-start gap-3"
+                      >
+                        <Icon className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="truncate font-medium"><Highlighted text={result.headline} /></span>
+                            <span className="shrink-0 text-xs text-muted-foreground">{result.date}</span>
+                          </div>
+                          {result.snippet && (
+                            <p className="text-xs text-muted-foreground line-clamp-2">
+                              <Highlighted text={result.snippet} />
+                            </p>
+                          )}
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Calendar as CalendarIcon, CheckSquare, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+import { ImportPlan, applyImport, describeImportItem } from "@/lib/ical";
+
+interface IcsImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+  fileName: string;
+  plan: ImportPlan | null;
+}
+
+export function IcsImportDialog({ isOpen, onClose, onImported, fileName, plan }: IcsImportDialogProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [importing, setImporting] = useState(false);
+
+  // New items are selected up front; duplicates only overwrite what's there when ticked
+  useEffect(() => {
+    if (!plan) return;
+    setSelected(new Set(plan.items.filter(item => !item.existingId).map(item => item.key)));
+  }, [plan]);
+
+  const items = plan?.items || [];
+  const duplicates = items.filter(item => item.existingId).length;
+
+  const toggle = (key: string) => {
+    const next = new Set(selected);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setSelected(next);
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const { created, updated } = await applyImport(items.filter(item => selected.has(item.key)));
+      toast({
+        title: "Calendar imported",
+        description: `${created} added, ${updated} updated from ${fileName}.`,
+      });
+      onImported();
+      onClose();
+    } catch (error) {
+      console.error('Error importing calendar:', error);
+      toast({
+        title: "Error importing calendar",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Import {fileName}</DialogTitle>
+          <DialogDescription>
+            {items.length} item{items.length === 1 ? "" : "s"} found
+            {duplicates > 0 && `, ${duplicates} already imported (tick them to overwrite)`}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[360px] pr-3">
+          <div className="space-y-2">
+            {items.map((item) => {
+              const title = item.kind === 'event' ? item.data.title : item.data.text;
+              return (
+                <label
+                  key={item.key}
+                  className="flex items-center gap-3 p-2 border rounded-lg cursor-pointer hover:bg-accent"
+                >
+                  <Checkbox checked={selected.has(item.key)} onCheckedChange={() => toggle(item.key)} />
+                  {item.kind === 'event'
+                    ? <CalendarIcon className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+                    : <CheckSquare className="w-4 h-4 flex-shrink-0 text-muted-foreground" />}
+                  <div className="min-w-0 flex-1">
+                    <div className="font-medium truncate">{title}</div>
+                    <div className="text-xs text-muted-foreground">{describeImportItem(item)}</div>
+                  </div>
+                  {item.existingId && <Badge variant="outline">Duplicate</Badge>}
+                </label>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        {plan?.warnings.length > 0 && (
+          <div className="space-y-1 text-xs text-muted-foreground">
+            {plan.warnings.map((warning) => (
+              <p key={warning} className="flex items-start gap-1">
+                <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0 text-yellow-600" />
+                {warning}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleImport} disabled={importing || selected.size === 0}>
+            {importing ? "Importing..." : `Import ${selected.size}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
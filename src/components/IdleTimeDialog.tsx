@@ -0,0 +1,207 @@
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+import { useRunningTimer } from "@/hooks/use-running-timer";
+import {
+  IdlePeriod,
+  IdleResolution,
+  findIdlePeriod,
+  idleMinutes,
+  recordActivity,
+  resolveIdleTime,
+} from "@/lib/idleTime";
+import { TIMER_REPLACING_EVENT, TimeLogRow, TimerReplacing } from "@/lib/timer";
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+const CHECK_INTERVAL = 1000;
+
+const RESOLUTION_LABELS: Record<IdleResolution, string> = {
+  keep: "Keep the idle time",
+  discard: "Discard the idle time",
+  split: "Log the idle time as something else",
+};
+
+const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+};
+
+// Watches for input while a timer runs. When the user comes back after being idle, or the
+// timer has run past its limit, asks what to do with that time before it is logged. Starting
+// another timer meanwhile waits for the answer.
+export function IdleTimeDialog() {
+  const { timer } = useRunningTimer();
+  const [period, setPeriod] = useState<IdlePeriod | null>(null);
+  const [resolution, setResolution] = useState<IdleResolution>('discard');
+  const [splitActivity, setSplitActivity] = useState("");
+  const [keepRunning, setKeepRunning] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // Another timer is about to replace this one, so it stops whatever is chosen
+  const [replacing, setReplacing] = useState(false);
+  const lastCheck = useRef(0);
+  // Set as soon as idle time is found; the state only follows on the next render
+  const pendingPeriod = useRef<IdlePeriod | null>(null);
+  // Timers being started that wait for the decision
+  const waiting = useRef<((stopped?: TimeLogRow | null) => void)[]>([]);
+
+  const release = (stopped?: TimeLogRow | null) => {
+    waiting.current.forEach(resolve => resolve(stopped));
+    waiting.current = [];
+  };
+
+  useEffect(() => {
+    const handleActivity = () => {
+      if (document.visibilityState !== 'visible') return;
+      const now = new Date();
+      if (now.getTime() - lastCheck.current < CHECK_INTERVAL) return;
+      lastCheck.current = now.getTime();
+
+      const lastActivity = recordActivity(now);
+      if (!timer || period) return;
+
+      const found = findIdlePeriod(timer, lastActivity, now);
+      if (found) {
+        pendingPeriod.current = found;
+        setPeriod(found);
+        setReplacing(false);
+        setResolution('discard');
+        setSplitActivity("");
+        // Someone who forgot a timer has most likely moved on to something else
+        setKeepRunning(found.reason === 'idle');
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleActivity);
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleActivity);
+    };
+  }, [timer, period]);
+
+  useEffect(() => {
+    const handleReplacing = (event: Event) => {
+      const { timer: replaced, settle } = (event as CustomEvent<TimerReplacing>).detail;
+      if (pendingPeriod.current?.timerId !== replaced.id) return;
+      setReplacing(true);
+      setKeepRunning(false);
+      settle(new Promise(resolve => waiting.current.push(resolve)));
+    };
+
+    window.addEventListener(TIMER_REPLACING_EVENT, handleReplacing);
+    return () => {
+      window.removeEventListener(TIMER_REPLACING_EVENT, handleReplacing);
+      // Nobody is left to answer; the waiting timers stop the old one as usual
+      waiting.current.forEach(resolve => resolve(undefined));
+      waiting.current = [];
+    };
+  }, []);
+
+  // The timer was stopped or replaced elsewhere; nothing left to decide. While saving, that
+  // is the decision itself taking effect
+  useEffect(() => {
+    if (period && timer?.id !== period.timerId && !saving) {
+      pendingPeriod.current = null;
+      setPeriod(null);
+      release(undefined);
+    }
+  }, [timer, period, saving]);
+
+  const handleResolve = async (chosen: IdleResolution, running: boolean) => {
+    if (!timer || !period) return;
+    setSaving(true);
+    try {
+      const stopped = await resolveIdleTime(timer, period, chosen, {
+        splitActivity: splitActivity.trim(),
+        keepRunning: running,
+      });
+      if (chosen !== 'keep') {
+        toast({
+          title: chosen === 'split' ? "Idle time logged separately" : "Idle time discarded",
+          description: stopped ? `"${stopped.activity}" - ${formatDuration(stopped.duration)}` : undefined,
+        });
+      }
+      pendingPeriod.current = null;
+      setPeriod(null);
+      release(stopped);
+    } catch (error) {
+      console.error('Error resolving idle time:', error);
+      toast({
+        title: "Error updating timer",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!period || !timer) return null;
+
+  const minutes = idleMinutes(period);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && handleResolve('keep', !replacing)}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>
+            {period.reason === 'idle' ? "You were away" : "Is this timer still running?"}
+          </DialogTitle>
+          <DialogDescription>
+            {period.reason === 'idle'
+              ? `No activity for ${formatDuration(minutes)} (since ${format(period.from, 'HH:mm')}) while "${timer.activity}" was running.`
+              : `"${timer.activity}" has been running since ${format(new Date(timer.started_at), 'MMM d, HH:mm')}. The last ${formatDuration(minutes)} may not have been work.`}
+          </DialogDescription>
+        </DialogHeader>
+        <RadioGroup value={resolution} onValueChange={(value) => setResolution(value as IdleResolution)} className="py-2">
+          {(Object.keys(RESOLUTION_LABELS) as IdleResolution[]).map((option) => (
+            <div key={option} className="flex items-center gap-2">
+              <RadioGroupItem id={`idle-${option}`} value={option} />
+              <Label htmlFor={`idle-${option}`}>{RESOLUTION_LABELS[option]}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+        {resolution === 'split' && (
+          <Input
+            placeholder="What were you doing? (e.g. Meeting)"
+            value={splitActivity}
+            onChange={(e) => setSplitActivity(e.target.value)}
+          />
+        )}
+        {replacing ? (
+          <p className="text-sm text-muted-foreground">
+            "{timer.activity}" stops once you continue, and the new timer starts.
+          </p>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="idle-keep-running"
+              checked={keepRunning}
+              onCheckedChange={(checked) => setKeepRunning(checked === true)}
+            />
+            <Label htmlFor="idle-keep-running">Keep the timer running</Label>
+          </div>
+        )}
+        <DialogFooter>
+          <Button onClick={() => handleResolve(resolution, keepRunning)} disabled={saving}>
+            {saving ? "Saving..." : "Continue"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Hourglass } from "lucide-react";
+import { IdleSettings, loadIdleSettings, saveIdleSettings } from "@/lib/idleTime";
+
+// When a running timer asks about time that may not have been work. Stored per browser,
+// since that is where the input is watched.
+export function IdleTimeSettings() {
+  const [settings, setSettings] = useState<IdleSettings>(loadIdleSettings);
+
+  const update = (changes: Partial<IdleSettings>) => {
+    const updated = { ...settings, ...changes };
+    setSettings(updated);
+    saveIdleSettings(updated);
+  };
+
+  const updateNumber = (key: 'idleMinutes' | 'maxTimerHours', value: string) => {
+    const number = parseInt(value);
+    if (isNaN(number) || number < 1) return;
+    update({ [key]: number });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hourglass className="w-5 h-5" />
+          Idle Detection
+        </CardTitle>
+        <CardDescription>
+          Ask before logging time a running timer counted while you were away
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="idle-enabled">Detect idle time</Label>
+          <Switch
+            id="idle-enabled"
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => update({ enabled })}
+          />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="idle-minutes">Idle after (minutes without input)</Label>
+            <Input
+              id="idle-minutes"
+              type="number"
+              min="1"
+              value={settings.idleMinutes}
+              disabled={!settings.enabled}
+              onChange={(e) => updateNumber('idleMinutes', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="idle-max-hours">Flag timers running longer than (hours)</Label>
+            <Input
+              id="idle-max-hours"
+              type="number"
+              min="1"
+              value={settings.maxTimerHours}
+              disabled={!settings.enabled}
+              onChange={(e) => updateNumber('maxTimerHours', e.target.value)}
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,260 @@
+import { KeyboardEvent, useRef, useState } from "react";
+import {
+  Bold,
+  Code,
+  Heading2,
+  Italic,
+  Link,
+  List,
+  ListChecks,
+  ListOrdered,
+  Quote,
+  SquareCode,
+  Strikethrough,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MarkdownPreview } from "@/components/MarkdownPreview";
+import { MarkdownFormat, TextEdit, applyMarkdownFormat, continueList, toggleTaskAt } from "@/lib/markdown";
+import { WikiLinkIndex, WikiLinkKind, WikiLinkSuggestion, getWikiLinkSuggestions } from "@/lib/wikiLinks";
+
+type EditorMode = 'write' | 'split' | 'preview';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  // Enables [[link]] autocomplete and resolves links in the preview
+  wikiLinks?: WikiLinkIndex;
+}
+
+// An unfinished "[[..." before the cursor
+interface LinkQuery {
+  start: number;
+  query: string;
+}
+
+const KIND_LABELS: Record<WikiLinkKind, string> = {
+  note: "Note",
+  todo: "Todo",
+  event: "Event",
+};
+
+const MODE_LABELS: Record<EditorMode, string> = {
+  write: "Write",
+  split: "Split",
+  preview: "Preview",
+};
+
+const TOOLBAR: { format: MarkdownFormat; label: string; shortcut?: string; icon: typeof Bold }[] = [
+  { format: 'heading', label: "Heading", icon: Heading2 },
+  { format: 'bold', label: "Bold", shortcut: "Ctrl+B", icon: Bold },
+  { format: 'italic', label: "Italic", shortcut: "Ctrl+I", icon: Italic },
+  { format: 'strikethrough', label: "Strikethrough", shortcut: "Ctrl+Shift+X", icon: Strikethrough },
+  { format: 'code', label: "Inline code", shortcut: "Ctrl+E", icon: Code },
+  { format: 'codeblock', label: "Code block", shortcut: "Ctrl+Shift+E", icon: SquareCode },
+  { format: 'link', label: "Link", shortcut: "Ctrl+K", icon: Link },
+  { format: 'quote', label: "Quote", icon: Quote },
+  { format: 'bullet', label: "Bulleted list", shortcut: "Ctrl+Shift+8", icon: List },
+  { format: 'numbered', label: "Numbered list", shortcut: "Ctrl+Shift+7", icon: ListOrdered },
+  { format: 'task', label: "Task list", shortcut: "Ctrl+Shift+9", icon: ListChecks },
+];
+
+// Ctrl (Cmd on macOS) shortcuts, keyed by KeyboardEvent.code so they work on any layout
+const SHORTCUTS: Record<string, MarkdownFormat> = {
+  KeyB: 'bold',
+  KeyI: 'italic',
+  KeyE: 'code',
+  KeyK: 'link',
+  'Shift+KeyX': 'strikethrough',
+  'Shift+KeyE': 'codeblock',
+  'Shift+Digit8': 'bullet',
+  'Shift+Digit7': 'numbered',
+  'Shift+Digit9': 'task',
+};
+
+export function MarkdownEditor({ value, onChange, placeholder, wikiLinks }: MarkdownEditorProps) {
+  const [mode, setMode] = useState<EditorMode>('write');
+  const [linkQuery, setLinkQuery] = useState<LinkQuery | null>(null);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions: WikiLinkSuggestion[] = wikiLinks && linkQuery ? getWikiLinkSuggestions(wikiLinks, linkQuery.query) : [];
+
+  const updateLinkQuery = (text: string, cursor: number) => {
+    if (!wikiLinks) return;
+    const match = text.slice(0, cursor).match(/\[\[([^\]\n]*)$/);
+    const next = match ? { start: cursor - match[0].length, query: match[1] } : null;
+    if (next?.query !== linkQuery?.query || next?.start !== linkQuery?.start) {
+      setLinkQuery(next);
+      setActiveSuggestion(0);
+    }
+  };
+
+  const applyEdit = (edit: TextEdit) => {
+    onChange(edit.text);
+    // Restore the selection once React has written the new value
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
+  const applyFormat = (format: MarkdownFormat) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    applyEdit(applyMarkdownFormat(value, textarea.selectionStart, textarea.selectionEnd, format));
+  };
+
+  const insertLink = (suggestion: WikiLinkSuggestion) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !linkQuery) return;
+    const cursor = textarea.selectionStart;
+    // Reuse closing brackets that are already there
+    const after = value.slice(cursor).replace(/^\]\]/, '');
+    const before = `${value.slice(0, linkQuery.start)}[[${suggestion.insert}]]`;
+    setLinkQuery(null);
+    applyEdit({ text: before + after, selectionStart: before.length, selectionEnd: before.length });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = e.currentTarget;
+
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveSuggestion((activeSuggestion + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertLink(suggestions[activeSuggestion] || suggestions[0]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setLinkQuery(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      const edit = continueList(value, selectionStart, selectionEnd);
+      if (edit) {
+        e.preventDefault();
+        applyEdit(edit);
+      }
+      return;
+    }
+
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    const format = SHORTCUTS[e.shiftKey ? `Shift+${e.code}` : e.code];
+    if (format) {
+      e.preventDefault();
+      applyEdit(applyMarkdownFormat(value, selectionStart, selectionEnd, format));
+    }
+  };
+
+  const editor = (
+    <Textarea
+      ref={textareaRef}
+      placeholder={placeholder}
+      value={value}
+      onChange={(e) => {
+        onChange(e.target.value);
+        updateLinkQuery(e.target.value, e.target.selectionStart);
+      }}
+      onSelect={(e) => updateLinkQuery(e.currentTarget.value, e.currentTarget.selectionStart)}
+      onBlur={() => setLinkQuery(null)}
+      onKeyDown={handleKeyDown}
+      rows={12}
+      className="font-mono text-sm min-h-[240px] resize-y"
+    />
+  );
+
+  const editorWithSuggestions = (
+    <div className="relative">
+      {editor}
+      {suggestions.length > 0 && (
+        <div className="absolute left-2 right-2 top-full z-50 mt-1 rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={`${suggestion.kind}-${index}`}
+              type="button"
+              className={`flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm ${index === activeSuggestion ? "bg-accent text-accent-foreground" : ""}`}
+              // Keep focus in the textarea so the cursor position survives the click
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertLink(suggestion)}
+            >
+              <span className="w-12 shrink-0 text-xs text-muted-foreground">{KIND_LABELS[suggestion.kind]}</span>
+              <span className="truncate">{suggestion.label}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const preview = (
+    <div className="min-h-[240px] rounded-md border border-input px-3 py-2 overflow-auto">
+      {value.trim() ? (
+        <MarkdownPreview
+          content={value}
+          wikiLinks={wikiLinks}
+          onToggleTask={(line) => onChange(toggleTaskAt(value, line))}
+        />
+      ) : (
+        <p className="text-sm text-muted-foreground">Nothing to preview</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-1">
+          {TOOLBAR.map(({ format, label, shortcut, icon: Icon }) => (
+            <Button
+              key={format}
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              title={shortcut ? `${label} (${shortcut})` : label}
+              disabled={mode === 'preview'}
+              onClick={() => applyFormat(format)}
+            >
+              <Icon className="w-4 h-4" />
+            </Button>
+          ))}
+        </div>
+        <div className="flex rounded-lg border">
+          {(Object.keys(MODE_LABELS) as EditorMode[]).map((option, index, options) => (
+            <Button
+              key={option}
+              type="button"
+              variant={mode === option ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setMode(option)}
+              className={`${index > 0 ? "rounded-l-none" : ""} ${index < options.length - 1 ? "rounded-r-none" : ""}`}
+            >
+              {MODE_LABELS[option]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'write' && editorWithSuggestions}
+      {mode === 'preview' && preview}
+      {mode === 'split' && (
+        <div className="grid gap-2 md:grid-cols-2">
+          {editorWithSuggestions}
+          {preview}
+        </div>
+      )}
+    </div>
+  );
+}
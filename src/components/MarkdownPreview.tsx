@@ -0,0 +1,121 @@
+import { createContext, useContext } from "react";
+import ReactMarkdown, { Components, ExtraProps } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeRaw from "rehype-raw";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeHighlight from "rehype-highlight";
+import { useNavigate } from "react-router-dom";
+import { cn } from "@/lib/utils";
+import { ResolvedWikiLink, WikiLinkIndex, fromWikiHref, remarkWikiLinks, resolveWikiLink } from "@/lib/wikiLinks";
+
+interface MarkdownPreviewProps {
+  content: string;
+  // Called with the 1-based source line of a task list checkbox that was clicked;
+  // without it checkboxes are read-only
+  onToggleTask?: (line: number) => void;
+  // What [[wiki links]] can point to; without it they render unresolved
+  wikiLinks?: WikiLinkIndex;
+  // Opens a resolved wiki link; by default the app navigates to where the item lives
+  onOpenLink?: (link: ResolvedWikiLink) => void;
+  className?: string;
+}
+
+// The source line of the list item being rendered, for the checkbox inside it
+const TaskLineContext = createContext<number | null>(null);
+const TaskToggleContext = createContext<((line: number) => void) | undefined>(undefined);
+
+function TaskCheckbox({ node, ...props }: JSX.IntrinsicElements['input'] & ExtraProps) {
+  const line = useContext(TaskLineContext);
+  const onToggleTask = useContext(TaskToggleContext);
+  if (props.type !== 'checkbox' || !onToggleTask || line === null) {
+    return <input {...props} />;
+  }
+  return (
+    <input
+      {...props}
+      disabled={false}
+      className="cursor-pointer accent-primary"
+      onClick={(e) => e.stopPropagation()}
+      onChange={() => onToggleTask(line)}
+    />
+  );
+}
+
+const WikiLinkContext = createContext<Pick<MarkdownPreviewProps, 'wikiLinks' | 'onOpenLink'>>({});
+
+function Anchor({ node, href, children, ...props }: JSX.IntrinsicElements['a'] & ExtraProps) {
+  const { wikiLinks, onOpenLink } = useContext(WikiLinkContext);
+  const navigate = useNavigate();
+  const link = fromWikiHref(href);
+
+  if (!link) {
+    return <a href={href} {...props} target="_blank" rel="noopener noreferrer">{children}</a>;
+  }
+
+  const resolved = wikiLinks ? resolveWikiLink(wikiLinks, link) : null;
+  if (!resolved) {
+    return (
+      <span
+        className="text-destructive line-through decoration-dotted"
+        title={wikiLinks ? `Broken link: nothing called "${link.target}"` : link.target}
+      >
+        {children}
+      </span>
+    );
+  }
+
+  return (
+    <a
+      href={resolved.path}
+      title={resolved.title}
+      className="no-underline border-b border-dashed border-primary"
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (onOpenLink) onOpenLink(resolved);
+        else navigate(resolved.path);
+      }}
+    >
+      {/* Show what an id-prefix link points to, unless it has a label of its own */}
+      {children === link.target ? resolved.title : children}
+    </a>
+  );
+}
+
+const COMPONENTS: Components = {
+  li: ({ node, ...props }) => (
+    <TaskLineContext.Provider value={node?.position?.start.line ?? null}>
+      <li {...props} />
+    </TaskLineContext.Provider>
+  ),
+  input: TaskCheckbox,
+  a: Anchor,
+};
+
+// Raw HTML in notes is allowed but sanitized before highlighting adds its own classes
+const REHYPE_PLUGINS = [rehypeRaw, rehypeSanitize, rehypeHighlight];
+const REMARK_PLUGINS = [remarkGfm, remarkWikiLinks];
+
+export function MarkdownPreview({ content, onToggleTask, wikiLinks, onOpenLink, className }: MarkdownPreviewProps) {
+  return (
+    <div
+      className={cn(
+        "prose prose-sm prose-invert max-w-none prose-pre:bg-black/60 prose-pre:border prose-pre:border-primary/30",
+        "prose-a:text-primary prose-li:my-0 [&_.contains-task-list]:pl-0 [&_.task-list-item]:list-none",
+        className
+      )}
+    >
+      <WikiLinkContext.Provider value={{ wikiLinks, onOpenLink }}>
+        <TaskToggleContext.Provider value={onToggleTask}>
+          <ReactMarkdown
+            remarkPlugins={REMARK_PLUGINS}
+            rehypePlugins={REHYPE_PLUGINS}
+            components={COMPONENTS}
+          >
+            {content}
+          </ReactMarkdown>
+        </TaskToggleContext.Provider>
+      </WikiLinkContext.Provider>
+    </div>
+  );
+}
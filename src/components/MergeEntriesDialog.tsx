@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface MergeOption {
+  value: string | null;
+  label: string;
+}
+
+interface MergeEntriesDialogProps {
+  isOpen: boolean;
+  count: number;
+  projectOptions: MergeOption[];
+  todoOptions: MergeOption[];
+  onClose: () => void;
+  onConfirm: (projectId: string | null, todoId: string | null) => void;
+}
+
+// RadioGroup values are strings; entries without a project or todo use this one
+const NONE = 'none';
+
+const toValue = (value: string | null) => value ?? NONE;
+const fromValue = (value: string) => (value === NONE ? null : value);
+
+// Asked before merging entries booked on different projects or todos, since the merged
+// entry can only keep one of each
+export function MergeEntriesDialog({ isOpen, count, projectOptions, todoOptions, onClose, onConfirm }: MergeEntriesDialogProps) {
+  const [projectId, setProjectId] = useState(NONE);
+  const [todoId, setTodoId] = useState(NONE);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setProjectId(toValue(projectOptions[0]?.value ?? null));
+    setTodoId(toValue(todoOptions[0]?.value ?? null));
+  }, [isOpen, projectOptions, todoOptions]);
+
+  const handleConfirm = () => {
+    onConfirm(fromValue(projectId), fromValue(todoId));
+    onClose();
+  };
+
+  const renderOptions = (name: string, options: MergeOption[], value: string, onChange: (value: string) => void) => (
+    <div className="space-y-2">
+      <Label>{name}</Label>
+      <RadioGroup value={value} onValueChange={onChange}>
+        {options.map((option) => (
+          <div key={toValue(option.value)} className="flex items-center gap-2">
+            <RadioGroupItem id={`merge-${name}-${toValue(option.value)}`} value={toValue(option.value)} />
+            <Label htmlFor={`merge-${name}-${toValue(option.value)}`} className="font-normal">{option.label}</Label>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>Merge {count} entries</DialogTitle>
+          <DialogDescription>
+            These entries are booked differently. Choose what the merged entry keeps; tags of all entries are kept.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {projectOptions.length > 1 && renderOptions("Project", projectOptions, projectId, setProjectId)}
+          {todoOptions.length > 1 && renderOptions("Todo", todoOptions, todoId, setTodoId)}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleConfirm}>
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,12 +3,24 @@ import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Search, Edit3, Trash2, FileText } from "lucide-react";
+import { Plus, Search, Edit3, Trash2, FileText, AlertTriangle, Link2, X } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { format } from "date-fns";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { MarkdownEditor } from "@/components/MarkdownEditor";
+import { MarkdownPreview } from "@/components/MarkdownPreview";
+import { toggleTaskAt } from "@/lib/markdown";
+import {
+  EMPTY_WIKI_LINK_INDEX,
+  ResolvedWikiLink,
+  WikiLinkIndex,
+  fetchWikiLinkIndex,
+  findBacklinks,
+  findBrokenLinks,
+} from "@/lib/wikiLinks";
+import { searchAll } from "@/lib/search";
 
 interface Note {
   id: string;
@@ -30,11 +42,79 @@ export function NotesSection() {
     tags: "",
   });
   const [loading, setLoading] = useState(true);
+  const [viewingNoteId, setViewingNoteId] = useState<string | null>(null);
+  // Todos and events that [[todo:...]] and [[event:...]] links can point to
+  const [linkTargets, setLinkTargets] = useState<Omit<WikiLinkIndex, 'notes'>>(EMPTY_WIKI_LINK_INDEX);
+  // Note ids in rank order for the current search; null until the search has returned
+  const [rankedIds, setRankedIds] = useState<string[] | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
 
   useEffect(() => {
     fetchNotes();
   }, []);
 
+  // Opened from global search
+  useEffect(() => {
+    const id = searchParams.get('note');
+    if (id) setViewingNoteId(id);
+  }, [searchParams]);
+
+  useEffect(() => {
+    setRankedIds(null);
+    if (!searchTerm.trim()) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      searchAll(searchTerm, { kinds: ['note'] })
+        .then(results => !cancelled && setRankedIds(results.map(result => result.id)))
+        .catch(error => console.error('Error searching notes:', error));
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchTerm]);
+
+  useEffect(() => {
+    fetchWikiLinkIndex()
+      .then(setLinkTargets)
+      .catch((error) => console.error('Error fetching link targets:', error));
+  }, []);
+
+  const wikiLinks: WikiLinkIndex = {
+    ...linkTargets,
+    notes: notes.map(({ id, title }) => ({ id, title })),
+  };
+  const viewingNote = notes.find(note => note.id === viewingNoteId) || null;
+  const backlinks = viewingNote ? findBacklinks(notes, viewingNote.title, viewingNote.id) : [];
+
+  const closeViewer = () => {
+    setViewingNoteId(null);
+    // So that opening the same note from search again still works
+    if (searchParams.has('note')) setSearchParams({}, { replace: true });
+  };
+
+  const openLink = (link: ResolvedWikiLink) => {
+    if (link.kind === 'note') {
+      setViewingNoteId(link.id);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    } else {
+      navigate(link.path);
+    }
+  };
+
+  // Links elsewhere keep pointing at the old title, so say which notes just lost their target
+  const warnAboutBacklinks = (note: Note, action: string) => {
+    const backlinks = findBacklinks(notes, note.title, note.id);
+    if (backlinks.length === 0) return;
+    toast({
+      title: `${backlinks.length} note${backlinks.length === 1 ? '' : 's'} linked to "${note.title}"`,
+      description: `Since it was ${action}, links in ${backlinks.map(n => `"${n.title}"`).join(', ')} are broken.`,
+    });
+  };
+
   const fetchNotes = async () => {
     try {
       const { data, error } = await supabase
@@ -56,11 +136,16 @@ export function NotesSection() {
     }
   };
 
-  const filteredNotes = notes.filter(note =>
-    note.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (note.content?.toLowerCase() || '').includes(searchTerm.toLowerCase()) ||
-    note.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()))
-  );
+  // Best matches first once the search returns; plain substring matching until then
+  const filteredNotes = !searchTerm.trim()
+    ? notes
+    : rankedIds
+      ? rankedIds.map(id => notes.find(note => note.id === id)).filter(Boolean)
+      : notes.filter(note =>
+        note.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        (note.content?.toLowerCase() || '').includes(searchTerm.toLowerCase()) ||
+        note.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()))
+      );
 
   const createNote = async () => {
     if (newNote.title.trim() && newNote.content.trim()) {
@@ -116,6 +201,9 @@ export function NotesSection() {
         if (error) throw error;
 
         setNotes(notes.map(note => note.id === editingNote.id ? data : note));
+        if (data.title.toLowerCase() !== editingNote.title.toLowerCase()) {
+          warnAboutBacklinks(editingNote, 'renamed');
+        }
         setEditingNote(null);
         setNewNote({ title: "", content: "", tags: "" });
         toast({
@@ -144,10 +232,12 @@ export function NotesSection() {
       if (error) throw error;
 
       setNotes(notes.filter(note => note.id !== id));
+      if (viewingNoteId === id) setViewingNoteId(null);
       toast({
         title: "Note deleted",
         description: `"${note?.title}" has been deleted.`,
       });
+      if (note) warnAboutBacklinks(note, 'deleted');
     } catch (error) {
       console.error('Error deleting note:', error);
       toast({
@@ -158,6 +248,28 @@ export function NotesSection() {
     }
   };
 
+  // Ticking a checkbox in a note's preview saves straight away
+  const toggleNoteTask = async (note: Note, line: number) => {
+    const content = toggleTaskAt(note.content || "", line);
+    setNotes(notes.map(n => n.id === note.id ? { ...n, content } : n));
+    try {
+      const { error } = await supabase
+        .from('notes')
+        .update({ content })
+        .eq('id', note.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating note:', error);
+      setNotes(notes);
+      toast({
+        title: "Error",
+        description: "Failed to update note. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const startEditing = (note: Note) => {
     setEditingNote(note);
     setNewNote({
@@ -234,11 +346,11 @@ export function NotesSection() {
               value={newNote.title}
               onChange={(e) => setNewNote({ ...newNote, title: e.target.value })}
             />
-            <Textarea
-              placeholder="Write your note here..."
+            <MarkdownEditor
+              placeholder="Write your note here... (Markdown supported)"
               value={newNote.content}
-              onChange={(e) => setNewNote({ ...newNote, content: e.target.value })}
-              rows={6}
+              onChange={(content) => setNewNote({ ...newNote, content })}
+              wikiLinks={wikiLinks}
             />
             <Input
               placeholder="Tags (comma separated)..."
@@ -257,57 +369,122 @@ export function NotesSection() {
         </Card>
       )}
 
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {filteredNotes.map((note) => (
-          <Card key={note.id} className="p-4 hover:shadow-md transition-shadow">
-            <div className="space-y-3">
-              <div className="flex items-start justify-between">
-                <h3 className="font-semibold text-lg line-clamp-1">{note.title}</h3>
-                <div className="flex gap-1">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => startEditing(note)}
-                    className="h-8 w-8 p-0"
-                  >
-                    <Edit3 className="w-3 h-3" />
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => deleteNote(note.id)}
-                    className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
-                  >
-                    <Trash2 className="w-3 h-3" />
+      {viewingNote && (
+        <Card className="p-6 animate-fade-in">
+          <div className="flex items-start justify-between gap-4 mb-4">
+            <h3 className="text-xl font-semibold">{viewingNote.title}</h3>
+            <div className="flex gap-1">
+              <Button variant="ghost" size="sm" onClick={() => startEditing(viewingNote)} className="h-8 w-8 p-0">
+                <Edit3 className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={closeViewer} className="h-8 w-8 p-0">
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+          <MarkdownPreview
+            content={viewingNote.content || ""}
+            wikiLinks={wikiLinks}
+            onOpenLink={openLink}
+            onToggleTask={(line) => toggleNoteTask(viewingNote, line)}
+          />
+
+          {/* Backlinks */}
+          <div className="mt-6 pt-4 border-t">
+            <h4 className="text-sm font-medium flex items-center gap-2 mb-2">
+              <Link2 className="w-4 h-4" />
+              Linked from
+            </h4>
+            {backlinks.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {backlinks.map((note) => (
+                  <Button key={note.id} variant="outline" size="sm" onClick={() => setViewingNoteId(note.id)}>
+                    {note.title}
                   </Button>
-                </div>
+                ))}
               </div>
-
-              <p className="text-sm text-muted-foreground line-clamp-3">
-                {note.content}
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No notes link here yet. Link to it with [[{viewingNote.title}]].
               </p>
+            )}
+          </div>
+        </Card>
+      )}
 
-              {note.tags.length > 0 && (
-                <div className="flex flex-wrap gap-1">
-                  {note.tags.slice(0, 3).map((tag) => (
-                    <Badge key={tag} variant="secondary" className="text-xs">
-                      {tag}
-                    </Badge>
-                  ))}
-                  {note.tags.length > 3 && (
-                    <Badge variant="secondary" className="text-xs">
-                      +{note.tags.length - 3}
-                    </Badge>
-                  )}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {filteredNotes.map((note) => {
+          const brokenLinks = findBrokenLinks(note.content || "", wikiLinks);
+          return (
+            <Card key={note.id} className="p-4 hover:shadow-md transition-shadow">
+              <div className="space-y-3">
+                <div className="flex items-start justify-between">
+                  <button
+                    className="font-semibold text-lg line-clamp-1 text-left hover:text-primary"
+                    onClick={() => setViewingNoteId(note.id)}
+                  >
+                    {note.title}
+                  </button>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => startEditing(note)}
+                      className="h-8 w-8 p-0"
+                    >
+                      <Edit3 className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteNote(note.id)}
+                      className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
                 </div>
-              )}
 
-              <div className="text-xs text-muted-foreground">
-                {format(new Date(note.updated_at), "MMM d, yyyy 'at' h:mm a")}
+                <MarkdownPreview
+                  content={note.content || ""}
+                  onToggleTask={(line) => toggleNoteTask(note, line)}
+                  wikiLinks={wikiLinks}
+                  onOpenLink={openLink}
+                  className="max-h-48 overflow-hidden text-muted-foreground"
+                />
+
+                {brokenLinks.length > 0 && (
+                  <div
+                    className="flex items-center gap-1 text-xs text-destructive"
+                    title={brokenLinks.map(link => link.target).join(', ')}
+                  >
+                    <AlertTriangle className="w-3 h-3" />
+                    {brokenLinks.length} broken link{brokenLinks.length === 1 ? '' : 's'}
+                  </div>
+                )}
+
+                {note.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {note.tags.slice(0, 3).map((tag) => (
+                      <Badge key={tag} variant="secondary" className="text-xs">
+                        {tag}
+                      </Badge>
+                    ))}
+                    {note.tags.length > 3 && (
+                      <Badge variant="secondary" className="text-xs">
+                        +{note.tags.length - 3}
+                      </Badge>
+                    )}
+                  </div>
+                )}
+
+                <div className="text-xs text-muted-foreground">
+                  {format(new Date(note.updated_at), "MMM d, yyyy 'at' h:mm a")}
+                </div>
               </div>
-            </div>
-          </Card>
-        ))}
+            </Card>
+          );
+        })}
       </div>
 
       {filteredNotes.length === 0 && (
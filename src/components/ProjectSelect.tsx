@@ -0,0 +1,36 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Project, describeProject } from "@/lib/projects";
+
+interface ProjectSelectProps {
+  projects: Project[];
+  value: string | null;
+  onChange: (projectId: string | null) => void;
+  className?: string;
+}
+
+// Radix selects cannot hold an empty value, so "no project" gets its own sentinel
+const NO_PROJECT = "none";
+
+export function ProjectSelect({ projects, value, onChange, className }: ProjectSelectProps) {
+  return (
+    <Select
+      value={value || NO_PROJECT}
+      onValueChange={(selected) => onChange(selected === NO_PROJECT ? null : selected)}
+    >
+      <SelectTrigger className={className} aria-label="Project">
+        <SelectValue placeholder="Project" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_PROJECT}>No project</SelectItem>
+        {projects.map((project) => (
+          <SelectItem key={project.id} value={project.id}>
+            <span className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: project.color }} />
+              {describeProject(project)}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
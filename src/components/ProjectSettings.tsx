@@ -0,0 +1,330 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Briefcase, Edit3, Plus, Trash2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { Project, fetchProjects, formatAmount } from "@/lib/projects";
+
+interface ProjectForm {
+  name: string;
+  client: string;
+  color: string;
+  hourlyRate: string;
+  billable: boolean;
+}
+
+const EMPTY_FORM: ProjectForm = {
+  name: "",
+  client: "",
+  color: "#3b82f6",
+  hourlyRate: "",
+  billable: true,
+};
+
+const colorOptions = [
+  { name: "Gray", value: "#6b7280" },
+  { name: "Red", value: "#ef4444" },
+  { name: "Orange", value: "#f97316" },
+  { name: "Yellow", value: "#eab308" },
+  { name: "Green", value: "#10b981" },
+  { name: "Blue", value: "#3b82f6" },
+  { name: "Purple", value: "#8b5cf6" },
+  { name: "Pink", value: "#ec4899" },
+];
+
+// Projects (and the clients they belong to) that time entries can be booked on
+export function ProjectSettings() {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [form, setForm] = useState<ProjectForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchProjects()
+      .then(setProjects)
+      .catch((error) => {
+        console.error('Error fetching projects:', error);
+        toast({
+          title: "Error fetching projects",
+          description: error.message || "An unexpected error occurred",
+          variant: "destructive"
+        });
+      });
+  }, []);
+
+  const openDialog = (project: Project | null) => {
+    setEditingProject(project);
+    setForm(project
+      ? {
+          name: project.name,
+          client: project.client || "",
+          color: project.color,
+          hourlyRate: project.hourly_rate != null ? String(project.hourly_rate) : "",
+          billable: project.billable,
+        }
+      : EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const saveProject = async () => {
+    if (!form.name.trim()) {
+      toast({
+        title: "Invalid name",
+        description: "Project name cannot be empty",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const hourlyRate = form.hourlyRate.trim() ? Number(form.hourlyRate) : null;
+    if (hourlyRate != null && (isNaN(hourlyRate) || hourlyRate < 0)) {
+      toast({
+        title: "Invalid rate",
+        description: "Hourly rate must be a positive number",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const fields = {
+      name: form.name.trim(),
+      client: form.client.trim() || null,
+      color: form.color,
+      hourly_rate: hourlyRate,
+      billable: form.billable,
+    };
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast({
+          title: "Error",
+          description: "You must be logged in",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const { data, error } = editingProject
+        ? await supabase.from('projects').update(fields).eq('id', editingProject.id).select().single()
+        : await supabase.from('projects').insert({ ...fields, user_id: user.id }).select().single();
+
+      if (error) {
+        toast({
+          title: error.code === '23505' ? "Project already exists" : "Error saving project",
+          description: error.code === '23505' ? "You already have a project with this name" : error.message,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setProjects(editingProject
+        ? projects.map(p => p.id === data.id ? data : p)
+        : [...projects, data].sort((a, b) => a.name.localeCompare(b.name)));
+      setDialogOpen(false);
+      toast({
+        title: editingProject ? "Project updated" : "Project added",
+        description: `"${data.name}" has been saved`,
+      });
+    } catch (error) {
+      console.error('Error saving project:', error);
+      toast({
+        title: "Error saving project",
+        description: "An unexpected error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteProject = async (project: Project) => {
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .delete()
+        .eq('id', project.id);
+
+      if (error) {
+        toast({
+          title: "Error deleting project",
+          description: error.message,
+          variant: "destructive"
+        });
+      } else {
+        setProjects(projects.filter(p => p.id !== project.id));
+        toast({
+          title: "Project deleted",
+          description: `"${project.name}" has been removed; its time entries are kept`,
+        });
+      }
+    } catch (error) {
+      console.error('Error deleting project:', error);
+      toast({
+        title: "Error deleting project",
+        description: "An unexpected error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Briefcase className="w-5 h-5" />
+          Projects & Clients
+        </CardTitle>
+        <CardDescription>
+          Book time entries on projects and track billable amounts
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium">Your Projects</h3>
+          <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Project
+          </Button>
+        </div>
+
+        {projects.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Briefcase className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No projects yet. Add one to start booking time on it.</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {projects.map((project) => (
+              <div
+                key={project.id}
+                className="flex items-center justify-between p-3 border rounded-lg hover:bg-accent/50 bg-background"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className="w-4 h-4 rounded-full flex-shrink-0" style={{ backgroundColor: project.color }} />
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{project.name}</p>
+                    {project.client && (
+                      <p className="text-sm text-muted-foreground truncate">{project.client}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {project.billable ? (
+                    <Badge variant="outline">
+                      {project.hourly_rate != null ? `${formatAmount(Number(project.hourly_rate))}/h` : "Billable, no rate"}
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary">Non-billable</Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => openDialog(project)}
+                    className="h-8 w-8 p-0"
+                  >
+                    <Edit3 className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteProject(project)}
+                    className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingProject ? "Edit Project" : "Add New Project"}</DialogTitle>
+            <DialogDescription>
+              Time booked on billable projects is valued at the hourly rate.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="project-name">Project Name</Label>
+              <Input
+                id="project-name"
+                placeholder="e.g., Website relaunch"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="project-client">Client</Label>
+              <Input
+                id="project-client"
+                placeholder="Optional"
+                value={form.client}
+                onChange={(e) => setForm({ ...form, client: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <div>
+                <Label htmlFor="project-rate">Hourly Rate</Label>
+                <Input
+                  id="project-rate"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="e.g., 85"
+                  value={form.hourlyRate}
+                  onChange={(e) => setForm({ ...form, hourlyRate: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="project-billable"
+                  checked={form.billable}
+                  onCheckedChange={(checked) => setForm({ ...form, billable: checked })}
+                />
+                <Label htmlFor="project-billable">Billable</Label>
+              </div>
+            </div>
+            <div>
+              <Label>Color</Label>
+              <div className="flex gap-2 flex-wrap mt-2">
+                {colorOptions.map((color) => (
+                  <button
+                    key={color.value}
+                    onClick={() => setForm({ ...form, color: color.value })}
+                    className={`w-8 h-8 rounded-full border-2 ${
+                      form.color === color.value ? 'border-gray-800 scale-110' : 'border-gray-300'
+                    }`}
+                    style={{ backgroundColor: color.value }}
+                    title={color.name}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveProject}>{editingProject ? "Save Project" : "Add Project"}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,185 @@
+import { format, getDate, getDay, parseISO, endOfDay } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Frequency, RRule, WEEKDAYS, Weekday, describeByDay, describeRRule, formatRRule, parseRRule } from "@/lib/rrule";
+
+interface RecurrenceFieldsProps {
+  value: string | null;
+  onChange: (value: string | null) => void;
+  start: Date;
+  allDay: boolean;
+}
+
+type EndMode = 'never' | 'count' | 'until';
+type MonthlyMode = 'day' | 'weekday';
+
+// Monday-first, like the rule's week start
+const WEEKDAY_BUTTONS: { weekday: Weekday; label: string }[] = [
+  { weekday: 'MO', label: "M" },
+  { weekday: 'TU', label: "T" },
+  { weekday: 'WE', label: "W" },
+  { weekday: 'TH', label: "T" },
+  { weekday: 'FR', label: "F" },
+  { weekday: 'SA', label: "S" },
+  { weekday: 'SU', label: "S" },
+];
+
+const FREQUENCY_LABELS: Record<Frequency, string> = {
+  DAILY: "day(s)",
+  WEEKLY: "week(s)",
+  MONTHLY: "month(s)",
+  YEARLY: "year(s)",
+};
+
+// "Second Tuesday" style position of the start date in its month; a fifth weekday is always the last
+const weekdayOrdinal = (date: Date) => {
+  const ordinal = Math.ceil(getDate(date) / 7);
+  return ordinal > 4 ? -1 : ordinal;
+};
+
+export function RecurrenceFields({ value, onChange, start, allDay }: RecurrenceFieldsProps) {
+  const rule = parseRRule(value);
+  const startWeekday = WEEKDAYS[getDay(start)];
+
+  const update = (next: RRule | null) => onChange(next ? formatRRule(next, allDay) : null);
+
+  const changeFrequency = (freq: string) => {
+    if (!freq) return update(null);
+    const next: RRule = { freq: freq as Frequency, interval: rule?.interval || 1, count: rule?.count, until: rule?.until };
+    if (freq === 'WEEKLY') next.byDay = [{ weekday: startWeekday }];
+    if (freq === 'MONTHLY') next.byMonthDay = [getDate(start)];
+    update(next);
+  };
+
+  const toggleWeekday = (weekday: Weekday) => {
+    const current = rule.byDay?.map(day => day.weekday) || [startWeekday];
+    const selected = current.includes(weekday) ? current.filter(day => day !== weekday) : [...current, weekday];
+    // A weekly rule needs at least one day
+    if (selected.length === 0) return;
+    update({ ...rule, byDay: selected.map(day => ({ weekday: day })) });
+  };
+
+  const changeMonthlyMode = (mode: MonthlyMode) => {
+    update(mode === 'day'
+      ? { ...rule, byDay: undefined, byMonthDay: [getDate(start)] }
+      : { ...rule, byMonthDay: undefined, byDay: [{ weekday: startWeekday, ordinal: weekdayOrdinal(start) }] });
+  };
+
+  const changeEndMode = (mode: EndMode) => {
+    update({
+      ...rule,
+      count: mode === 'count' ? rule.count || 10 : undefined,
+      until: mode === 'until' ? rule.until || endOfDay(start) : undefined,
+    });
+  };
+
+  const endMode: EndMode = rule?.count ? 'count' : rule?.until ? 'until' : 'never';
+  const monthlyMode: MonthlyMode = rule?.byDay?.length ? 'weekday' : 'day';
+
+  return (
+    <div className="grid gap-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="grid gap-2">
+          <Label htmlFor="event-repeat">Repeat</Label>
+          <select
+            id="event-repeat"
+            value={rule?.freq || ""}
+            onChange={(e) => changeFrequency(e.target.value)}
+            className="px-3 py-2 border rounded-md bg-background text-sm"
+          >
+            <option value="">Does not repeat</option>
+            <option value="DAILY">Daily</option>
+            <option value="WEEKLY">Weekly</option>
+            <option value="MONTHLY">Monthly</option>
+            <option value="YEARLY">Yearly</option>
+          </select>
+        </div>
+        {rule && (
+          <div className="grid gap-2">
+            <Label htmlFor="event-repeat-interval">Every</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="event-repeat-interval"
+                type="number"
+                min={1}
+                value={rule.interval}
+                onChange={(e) => update({ ...rule, interval: Math.max(parseInt(e.target.value) || 1, 1) })}
+                className="w-20"
+              />
+              <span className="text-sm text-muted-foreground">{FREQUENCY_LABELS[rule.freq]}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {rule?.freq === 'WEEKLY' && (
+        <div className="flex gap-1">
+          {WEEKDAY_BUTTONS.map(({ weekday, label }) => {
+            const selected = (rule.byDay?.map(day => day.weekday) || [startWeekday]).includes(weekday);
+            return (
+              <Button
+                key={weekday}
+                type="button"
+                size="sm"
+                variant={selected ? "default" : "outline"}
+                className="h-8 w-8 p-0"
+                onClick={() => toggleWeekday(weekday)}
+              >
+                {label}
+              </Button>
+            );
+          })}
+        </div>
+      )}
+
+      {rule?.freq === 'MONTHLY' && (
+        <select
+          value={monthlyMode}
+          onChange={(e) => changeMonthlyMode(e.target.value as MonthlyMode)}
+          className="px-3 py-2 border rounded-md bg-background text-sm"
+        >
+          <option value="day">On day {getDate(start)}</option>
+          <option value="weekday">
+            On {describeByDay({ weekday: startWeekday, ordinal: weekdayOrdinal(start) })}
+          </option>
+        </select>
+      )}
+
+      {rule && (
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={endMode}
+            onChange={(e) => changeEndMode(e.target.value as EndMode)}
+            className="px-3 py-2 border rounded-md bg-background text-sm"
+          >
+            <option value="never">Never ends</option>
+            <option value="count">Ends after</option>
+            <option value="until">Ends on</option>
+          </select>
+          {endMode === 'count' && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                value={rule.count}
+                onChange={(e) => update({ ...rule, count: Math.max(parseInt(e.target.value) || 1, 1) })}
+                className="w-20"
+              />
+              <span className="text-sm text-muted-foreground">times</span>
+            </div>
+          )}
+          {endMode === 'until' && (
+            <Input
+              type="date"
+              value={format(rule.until, 'yyyy-MM-dd')}
+              onChange={(e) => e.target.value && update({ ...rule, until: endOfDay(parseISO(e.target.value)) })}
+            />
+          )}
+        </div>
+      )}
+
+      {rule && <p className="text-xs text-muted-foreground">{describeRRule(rule)}</p>}
+    </div>
+  );
+}
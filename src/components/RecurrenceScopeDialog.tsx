@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { RecurrenceScope } from "@/lib/eventSeries";
+
+interface RecurrenceScopeDialogProps {
+  isOpen: boolean;
+  action: 'edit' | 'delete';
+  onClose: () => void;
+  onSelect: (scope: RecurrenceScope) => void;
+}
+
+const SCOPE_LABELS: Record<RecurrenceScope, string> = {
+  this: "This event",
+  following: "This and following events",
+  all: "All events",
+};
+
+export function RecurrenceScopeDialog({ isOpen, action, onClose, onSelect }: RecurrenceScopeDialogProps) {
+  const [scope, setScope] = useState<RecurrenceScope>('this');
+
+  useEffect(() => {
+    if (isOpen) setScope('this');
+  }, [isOpen]);
+
+  const handleConfirm = () => {
+    onSelect(scope);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[360px]">
+        <DialogHeader>
+          <DialogTitle>{action === 'edit' ? "Edit recurring event" : "Delete recurring event"}</DialogTitle>
+        </DialogHeader>
+        <RadioGroup value={scope} onValueChange={(value) => setScope(value as RecurrenceScope)} className="py-4">
+          {(Object.keys(SCOPE_LABELS) as RecurrenceScope[]).map((option) => (
+            <div key={option} className="flex items-center gap-2">
+              <RadioGroupItem id={`scope-${option}`} value={option} />
+              <Label htmlFor={`scope-${option}`}>{SCOPE_LABELS[option]}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant={action === 'delete' ? "destructive" : "default"}
+            onClick={handleConfirm}
+          >
+            {action === 'edit' ? "Save" : "Delete"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
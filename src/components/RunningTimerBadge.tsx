@@ -0,0 +1,42 @@
+import { Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { useRunningTimer } from "@/hooks/use-running-timer";
+import { formatElapsed } from "@/lib/timer";
+
+// Header readout of the running timer; renders nothing while no timer runs
+export function RunningTimerBadge() {
+  const { timer, elapsed, stop } = useRunningTimer();
+
+  if (!timer) return null;
+
+  const handleStop = async () => {
+    try {
+      const stopped = await stop();
+      if (stopped) {
+        toast({
+          title: "Time tracking stopped",
+          description: `${stopped.activity} - ${stopped.duration}m`,
+        });
+      }
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+      toast({
+        title: "Error stopping timer",
+        description: "An unexpected error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="hidden sm:flex items-center gap-2 px-3 py-1 font-mono text-sm terminal-border rounded-md">
+      <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+      <span className="max-w-[160px] truncate" title={timer.activity}>{timer.activity}</span>
+      <span className="neon-glow tabular-nums">{formatElapsed(elapsed)}</span>
+      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={handleStop} title="Stop timer">
+        <Square className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+}
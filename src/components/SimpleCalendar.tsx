@@ -3,31 +3,103 @@ import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, Plus } from "lucide-react";
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isToday, isSameDay } from "date-fns";
+import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, Plus, CheckSquare, Repeat, Upload, Download } from "lucide-react";
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isToday, addDays, addMonths, addWeeks, addYears, startOfWeek, endOfWeek, startOfDay, endOfDay } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { getDueGroup } from "@/lib/dueDates";
+import { collectEventTypes, getEventTypeColor } from "@/lib/eventTypes";
+import { EventDialog, EventFormValues } from "@/components/EventDialog";
+import { CalendarTimeGrid } from "@/components/CalendarTimeGrid";
+import { RecurrenceScopeDialog } from "@/components/RecurrenceScopeDialog";
+import { IcsImportDialog } from "@/components/IcsImportDialog";
+import { ImportPlan, downloadIcs, exportCalendar, pickIcsFile, planImport } from "@/lib/ical";
+import { EventFields, eventOccursOn, formatEventTime, getEventEnd, getEventStart, isTimed } from "@/lib/calendarEvents";
+import { describeRRule, expandEvents, occurrenceKey, parseRRule } from "@/lib/rrule";
+import { RecurrenceScope, deleteOccurrences, updateOccurrences } from "@/lib/eventSeries";
 
 interface CalendarEvent {
   id: string;
   title: string;
   date: string;
-  type: "meeting" | "deadline" | "reminder";
+  end_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  all_day: boolean;
+  type: string;
+  description: string | null;
+  rrule: string | null;
+  exdates: string[];
+  recurrence_id: string | null;
+  original_date: string | null;
   created_at: string;
   updated_at: string;
   user_id: string;
+  // Set on the expanded instances of a recurring event
+  occurrence_date?: string;
 }
 
+interface DueTodo {
+  id: string;
+  text: string;
+  completed: boolean;
+  due_date: string;
+  due_time: string | null;
+}
+
+type CalendarView = 'month' | 'week' | 'day';
+
+// An edit or delete of one occurrence, waiting for the user to pick which events it applies to
+type PendingChange =
+  | { action: 'edit'; occurrence: CalendarEvent; values: EventFormValues }
+  | { action: 'delete'; occurrence: CalendarEvent };
+
+const VIEW_LABELS: Record<CalendarView, string> = {
+  month: "Month",
+  week: "Week",
+  day: "Day",
+};
+
 export function SimpleCalendar() {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [dueTodos, setDueTodos] = useState<DueTodo[]>([]);
   const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<CalendarEvent | null>(null);
+  const [newEventStart, setNewEventStart] = useState(new Date());
+  const [newEventAllDay, setNewEventAllDay] = useState(true);
+  const [pendingChange, setPendingChange] = useState<PendingChange | null>(null);
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  const [importFileName, setImportFileName] = useState("");
+  const [view, setView] = useState<CalendarView>(
+    () => (localStorage.getItem('calendarView') as CalendarView) || 'month'
+  );
 
   // Fetch events from database
   useEffect(() => {
     fetchEvents();
+    fetchDueTodos();
   }, []);
 
+  useEffect(() => {
+    localStorage.setItem('calendarView', view);
+  }, [view]);
+
+  const fetchDueTodos = async () => {
+    const { data, error } = await supabase
+      .from('todos')
+      .select('id, text, completed, due_date, due_time')
+      .not('due_date', 'is', null)
+      .order('due_date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching due todos:', error);
+    } else {
+      setDueTodos((data || []) as DueTodo[]);
+    }
+  };
+
   const fetchEvents = async () => {
     try {
       const { data, error } = await supabase
@@ -60,25 +132,266 @@ export function SimpleCalendar() {
   const monthEnd = endOfMonth(currentDate);
   const daysInMonth = eachDayOfInterval({ start: monthStart, end: monthEnd });
 
-  const previousMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1));
+  const visibleDays = view === 'week'
+    ? eachDayOfInterval({ start: startOfWeek(currentDate), end: endOfWeek(currentDate) })
+    : [currentDate];
+
+  // Recurring events are expanded into their occurrences for whatever is on screen
+  const shownDays = view === 'month' ? daysInMonth : visibleDays;
+  const shownEvents = expandEvents(events, startOfDay(shownDays[0]), endOfDay(shownDays[shownDays.length - 1]));
+  const upcomingEvents = expandEvents(events, new Date(), addYears(new Date(), 1));
+
+  const step = (direction: number) => {
+    if (view === 'month') {
+      setCurrentDate(addMonths(currentDate, direction));
+    } else if (view === 'week') {
+      setCurrentDate(addWeeks(currentDate, direction));
+    } else {
+      setCurrentDate(addDays(currentDate, direction));
+    }
+  };
+
+  const viewTitle = view === 'month'
+    ? format(currentDate, "MMMM yyyy")
+    : view === 'week'
+      ? `${format(visibleDays[0], "MMM d")} – ${format(visibleDays[visibleDays.length - 1], "MMM d, yyyy")}`
+      : format(currentDate, "EEEE, MMMM d, yyyy");
+
+  // Multi-day events show on every day they cover; timed ones sort by start time
+  const getEventsForDate = (date: Date) =>
+    shownEvents
+      .filter(event => eventOccursOn(event, date))
+      .sort((a, b) => Number(isTimed(a)) - Number(isTimed(b)) || getEventStart(a).getTime() - getEventStart(b).getTime());
+
+  const getTodosForDate = (date: Date) => {
+    const dateStr = format(date, 'yyyy-MM-dd');
+    return dueTodos.filter(todo => todo.due_date === dateStr);
+  };
+
+  const openNewEvent = (start: Date, allDay = true) => {
+    setEditingEvent(null);
+    setNewEventStart(start);
+    setNewEventAllDay(allDay);
+    setDialogOpen(true);
+  };
+
+  const openEditEvent = (event: CalendarEvent) => {
+    setEditingEvent(event);
+    setDialogOpen(true);
+  };
+
+  const saveEvent = async (values: EventFormValues) => {
+    if (editingEvent?.occurrence_date) {
+      setPendingChange({ action: 'edit', occurrence: editingEvent, values });
+      return;
+    }
+
+    try {
+      if (editingEvent) {
+        const { data, error } = await supabase
+          .from('calendar_events')
+          .update(values)
+          .eq('id', editingEvent.id)
+          .select()
+          .single();
+
+        if (error) {
+          toast({
+            title: "Error updating event",
+            description: error.message,
+            variant: "destructive"
+          });
+        } else {
+          setEvents(events.map(event => event.id === data.id ? data as CalendarEvent : event));
+          toast({
+            title: "Event updated",
+            description: `"${data.title}" has been updated.`,
+          });
+        }
+        return;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast({
+          title: "Error",
+          description: "You must be logged in to add events",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('calendar_events')
+        .insert({ ...values, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) {
+        toast({
+          title: "Error adding event",
+          description: error.message,
+          variant: "destructive"
+        });
+      } else {
+        setEvents([...events, data as CalendarEvent]);
+        toast({
+          title: "Event added",
+          description: `"${data.title}" has been added to your calendar.`,
+        });
+      }
+    } catch (error) {
+      console.error('Error saving event:', error);
+      toast({
+        title: "Error saving event",
+        description: "An unexpected error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Saves a drag-to-move or resize from the week/day grid, rolling back if it fails
+  const rescheduleEvent = async (event: CalendarEvent, fields: EventFields) => {
+    if (event.occurrence_date) {
+      const { title, type, description, rrule } = event;
+      setPendingChange({ action: 'edit', occurrence: event, values: { title, type, description, rrule, ...fields } });
+      return;
+    }
+
+    setEvents(prev => prev.map(e => e.id === event.id ? { ...e, ...fields } : e));
+
+    try {
+      const { error } = await supabase
+        .from('calendar_events')
+        .update(fields)
+        .eq('id', event.id);
+
+      if (error) throw error;
+      toast({
+        title: "Event rescheduled",
+        description: `"${event.title}" ${formatEventTime(fields)} on ${format(getEventStart(fields), "MMM d")}.`,
+      });
+    } catch (error) {
+      console.error('Error rescheduling event:', error);
+      setEvents(prev => prev.map(e => e.id === event.id ? event : e));
+      toast({
+        title: "Error rescheduling event",
+        description: "Failed to save the new time",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteEvent = async (id: string) => {
+    if (editingEvent?.occurrence_date) {
+      setPendingChange({ action: 'delete', occurrence: editingEvent });
+      return;
+    }
+
+    const event = events.find(e => e.id === id);
+
+    try {
+      const { error } = await supabase
+        .from('calendar_events')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        toast({
+          title: "Error deleting event",
+          description: error.message,
+          variant: "destructive"
+        });
+      } else {
+        setEvents(events.filter(e => e.id !== id));
+        toast({
+          title: "Event deleted",
+          description: `"${event?.title}" has been removed.`,
+        });
+      }
+    } catch (error) {
+      console.error('Error deleting event:', error);
+      toast({
+        title: "Error deleting event",
+        description: "An unexpected error occurred",
+        variant: "destructive"
+      });
+    }
   };
 
-  const nextMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1));
+  const handleExport = async () => {
+    try {
+      const { ics, events: eventCount, todos: todoCount } = await exportCalendar();
+      const filename = downloadIcs(ics);
+      toast({
+        title: "Calendar exported",
+        description: `${eventCount} events and ${todoCount} dated todos saved to ${filename}.`,
+      });
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+      toast({
+        title: "Error exporting calendar",
+        description: "An unexpected error occurred",
+        variant: "destructive"
+      });
+    }
   };
 
-  const getEventsForDate = (date: Date) => {
-    const dateStr = date.toISOString().split('T')[0];
-    return events.filter(event => event.date === dateStr);
+  const handleImport = async () => {
+    const file = await pickIcsFile();
+    if (!file) return;
+
+    try {
+      const plan = await planImport(file.text);
+      if (plan.items.length === 0) {
+        toast({
+          title: "Nothing to import",
+          description: `No events or todos found in ${file.name}.`,
+          variant: "destructive"
+        });
+        return;
+      }
+      setImportFileName(file.name);
+      setImportPlan(plan);
+    } catch (error) {
+      console.error('Error reading calendar file:', error);
+      toast({
+        title: "Error reading calendar file",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    }
   };
 
-  const getEventTypeColor = (type: string) => {
-    switch (type) {
-      case "meeting": return "bg-blue-100 text-blue-800 border-blue-200";
-      case "deadline": return "bg-red-100 text-red-800 border-red-200";
-      case "reminder": return "bg-green-100 text-green-800 border-green-200";
-      default: return "bg-gray-100 text-gray-800 border-gray-200";
+  // Applies a pending change to one occurrence, the rest of the series, or all of it
+  const applyToSeries = async (scope: RecurrenceScope) => {
+    const change = pendingChange;
+    const series = events.find(e => e.id === change?.occurrence.id);
+    if (!change || !series) return;
+
+    try {
+      if (change.action === 'delete') {
+        await deleteOccurrences(series, change.occurrence, scope);
+        toast({
+          title: "Event deleted",
+          description: `"${series.title}" has been removed.`,
+        });
+      } else {
+        await updateOccurrences(series, change.occurrence, scope, change.values);
+        toast({
+          title: "Event updated",
+          description: `"${change.values.title}" has been updated.`,
+        });
+      }
+    } catch (error) {
+      console.error('Error updating recurring event:', error);
+      toast({
+        title: "Error updating recurring event",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      fetchEvents();
     }
   };
 
@@ -89,72 +402,135 @@ export function SimpleCalendar() {
           <h2 className="text-2xl font-bold text-foreground">Calendar</h2>
           <p className="text-muted-foreground">Track your meetings and events</p>
         </div>
-        <Button className="flex items-center gap-2">
-          <Plus className="w-4 h-4" />
-          Add Event
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex items-center gap-2" onClick={handleImport}>
+            <Upload className="w-4 h-4" />
+            Import
+          </Button>
+          <Button variant="outline" className="flex items-center gap-2" onClick={handleExport}>
+            <Download className="w-4 h-4" />
+            Export
+          </Button>
+          <Button className="flex items-center gap-2" onClick={() => openNewEvent(new Date())}>
+            <Plus className="w-4 h-4" />
+            Add Event
+          </Button>
+        </div>
       </div>
 
       <Card className="p-6">
         <div className="flex items-center justify-between mb-6">
           <h3 className="text-xl font-semibold">
-            {format(currentDate, "MMMM yyyy")}
+            {viewTitle}
           </h3>
           <div className="flex gap-2">
-            <Button variant="outline" size="sm" onClick={previousMonth}>
+            {(Object.keys(VIEW_LABELS) as CalendarView[]).map((option) => (
+              <Button
+                key={option}
+                variant={view === option ? "default" : "outline"}
+                size="sm"
+                onClick={() => setView(option)}
+              >
+                {VIEW_LABELS[option]}
+              </Button>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setCurrentDate(new Date())}>
+              Today
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => step(-1)}>
               <ChevronLeft className="w-4 h-4" />
             </Button>
-            <Button variant="outline" size="sm" onClick={nextMonth}>
+            <Button variant="outline" size="sm" onClick={() => step(1)}>
               <ChevronRight className="w-4 h-4" />
             </Button>
           </div>
         </div>
 
-        <div className="grid grid-cols-7 gap-2 mb-4">
-          {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map((day) => (
-            <div key={day} className="p-2 text-center text-sm font-medium text-muted-foreground">
-              {day}
+        {view !== 'month' ? (
+          <CalendarTimeGrid
+            days={visibleDays}
+            events={shownEvents}
+            dueTodos={dueTodos}
+            onEventClick={openEditEvent}
+            onSlotClick={openNewEvent}
+            onEventChange={rescheduleEvent}
+          />
+        ) : (
+          <>
+            <div className="grid grid-cols-7 gap-2 mb-4">
+              {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map((day) => (
+                <div key={day} className="p-2 text-center text-sm font-medium text-muted-foreground">
+                  {day}
+                </div>
+              ))}
             </div>
-          ))}
-        </div>
 
-        <div className="grid grid-cols-7 gap-2">
-          {daysInMonth.map((day) => {
-            const dayEvents = getEventsForDate(day);
-            const isCurrentMonth = isSameMonth(day, currentDate);
-            const isTodayDate = isToday(day);
+            <div className="grid grid-cols-7 gap-2">
+              {daysInMonth.map((day) => {
+                const dayEvents = getEventsForDate(day);
+                const dayTodos = getTodosForDate(day);
+                const isCurrentMonth = isSameMonth(day, currentDate);
+                const isTodayDate = isToday(day);
 
-            return (
-              <div
-                key={day.toString()}
-                className={`min-h-[80px] p-2 border rounded-lg transition-colors hover:bg-accent ${
-                  isCurrentMonth ? "bg-background" : "bg-muted/30"
-                } ${isTodayDate ? "ring-2 ring-primary" : ""}`}
-              >
-                <div className={`text-sm font-medium mb-1 ${
-                  isCurrentMonth ? "text-foreground" : "text-muted-foreground"
-                } ${isTodayDate ? "text-primary font-bold" : ""}`}>
-                  {format(day, "d")}
-                </div>
-                <div className="space-y-1">
-                  {dayEvents.slice(0, 2).map((event) => (
-                    <Badge
-                      key={event.id}
-                      className={`text-xs px-1 py-0 h-auto ${getEventTypeColor(event.type)}`}
-                    >
-                      {event.title.length > 8 ? `${event.title.slice(0, 8)}...` : event.title}
-                    </Badge>
-                  ))}
-                  {dayEvents.length > 2 && (
-                    <div className="text-xs text-muted-foreground">
-                      +{dayEvents.length - 2} more
+                return (
+                  <div
+                    key={day.toString()}
+                    onClick={() => openNewEvent(day)}
+                    title="Click to add an event"
+                    className={`min-h-[80px] p-2 border rounded-lg transition-colors hover:bg-accent cursor-pointer ${
+                      isCurrentMonth ? "bg-background" : "bg-muted/30"
+                    } ${isTodayDate ? "ring-2 ring-primary" : ""}`}
+                  >
+                    <div className={`text-sm font-medium mb-1 ${
+                      isCurrentMonth ? "text-foreground" : "text-muted-foreground"
+                    } ${isTodayDate ? "text-primary font-bold" : ""}`}>
+                      {format(day, "d")}
                     </div>
-                  )}
-                </div>
-              </div>
-            );
-          })}
-        </div>
+                    <div className="space-y-1">
+                      {dayEvents.slice(0, 2).map((event) => (
+                        <Badge
+                          key={occurrenceKey(event)}
+                          title={event.description || event.title}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openEditEvent(event);
+                          }}
+                          className={`text-xs px-1 py-0 h-auto cursor-pointer ${getEventTypeColor(event.type)}`}
+                        >
+                          {isTimed(event) && `${format(getEventStart(event), "HH:mm")} `}
+                          {event.title.length > 8 ? `${event.title.slice(0, 8)}...` : event.title}
+                        </Badge>
+                      ))}
+                      {dayEvents.length > 2 && (
+                        <div className="text-xs text-muted-foreground">
+                          +{dayEvents.length - 2} more
+                        </div>
+                      )}
+                      {dayTodos.slice(0, 2).map((todo) => (
+                        <Badge
+                          key={todo.id}
+                          variant="outline"
+                          title={todo.due_time ? `${todo.text} (${todo.due_time.slice(0, 5)})` : todo.text}
+                          className={`text-xs px-1 py-0 h-auto ${
+                            todo.completed ? "line-through opacity-60" : getDueGroup(todo) === 'overdue' ? "border-red-400 text-red-700" : ""
+                          }`}
+                        >
+                          <CheckSquare className="w-3 h-3 mr-1" />
+                          {todo.text.length > 8 ? `${todo.text.slice(0, 8)}...` : todo.text}
+                        </Badge>
+                      ))}
+                      {dayTodos.length > 2 && (
+                        <div className="text-xs text-muted-foreground">
+                          +{dayTodos.length - 2} more tasks
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
       </Card>
 
       <Card className="p-6">
@@ -163,17 +539,30 @@ export function SimpleCalendar() {
           Upcoming Events
         </h3>
         <div className="space-y-3">
-          {events
-            .filter(event => new Date(event.date) >= new Date())
-            .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+          {upcomingEvents
+            .filter(event => getEventEnd(event) >= new Date())
+            .sort((a, b) => getEventStart(a).getTime() - getEventStart(b).getTime())
             .slice(0, 5)
             .map((event) => (
-              <div key={event.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div
+                key={occurrenceKey(event)}
+                onClick={() => openEditEvent(event)}
+                className="flex items-center justify-between p-3 border rounded-lg cursor-pointer hover:bg-accent"
+              >
                 <div>
                   <h4 className="font-medium">{event.title}</h4>
                   <p className="text-sm text-muted-foreground">
-                    {format(new Date(event.date), "MMM d, yyyy")}
+                    {format(getEventStart(event), "MMM d, yyyy")} · {formatEventTime(event)}
                   </p>
+                  {parseRRule(event.rrule) && (
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <Repeat className="w-3 h-3" />
+                      {describeRRule(parseRRule(event.rrule))}
+                    </p>
+                  )}
+                  {event.description && (
+                    <p className="text-sm text-muted-foreground mt-1">{event.description}</p>
+                  )}
                 </div>
                 <Badge className={getEventTypeColor(event.type)}>
                   {event.type}
@@ -182,6 +571,35 @@ export function SimpleCalendar() {
             ))}
         </div>
       </Card>
+
+      <EventDialog
+        isOpen={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        onSave={saveEvent}
+        onDelete={deleteEvent}
+        event={editingEvent}
+        defaultStart={newEventStart}
+        defaultAllDay={newEventAllDay}
+        eventTypes={collectEventTypes(events)}
+      />
+
+      <RecurrenceScopeDialog
+        isOpen={!!pendingChange}
+        action={pendingChange?.action || 'edit'}
+        onClose={() => setPendingChange(null)}
+        onSelect={applyToSeries}
+      />
+
+      <IcsImportDialog
+        isOpen={!!importPlan}
+        onClose={() => setImportPlan(null)}
+        onImported={() => {
+          fetchEvents();
+          fetchDueTodos();
+        }}
+        fileName={importFileName}
+        plan={importPlan}
+      />
     </div>
   );
 }
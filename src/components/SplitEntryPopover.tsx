@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Scissors } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { TimeEntryTiming, atTime, formatEntryRange, getEntryEnd, getEntryStart } from "@/lib/timeEntries";
+
+interface SplitEntryPopoverProps {
+  entry: TimeEntryTiming;
+  onSplit: (entry: TimeEntryTiming, at: Date) => void;
+}
+
+export function SplitEntryPopover({ entry, onSplit }: SplitEntryPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [time, setTime] = useState("");
+
+  const start = getEntryStart(entry);
+  const end = getEntryEnd(entry);
+  const at = time ? atTime(start, time) : null;
+  const valid = at && at > start && at < end;
+
+  const handleOpenChange = (next: boolean) => {
+    // Suggest the middle of the entry
+    if (next) setTime(format(new Date((start.getTime() + end.getTime()) / 2), 'HH:mm'));
+    setOpen(next);
+  };
+
+  const handleSplit = () => {
+    if (!valid) return;
+    onSplit(entry, at);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" title="Split entry" className="text-muted-foreground hover:text-foreground">
+          <Scissors className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64" align="end">
+        <div className="grid gap-3">
+          <div className="grid gap-2">
+            <Label htmlFor={`split-${entry.id}`}>Split {formatEntryRange(entry)} at</Label>
+            <Input
+              id={`split-${entry.id}`}
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+            />
+          </div>
+          {!valid && time && (
+            <p className="text-xs text-destructive">Pick a time inside the entry.</p>
+          )}
+          <Button size="sm" onClick={handleSplit} disabled={!valid}>
+            Split
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
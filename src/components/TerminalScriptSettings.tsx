@@ -0,0 +1,290 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Edit3, Plus, TerminalSquare, Trash2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  EMPTY_SCRIPTS,
+  SCRIPTS_CHANGED_EVENT,
+  ScriptKind,
+  TerminalScripts,
+  deleteScript,
+  fetchScripts,
+  saveScript,
+  saveStartupScript,
+} from "@/lib/terminal/scripts";
+
+interface ScriptForm {
+  kind: ScriptKind;
+  name: string;
+  body: string;
+}
+
+const KIND_LABELS: Record<ScriptKind, string> = {
+  alias: "Alias",
+  macro: "Macro",
+};
+
+// Aliases, macros and the startup script of the terminal; the same rows the alias,
+// macro.* and startup commands edit
+export function TerminalScriptSettings() {
+  const [scripts, setScripts] = useState<TerminalScripts>(EMPTY_SCRIPTS);
+  const [startup, setStartup] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [form, setForm] = useState<ScriptForm>({ kind: 'alias', name: "", body: "" });
+
+  useEffect(() => {
+    const loadScripts = () => {
+      fetchScripts()
+        .then((loaded) => {
+          setScripts(loaded);
+          setStartup(loaded.startup);
+        })
+        .catch((error) => {
+          console.error('Error fetching terminal scripts:', error);
+          toast({
+            title: "Error loading terminal scripts",
+            description: error.message,
+            variant: "destructive"
+          });
+        });
+    };
+
+    loadScripts();
+    // Also picks up changes made from the terminal
+    window.addEventListener(SCRIPTS_CHANGED_EVENT, loadScripts);
+    return () => window.removeEventListener(SCRIPTS_CHANGED_EVENT, loadScripts);
+  }, []);
+
+  const openDialog = (kind: ScriptKind, name: string | null) => {
+    const collection = kind === 'alias' ? scripts.aliases : scripts.macros;
+    setEditingName(name);
+    setForm({ kind, name: name || "", body: name ? collection[name] : "" });
+    setDialogOpen(true);
+  };
+
+  const saveForm = async () => {
+    const label = KIND_LABELS[form.kind];
+    try {
+      await saveScript(form.kind, form.name.trim(), form.body);
+      // Renaming saves under the new name and drops the old one
+      if (editingName && editingName !== form.name.trim()) {
+        await deleteScript(form.kind, editingName);
+      }
+      setDialogOpen(false);
+      toast({
+        title: `${label} saved`,
+        description: form.kind === 'alias'
+          ? `Type ${form.name.trim()} in the terminal to use it`
+          : `Run it with run ${form.name.trim()}`,
+      });
+    } catch (error) {
+      console.error(`Error saving ${form.kind}:`, error);
+      toast({
+        title: `Error saving ${form.kind}`,
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removeScript = async (kind: ScriptKind, name: string) => {
+    try {
+      await deleteScript(kind, name);
+      toast({
+        title: `${KIND_LABELS[kind]} deleted`,
+        description: `"${name}" has been removed`,
+      });
+    } catch (error) {
+      console.error(`Error deleting ${kind}:`, error);
+      toast({
+        title: `Error deleting ${kind}`,
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const saveStartup = async () => {
+    try {
+      await saveStartupScript(startup);
+      toast({
+        title: startup.trim() ? "Startup script saved" : "Startup script turned off",
+        description: startup.trim() ? "It runs the next time the terminal loads" : undefined,
+      });
+    } catch (error) {
+      console.error('Error saving startup script:', error);
+      toast({
+        title: "Error saving startup script",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const renderList = (kind: ScriptKind, entries: Record<string, string>, empty: string) => {
+    const names = Object.keys(entries);
+    if (names.length === 0) {
+      return <p className="text-sm text-muted-foreground py-2">{empty}</p>;
+    }
+
+    return (
+      <div className="space-y-2">
+        {names.map((name) => (
+          <div
+            key={name}
+            className="flex items-center justify-between gap-3 p-3 border rounded-lg hover:bg-accent/50 bg-background"
+          >
+            <div className="min-w-0">
+              <p className="font-medium font-mono">{name}</p>
+              <pre className="text-sm text-muted-foreground font-mono whitespace-pre-wrap break-all">
+                {entries[name]}
+              </pre>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => openDialog(kind, name)}
+                className="h-8 w-8 p-0"
+              >
+                <Edit3 className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeScript(kind, name)}
+                className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TerminalSquare className="w-5 h-5" />
+          Terminal Aliases & Macros
+        </CardTitle>
+        <CardDescription>
+          Shortcuts for the commands you type most, and a script to run whenever the terminal opens
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium">Aliases</h3>
+            <Button variant="outline" size="sm" onClick={() => openDialog('alias', null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Alias
+            </Button>
+          </div>
+          {renderList('alias', scripts.aliases, "No aliases yet. An alias stands in for one command line.")}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium">Macros</h3>
+            <Button variant="outline" size="sm" onClick={() => openDialog('macro', null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Macro
+            </Button>
+          </div>
+          {renderList('macro', scripts.macros, "No macros yet. A macro runs several commands with run <name>.")}
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-lg font-medium">Startup Script</h3>
+          <Textarea
+            id="startup-script"
+            className="font-mono"
+            rows={4}
+            placeholder={"cal.today\ntodo.list | grep ⏳ | head -n 5"}
+            value={startup}
+            onChange={(e) => setStartup(e.target.value)}
+          />
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              One command per line; lines starting with # are skipped. Leave it empty to turn it off.
+            </p>
+            <Button size="sm" onClick={saveStartup} disabled={startup === scripts.startup}>
+              Save
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingName ? `Edit ${KIND_LABELS[form.kind]}` : `Add New ${KIND_LABELS[form.kind]}`}
+            </DialogTitle>
+            <DialogDescription>
+              $1..$9 and $@ are replaced by the arguments it is called with.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="script-name">Name</Label>
+              <Input
+                id="script-name"
+                className="font-mono"
+                placeholder={form.kind === 'alias' ? "e.g., todos" : "e.g., morning"}
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="script-body">{form.kind === 'alias' ? "Command" : "Commands (one per line)"}</Label>
+              {form.kind === 'alias' ? (
+                <Input
+                  id="script-body"
+                  className="font-mono"
+                  placeholder="e.g., todo.list -p high"
+                  value={form.body}
+                  onChange={(e) => setForm({ ...form, body: e.target.value })}
+                />
+              ) : (
+                <Textarea
+                  id="script-body"
+                  className="font-mono"
+                  rows={5}
+                  placeholder={"time.stop\ntime.start Email\ncal.today"}
+                  value={form.body}
+                  onChange={(e) => setForm({ ...form, body: e.target.value })}
+                />
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveForm}>
+              {editingName ? `Save ${KIND_LABELS[form.kind]}` : `Add ${KIND_LABELS[form.kind]}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -3,13 +3,33 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Play, Pause, Clock, Trash2, Edit3, CalendarIcon, X, Calendar as CalendarViewIcon } from "lucide-react";
+import { Play, Pause, Square, Clock, Trash2, Edit3, CalendarIcon, X, Calendar as CalendarViewIcon, Merge } from "lucide-react";
+import { TimeLogTimeline } from "@/components/TimeLogTimeline";
+import { SplitEntryPopover } from "@/components/SplitEntryPopover";
+import { ProjectSelect } from "@/components/ProjectSelect";
+import { MergeEntriesDialog } from "@/components/MergeEntriesDialog";
 import { toast } from "@/hooks/use-toast";
+import { useRunningTimer } from "@/hooks/use-running-timer";
+import { formatElapsed, isRunning } from "@/lib/timer";
+import {
+  TimeEntryTiming,
+  atTime,
+  entryBetween,
+  entryEndingAt,
+  formatEntryRange,
+  getEntryStart,
+  isTimedEntry,
+  mergeEntries,
+  splitEntry,
+  toEntryFields,
+} from "@/lib/timeEntries";
+import { Project, describeProject, fetchProjects, formatAmount, parseTags, totalsByProject } from "@/lib/projects";
 import { supabase } from "@/integrations/supabase/client";
-import { format, startOfWeek, endOfWeek, eachDayOfInterval, isSameDay } from "date-fns";
+import { format, startOfWeek, endOfWeek, eachDayOfInterval, isSameDay, addMinutes } from "date-fns";
 import { cn } from "@/lib/utils";
 
 interface TimeEntry {
@@ -17,26 +37,82 @@ interface TimeEntry {
   activity: string;
   duration: number; // in minutes
   date: string;
+  started_at: string | null;
+  ended_at: string | null;
+  todo_id: string | null;
+  project_id: string | null;
+  tags: string[];
   created_at: string;
   updated_at: string;
   user_id: string;
 }
 
+// What a merge of differently booked entries can keep
+interface MergeChoice {
+  projectOptions: { value: string | null; label: string }[];
+  todoOptions: { value: string | null; label: string }[];
+}
+
+// Project badge and tags under an entry's activity
+function EntryLabels({ entry, projects }: { entry: TimeEntry; projects: Project[] }) {
+  const project = projects.find(p => p.id === entry.project_id);
+  if (!project && !entry.tags?.length) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1">
+      {project && (
+        <Badge
+          variant="outline"
+          style={{ backgroundColor: project.color + '20', borderColor: project.color, color: project.color }}
+        >
+          {describeProject(project)}
+        </Badge>
+      )}
+      {entry.tags?.map((tag) => (
+        <Badge key={tag} variant="secondary" className="text-xs">
+          #{tag}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
 export function TimeLog() {
   const [entries, setEntries] = useState<TimeEntry[]>([]);
   const [newActivity, setNewActivity] = useState("");
   const [newDuration, setNewDuration] = useState("");
+  const [newStart, setNewStart] = useState("");
+  const [newEnd, setNewEnd] = useState("");
+  const [newProjectId, setNewProjectId] = useState<string | null>(null);
+  const [newTags, setNewTags] = useState("");
   const [loading, setLoading] = useState(true);
   const [editingEntry, setEditingEntry] = useState<TimeEntry | null>(null);
   const [editActivity, setEditActivity] = useState("");
   const [editDuration, setEditDuration] = useState("");
+  const [editStart, setEditStart] = useState("");
+  const [editEnd, setEditEnd] = useState("");
+  const [editProjectId, setEditProjectId] = useState<string | null>(null);
+  const [editTags, setEditTags] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date()); // Default to today
   const [viewMode, setViewMode] = useState<'day' | 'week'>('day');
+  const [timerActivity, setTimerActivity] = useState("");
+  const [timerProjectId, setTimerProjectId] = useState<string | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [mergeChoice, setMergeChoice] = useState<MergeChoice | null>(null);
+  const { timer, elapsed, start: startTimer, stop: stopTimer } = useRunningTimer();
+
+  useEffect(() => {
+    fetchProjects()
+      .then(setProjects)
+      .catch(error => console.error('Error fetching projects:', error));
+  }, []);
 
-  // Fetch time logs from database
+  // Fetch time logs from database; also after a timer starts or stops anywhere
   useEffect(() => {
     fetchTimeEntries();
-  }, [selectedDate, viewMode]);
+    setSelectedIds([]);
+  }, [selectedDate, viewMode, timer?.id]);
 
   const fetchTimeEntries = async () => {
     try {
@@ -47,14 +123,14 @@ export function TimeLog() {
       // Filter by selected date or week if specified
       if (selectedDate) {
         if (viewMode === 'day') {
-          const dateStr = selectedDate.toISOString().split('T')[0];
+          const dateStr = format(selectedDate, 'yyyy-MM-dd');
           query = query.eq('date', dateStr);
         } else {
           // Week view - get all entries for the week
           const weekStart = startOfWeek(selectedDate, { weekStartsOn: 1 }); // Start on Monday
           const weekEnd = endOfWeek(selectedDate, { weekStartsOn: 1 });
-          const startStr = weekStart.toISOString().split('T')[0];
-          const endStr = weekEnd.toISOString().split('T')[0];
+          const startStr = format(weekStart, 'yyyy-MM-dd');
+          const endStr = format(weekEnd, 'yyyy-MM-dd');
           query = query.gte('date', startStr).lte('date', endStr);
         }
       }
@@ -68,7 +144,8 @@ export function TimeLog() {
           variant: "destructive"
         });
       } else {
-        setEntries(data || []);
+        // The running timer is shown in its own card until it stops
+        setEntries((data || []).filter(entry => !isRunning(entry)));
       }
     } catch (error) {
       console.error('Error fetching time logs:', error);
@@ -89,19 +166,82 @@ export function TimeLog() {
     return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
   };
 
+  const handleStartTimer = async () => {
+    if (!timerActivity.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter what you are working on.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const { started, stopped } = await startTimer(timerActivity.trim(), { projectId: timerProjectId });
+      setTimerActivity("");
+      toast({
+        title: "Time tracking started",
+        description: stopped
+          ? `${started.activity} (stopped "${stopped.activity}" after ${formatDuration(stopped.duration)})`
+          : started.activity,
+      });
+    } catch (error) {
+      console.error('Error starting timer:', error);
+      toast({
+        title: "Error starting timer",
+        description: "An unexpected error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleStopTimer = async () => {
+    try {
+      const stopped = await stopTimer();
+      if (stopped) {
+        toast({
+          title: "Time tracking stopped",
+          description: `"${stopped.activity}" - ${formatDuration(stopped.duration)}`,
+        });
+      }
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+      toast({
+        title: "Error stopping timer",
+        description: "An unexpected error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Fields for a new entry: a start and end, a start and duration, or a duration ending now
+  const getNewEntryFields = () => {
+    // Times are entered for the day being viewed
+    const day = viewMode === 'day' && selectedDate ? selectedDate : new Date();
+    if (newStart && newEnd) return entryBetween(day, newStart, newEnd);
+
+    const duration = parseInt(newDuration);
+    if (isNaN(duration) || duration <= 0) return null;
+    if (newStart) {
+      const start = atTime(day, newStart);
+      return toEntryFields(start, addMinutes(start, duration));
+    }
+    return entryEndingAt(duration);
+  };
+
   // Add new time entry
   const addTimeEntry = async () => {
-    if (!newActivity.trim() || !newDuration.trim()) {
+    if (!newActivity.trim() || (!newDuration.trim() && !(newStart && newEnd))) {
       toast({
         title: "Missing Information",
-        description: "Please enter both activity and duration.",
+        description: "Please enter an activity and either a duration or start and end times.",
         variant: "destructive"
       });
       return;
     }
 
-    const duration = parseInt(newDuration);
-    if (isNaN(duration) || duration <= 0) {
+    const fields = getNewEntryFields();
+    if (!fields) {
       toast({
         title: "Invalid Duration",
         description: "Duration must be a positive number.",
@@ -124,9 +264,10 @@ export function TimeLog() {
       const { data, error } = await supabase
         .from('time_logs')
         .insert({
+          ...fields,
           activity: newActivity.trim(),
-          duration: duration,
-          date: new Date().toISOString().split('T')[0],
+          project_id: newProjectId,
+          tags: parseTags(newTags),
           user_id: user.id
         })
         .select()
@@ -142,6 +283,9 @@ export function TimeLog() {
         setEntries([data, ...entries]);
         setNewActivity("");
         setNewDuration("");
+        setNewStart("");
+        setNewEnd("");
+        setNewTags("");
         toast({
           title: "Time log added",
           description: `"${data.activity}" - ${formatDuration(data.duration)}`,
@@ -157,19 +301,20 @@ export function TimeLog() {
     }
   };
 
-  // Edit time entry
+  // Edit time entry; timed entries are edited by start and end, the duration follows
   const updateTimeEntry = async () => {
-    if (!editingEntry || !editActivity.trim() || !editDuration.trim()) {
+    const timed = editingEntry && isTimedEntry(editingEntry);
+    if (!editingEntry || !editActivity.trim() || (timed ? !editStart || !editEnd : !editDuration.trim())) {
       toast({
         title: "Missing Information",
-        description: "Please enter both activity and duration.",
+        description: timed ? "Please enter activity, start and end." : "Please enter both activity and duration.",
         variant: "destructive"
       });
       return;
     }
 
     const duration = parseInt(editDuration);
-    if (isNaN(duration) || duration <= 0) {
+    if (!timed && (isNaN(duration) || duration <= 0)) {
       toast({
         title: "Invalid Duration",
         description: "Duration must be a positive number.",
@@ -178,13 +323,15 @@ export function TimeLog() {
       return;
     }
 
+    const labels = { activity: editActivity.trim(), project_id: editProjectId, tags: parseTags(editTags) };
+    const changes = timed
+      ? { ...labels, ...entryBetween(getEntryStart(editingEntry), editStart, editEnd) }
+      : { ...labels, duration: duration };
+
     try {
       const { error } = await supabase
         .from('time_logs')
-        .update({
-          activity: editActivity.trim(),
-          duration: duration
-        })
+        .update(changes)
         .eq('id', editingEntry.id);
 
       if (error) {
@@ -196,12 +343,10 @@ export function TimeLog() {
       } else {
         setEntries(entries.map(entry => 
           entry.id === editingEntry.id 
-            ? { ...entry, activity: editActivity.trim(), duration: duration }
+            ? { ...entry, ...changes }
             : entry
         ));
-        setEditingEntry(null);
-        setEditActivity("");
-        setEditDuration("");
+        cancelEditing();
         toast({
           title: "Time log updated",
           description: "Your time log has been updated successfully.",
@@ -217,6 +362,131 @@ export function TimeLog() {
     }
   };
 
+  // Split an entry in two at the given time
+  const splitTimeEntry = async (entry: TimeEntryTiming, at: Date) => {
+    const halves = splitEntry(entry, at);
+    if (!halves) return;
+    const [first, second] = halves;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error: updateError } = await supabase
+        .from('time_logs')
+        .update(first)
+        .eq('id', entry.id);
+      if (updateError) throw updateError;
+
+      // The second half stays booked on the same task, project and tags
+      const source = entries.find(e => e.id === entry.id);
+      const { error: insertError } = await supabase
+        .from('time_logs')
+        .insert({
+          ...second,
+          activity: entry.activity,
+          todo_id: source?.todo_id ?? null,
+          project_id: source?.project_id ?? null,
+          tags: source?.tags ?? [],
+          user_id: user.id
+        });
+      if (insertError) throw insertError;
+
+      toast({
+        title: "Time log split",
+        description: `"${entry.activity}" split at ${format(at, 'HH:mm')}`,
+      });
+      fetchTimeEntries();
+    } catch (error) {
+      console.error('Error splitting time log:', error);
+      toast({
+        title: "Error splitting time log",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Merge the selected entries into the earliest one, keeping the given project and todo
+  const applyMerge = async (projectId: string | null, todoId: string | null) => {
+    const selected = entries.filter(entry => selectedIds.includes(entry.id));
+    const merged = mergeEntries(selected);
+    if (!merged) return;
+
+    const [keep, ...rest] = selected.sort((a, b) => getEntryStart(a).getTime() - getEntryStart(b).getTime());
+
+    try {
+      const { error: updateError } = await supabase
+        .from('time_logs')
+        .update({
+          ...merged.fields,
+          activity: merged.activity,
+          project_id: projectId,
+          todo_id: todoId,
+          tags: Array.from(new Set(selected.flatMap(entry => entry.tags || [])))
+        })
+        .eq('id', keep.id);
+      if (updateError) throw updateError;
+
+      const { error: deleteError } = await supabase
+        .from('time_logs')
+        .delete()
+        .in('id', rest.map(entry => entry.id));
+      if (deleteError) throw deleteError;
+
+      setSelectedIds([]);
+      toast({
+        title: "Time logs merged",
+        description: merged.gapMinutes > 0
+          ? `${selected.length} entries merged, including ${formatDuration(merged.gapMinutes)} that was untracked`
+          : `${selected.length} entries merged`,
+      });
+      fetchTimeEntries();
+    } catch (error) {
+      console.error('Error merging time logs:', error);
+      toast({
+        title: "Error merging time logs",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Entries booked on different projects or todos ask which one the merged entry keeps
+  const mergeSelected = async () => {
+    const selected = entries.filter(entry => selectedIds.includes(entry.id));
+    const projectIds = Array.from(new Set(selected.map(entry => entry.project_id || null)));
+    const todoIds = Array.from(new Set(selected.map(entry => entry.todo_id || null)));
+
+    if (projectIds.length === 1 && todoIds.length === 1) {
+      await applyMerge(projectIds[0], todoIds[0]);
+      return;
+    }
+
+    const linkedTodoIds = todoIds.filter(Boolean);
+    const { data: todos, error } = linkedTodoIds.length
+      ? await supabase.from('todos').select('id, text').in('id', linkedTodoIds)
+      : { data: [], error: null };
+    if (error) {
+      console.error('Error fetching todos:', error);
+    }
+
+    setMergeChoice({
+      projectOptions: projectIds.map(id => {
+        const project = projects.find(p => p.id === id);
+        return { value: id, label: id ? (project ? describeProject(project) : "Deleted project") : "No project" };
+      }),
+      todoOptions: todoIds.map(id => ({
+        value: id,
+        label: id ? todos?.find(todo => todo.id === id)?.text || `Todo ${id.substring(0, 8)}` : "No todo",
+      })),
+    });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(ids => ids.includes(id) ? ids.filter(selected => selected !== id) : [...ids, id]);
+  };
+
   // Delete time entry
   const deleteEntry = async (id: string) => {
     const entry = entries.find(e => e.id === id);
@@ -256,6 +526,10 @@ export function TimeLog() {
     setEditingEntry(entry);
     setEditActivity(entry.activity);
     setEditDuration(entry.duration.toString());
+    setEditStart(isTimedEntry(entry) ? format(new Date(entry.started_at), 'HH:mm') : "");
+    setEditEnd(isTimedEntry(entry) ? format(new Date(entry.ended_at), 'HH:mm') : "");
+    setEditProjectId(entry.project_id);
+    setEditTags((entry.tags || []).join(', '));
   };
 
   // Cancel editing
@@ -263,10 +537,17 @@ export function TimeLog() {
     setEditingEntry(null);
     setEditActivity("");
     setEditDuration("");
+    setEditStart("");
+    setEditEnd("");
+    setEditProjectId(null);
+    setEditTags("");
   };
 
   // Calculate total time
   const totalTime = entries.reduce((sum, entry) => sum + entry.duration, 0);
+  const projectTotals = totalsByProject(entries, projects);
+  const totalAmount = projectTotals.reduce((sum, total) => sum + total.amount, 0);
+  const timerProject = projects.find(p => p.id === timer?.project_id);
 
   // Get filtered date label
   const getDateLabel = () => {
@@ -281,7 +562,7 @@ export function TimeLog() {
 
   // Group entries by date for week view
   const getGroupedEntries = () => {
-    if (viewMode === 'day') return { [selectedDate?.toISOString().split('T')[0] || '']: entries };
+    if (viewMode === 'day') return { [selectedDate ? format(selectedDate, 'yyyy-MM-dd') : '']: entries };
     
     const weekStart = startOfWeek(selectedDate || new Date(), { weekStartsOn: 1 });
     const weekEnd = endOfWeek(selectedDate || new Date(), { weekStartsOn: 1 });
@@ -290,7 +571,7 @@ export function TimeLog() {
     const grouped: Record<string, TimeEntry[]> = {};
     
     weekDays.forEach(day => {
-      const dayStr = day.toISOString().split('T')[0];
+      const dayStr = format(day, 'yyyy-MM-dd');
       grouped[dayStr] = entries.filter(entry => entry.date === dayStr);
     });
     
@@ -380,27 +661,108 @@ export function TimeLog() {
         </div>
       </div>
 
+      {/* Running Timer */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Timer</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {timer ? (
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3 min-w-0">
+                <span className="w-3 h-3 rounded-full bg-red-500 animate-pulse flex-shrink-0" />
+                <div className="min-w-0">
+                  <h3 className="font-medium truncate">{timer.activity}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Started {format(new Date(timer.started_at), 'MMM d, HH:mm')}
+                    {timerProject && ` · ${describeProject(timerProject)}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="text-3xl font-mono font-bold tabular-nums">{formatElapsed(elapsed)}</span>
+                <Button variant="destructive" onClick={handleStopTimer}>
+                  <Square className="w-4 h-4 mr-2" />
+                  Stop
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <Input
+                placeholder="What are you working on?"
+                value={timerActivity}
+                onChange={(e) => setTimerActivity(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleStartTimer()}
+              />
+              <ProjectSelect
+                projects={projects}
+                value={timerProjectId}
+                onChange={setTimerProjectId}
+                className="w-48"
+              />
+              <Button onClick={handleStartTimer}>
+                <Play className="w-4 h-4 mr-2" />
+                Start
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Add Time Entry Form */}
       <Card>
         <CardHeader>
           <CardTitle>Add Time Entry</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <Input
               placeholder="What did you work on?"
               value={newActivity}
               onChange={(e) => setNewActivity(e.target.value)}
               className="md:col-span-2"
             />
+            <Input
+              value={newStart}
+              onChange={(e) => setNewStart(e.target.value)}
+              type="time"
+              aria-label="Start"
+              title="Start"
+            />
+            <Input
+              value={newEnd}
+              onChange={(e) => setNewEnd(e.target.value)}
+              type="time"
+              aria-label="End"
+              title="End"
+            />
             <Input
               placeholder="Duration (minutes)"
               value={newDuration}
               onChange={(e) => setNewDuration(e.target.value)}
               type="number"
               min="1"
+              disabled={!!(newStart && newEnd)}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <ProjectSelect
+              projects={projects}
+              value={newProjectId}
+              onChange={setNewProjectId}
+              className="md:col-span-2"
+            />
+            <Input
+              placeholder="Tags (comma-separated)"
+              value={newTags}
+              onChange={(e) => setNewTags(e.target.value)}
+              className="md:col-span-3"
             />
           </div>
+          <p className="text-xs text-muted-foreground">
+            Enter start and end, a start and a duration, or just a duration that ends now.
+          </p>
           <Button onClick={addTimeEntry} className="w-full">
             Add Time Entry
           </Button>
@@ -438,10 +800,69 @@ export function TimeLog() {
         </Card>
       </div>
 
+      {/* Day Timeline */}
+      {viewMode === 'day' && selectedDate && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Timeline</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TimeLogTimeline
+              day={selectedDate}
+              entries={entries}
+              onEntryClick={(clicked) => startEditing(entries.find(entry => entry.id === clicked.id))}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Project Totals */}
+      {viewMode === 'week' && projectTotals.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Projects</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {projectTotals.map(({ project, minutes, billableMinutes, amount }) => (
+                <div key={project?.id ?? 'none'} className="flex items-center justify-between gap-4 text-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span
+                      className="w-3 h-3 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: project?.color ?? '#9ca3af' }}
+                    />
+                    <span className="truncate">{project ? describeProject(project) : "No project"}</span>
+                  </div>
+                  <div className="flex items-center gap-4 tabular-nums">
+                    <span>{formatDuration(minutes)}</span>
+                    <span className="w-28 text-right text-muted-foreground">
+                      {billableMinutes > 0 ? formatAmount(amount) : "—"}
+                    </span>
+                  </div>
+                </div>
+              ))}
+              <div className="flex items-center justify-between gap-4 pt-2 border-t text-sm font-semibold">
+                <span>Total</span>
+                <div className="flex items-center gap-4 tabular-nums">
+                  <span>{formatDuration(totalTime)}</span>
+                  <span className="w-28 text-right">{formatAmount(totalAmount)}</span>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Time Entries */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle>Time Entries</CardTitle>
+          {selectedIds.length >= 2 && (
+            <Button size="sm" variant="outline" onClick={mergeSelected}>
+              <Merge className="w-4 h-4 mr-2" />
+              Merge {selectedIds.length} selected
+            </Button>
+          )}
         </CardHeader>
         <CardContent>
           {entries.length === 0 ? (
@@ -473,8 +894,15 @@ export function TimeLog() {
                         {dayEntries.map((entry) => (
                           <div
                             key={entry.id}
-                            className="flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-accent/50 transition-colors"
+                            className="flex items-center justify-between gap-3 p-3 rounded-lg border bg-card hover:bg-accent/50 transition-colors"
                           >
+                            {isTimedEntry(entry) && (
+                              <Checkbox
+                                checked={selectedIds.includes(entry.id)}
+                                onCheckedChange={() => toggleSelected(entry.id)}
+                                aria-label="Select for merge"
+                              />
+                            )}
                             <div className="flex-1">
                               {editingEntry?.id === entry.id ? (
                                 <div className="space-y-2">
@@ -484,13 +912,45 @@ export function TimeLog() {
                                     className="font-medium"
                                   />
                                   <div className="flex gap-2">
+                                    <ProjectSelect
+                                      projects={projects}
+                                      value={editProjectId}
+                                      onChange={setEditProjectId}
+                                      className="w-48"
+                                    />
                                     <Input
-                                      value={editDuration}
-                                      onChange={(e) => setEditDuration(e.target.value)}
-                                      type="number"
-                                      min="1"
-                                      className="w-32"
+                                      value={editTags}
+                                      onChange={(e) => setEditTags(e.target.value)}
+                                      placeholder="Tags (comma-separated)"
                                     />
+                                  </div>
+                                  <div className="flex gap-2">
+                                    {editingEntry && isTimedEntry(editingEntry) ? (
+                                      <>
+                                        <Input
+                                          value={editStart}
+                                          onChange={(e) => setEditStart(e.target.value)}
+                                          type="time"
+                                          aria-label="Start"
+                                          className="w-32"
+                                        />
+                                        <Input
+                                          value={editEnd}
+                                          onChange={(e) => setEditEnd(e.target.value)}
+                                          type="time"
+                                          aria-label="End"
+                                          className="w-32"
+                                        />
+                                      </>
+                                    ) : (
+                                      <Input
+                                        value={editDuration}
+                                        onChange={(e) => setEditDuration(e.target.value)}
+                                        type="number"
+                                        min="1"
+                                        className="w-32"
+                                      />
+                                    )}
                                     <Button size="sm" onClick={updateTimeEntry}>
                                       Save
                                     </Button>
@@ -502,7 +962,9 @@ export function TimeLog() {
                               ) : (
                                 <div>
                                   <h4 className="font-medium">{entry.activity}</h4>
+                                  <EntryLabels entry={entry} projects={projects} />
                                   <div className="text-sm text-muted-foreground">
+                                    {isTimedEntry(entry) && <span className="mr-4">{formatEntryRange(entry)}</span>}
                                     Duration: {formatDuration(entry.duration)}
                                   </div>
                                 </div>
@@ -511,6 +973,9 @@ export function TimeLog() {
                             
                             {editingEntry?.id !== entry.id && (
                               <div className="flex items-center gap-2">
+                                {isTimedEntry(entry) && (
+                                  <SplitEntryPopover entry={entry} onSplit={splitTimeEntry} />
+                                )}
                                 <Button
                                   variant="ghost"
                                   size="sm"
@@ -542,8 +1007,15 @@ export function TimeLog() {
               {entries.map((entry) => (
                 <div
                   key={entry.id}
-                  className="flex items-center justify-between p-4 rounded-lg border bg-card hover:bg-accent/50 transition-colors"
+                  className="flex items-center justify-between gap-3 p-4 rounded-lg border bg-card hover:bg-accent/50 transition-colors"
                 >
+                  {isTimedEntry(entry) && (
+                    <Checkbox
+                      checked={selectedIds.includes(entry.id)}
+                      onCheckedChange={() => toggleSelected(entry.id)}
+                      aria-label="Select for merge"
+                    />
+                  )}
                   <div className="flex-1">
                     {editingEntry?.id === entry.id ? (
                       <div className="space-y-2">
@@ -553,13 +1025,45 @@ export function TimeLog() {
                           className="font-medium"
                         />
                         <div className="flex gap-2">
+                          <ProjectSelect
+                            projects={projects}
+                            value={editProjectId}
+                            onChange={setEditProjectId}
+                            className="w-48"
+                          />
                           <Input
-                            value={editDuration}
-                            onChange={(e) => setEditDuration(e.target.value)}
-                            type="number"
-                            min="1"
-                            className="w-32"
+                            value={editTags}
+                            onChange={(e) => setEditTags(e.target.value)}
+                            placeholder="Tags (comma-separated)"
                           />
+                        </div>
+                        <div className="flex gap-2">
+                          {editingEntry && isTimedEntry(editingEntry) ? (
+                            <>
+                              <Input
+                                value={editStart}
+                                onChange={(e) => setEditStart(e.target.value)}
+                                type="time"
+                                aria-label="Start"
+                                className="w-32"
+                              />
+                              <Input
+                                value={editEnd}
+                                onChange={(e) => setEditEnd(e.target.value)}
+                                type="time"
+                                aria-label="End"
+                                className="w-32"
+                              />
+                            </>
+                          ) : (
+                            <Input
+                              value={editDuration}
+                              onChange={(e) => setEditDuration(e.target.value)}
+                              type="number"
+                              min="1"
+                              className="w-32"
+                            />
+                          )}
                           <Button size="sm" onClick={updateTimeEntry}>
                             Save
                           </Button>
@@ -571,8 +1075,10 @@ export function TimeLog() {
                     ) : (
                       <div>
                         <h3 className="font-medium">{entry.activity}</h3>
+                        <EntryLabels entry={entry} projects={projects} />
                         <div className="flex items-center gap-4 mt-1 text-sm text-muted-foreground">
                           <span>{format(new Date(entry.date), 'MMM d, yyyy')}</span>
+                          {isTimedEntry(entry) && <span>{formatEntryRange(entry)}</span>}
                           <span>Duration: {formatDuration(entry.duration)}</span>
                         </div>
                       </div>
@@ -581,6 +1087,9 @@ export function TimeLog() {
                   
                   {editingEntry?.id !== entry.id && (
                     <div className="flex items-center gap-2">
+                      {isTimedEntry(entry) && (
+                        <SplitEntryPopover entry={entry} onSplit={splitTimeEntry} />
+                      )}
                       <Button
                         variant="ghost"
                         size="sm"
@@ -605,6 +1114,15 @@ export function TimeLog() {
           )}
         </CardContent>
       </Card>
+
+      <MergeEntriesDialog
+        isOpen={!!mergeChoice}
+        count={selectedIds.length}
+        projectOptions={mergeChoice?.projectOptions || []}
+        todoOptions={mergeChoice?.todoOptions || []}
+        onClose={() => setMergeChoice(null)}
+        onConfirm={applyMerge}
+      />
     </div>
   );
 }
\ No newline at end of file
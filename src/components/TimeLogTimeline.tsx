@@ -0,0 +1,128 @@
+import { differenceInMinutes, format, isSameDay, startOfDay } from "date-fns";
+import { AlertTriangle, Clock } from "lucide-react";
+import {
+  TimeEntryTiming,
+  findGaps,
+  findOverlaps,
+  formatEntryRange,
+  layoutTimeline,
+} from "@/lib/timeEntries";
+
+interface TimeLogTimelineProps {
+  day: Date;
+  entries: TimeEntryTiming[];
+  onEntryClick?: (entry: TimeEntryTiming) => void;
+}
+
+const LANE_HEIGHT = 36;
+// The working day is always shown, widened to fit anything logged outside it
+const DEFAULT_FIRST_HOUR = 8;
+const DEFAULT_LAST_HOUR = 18;
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+};
+
+export function TimeLogTimeline({ day, entries, onEntryClick }: TimeLogTimelineProps) {
+  const items = layoutTimeline(entries, day);
+  const overlaps = findOverlaps(entries);
+  // Gaps that run past midnight belong to the day they start on
+  const gaps = findGaps(entries).filter(gap => isSameDay(gap.start, day));
+  const overlapping = new Set(overlaps.flatMap(overlap => [overlap.first.id, overlap.second.id]));
+
+  const firstHour = Math.min(DEFAULT_FIRST_HOUR, ...items.map(item => Math.floor(item.top / 60)));
+  const lastHour = Math.max(DEFAULT_LAST_HOUR, ...items.map(item => Math.ceil((item.top + item.height) / 60)));
+  const rangeMinutes = (lastHour - firstHour) * 60;
+  const lanes = Math.max(1, ...items.map(item => item.lanes));
+  const hours = Array.from({ length: lastHour - firstHour + 1 }, (_, i) => firstHour + i);
+
+  const percent = (minutes: number) => `${((minutes - firstHour * 60) / rangeMinutes) * 100}%`;
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-6 text-muted-foreground text-sm">
+        <Clock className="w-8 h-8 mx-auto mb-2 opacity-50" />
+        No entries with start and end times on {format(day, 'MMM d')}.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="relative h-5 text-xs text-muted-foreground">
+          {hours.map((hour) => (
+            <span
+              key={hour}
+              className="absolute -translate-x-1/2"
+              style={{ left: percent(hour * 60) }}
+            >
+              {format(new Date(2000, 0, 1, hour), 'HH:mm')}
+            </span>
+          ))}
+        </div>
+        <div className="relative border rounded-lg bg-muted/20" style={{ height: lanes * LANE_HEIGHT + 8 }}>
+          {hours.map((hour) => (
+            <div
+              key={hour}
+              className="absolute top-0 bottom-0 border-l border-border/50"
+              style={{ left: percent(hour * 60) }}
+            />
+          ))}
+          {gaps.map((gap) => (
+            <div
+              key={gap.start.toISOString()}
+              className="absolute top-0 bottom-0 bg-yellow-500/10 border-x border-dashed border-yellow-500/40"
+              style={{
+                left: percent(differenceInMinutes(gap.start, startOfDay(day))),
+                width: `${(gap.minutes / rangeMinutes) * 100}%`,
+              }}
+              title={`Untracked: ${format(gap.start, 'HH:mm')}–${format(gap.end, 'HH:mm')}`}
+            />
+          ))}
+          {items.map(({ entry, top, height, lane }) => (
+            <button
+              key={entry.id}
+              type="button"
+              onClick={() => onEntryClick?.(entry)}
+              title={`${entry.activity} (${formatEntryRange(entry)})`}
+              className={`absolute rounded px-1 text-left text-xs truncate border ${
+                overlapping.has(entry.id)
+                  ? "bg-red-100 text-red-800 border-red-400"
+                  : "bg-primary/20 text-foreground border-primary/40"
+              }`}
+              style={{
+                left: percent(top),
+                width: `${(height / rangeMinutes) * 100}%`,
+                top: 4 + lane * LANE_HEIGHT,
+                height: LANE_HEIGHT - 4,
+              }}
+            >
+              {entry.activity}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {(overlaps.length > 0 || gaps.length > 0) && (
+        <div className="space-y-1 text-sm">
+          {overlaps.map((overlap) => (
+            <p key={`${overlap.first.id}:${overlap.second.id}`} className="flex items-start gap-2 text-red-700">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              "{overlap.first.activity}" and "{overlap.second.activity}" overlap
+              {' '}{format(overlap.start, 'HH:mm')}–{format(overlap.end, 'HH:mm')} ({formatMinutes(overlap.minutes)})
+            </p>
+          ))}
+          {gaps.map((gap) => (
+            <p key={gap.start.toISOString()} className="flex items-start gap-2 text-yellow-700">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              Untracked {format(gap.start, 'HH:mm')}–{format(gap.end, 'HH:mm')} ({formatMinutes(gap.minutes)})
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
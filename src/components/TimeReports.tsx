@@ -0,0 +1,404 @@
+import { useState, useEffect } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { BarChart3, CalendarIcon, Download, Printer, TrendingDown, TrendingUp } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { isRunning } from "@/lib/timer";
+import { Project, fetchProjects, formatAmount } from "@/lib/projects";
+import {
+  GROUPING_LABELS,
+  ReportEntry,
+  ReportGrouping,
+  ReportRange,
+  buildReport,
+  buildStackedChart,
+  downloadCsv,
+  percentChange,
+  previousRange,
+  reportToCsv,
+  rowColor,
+} from "@/lib/timeReports";
+import {
+  differenceInCalendarDays,
+  endOfMonth,
+  endOfWeek,
+  endOfYear,
+  format,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+  subDays,
+  subMonths,
+  subWeeks,
+} from "date-fns";
+
+type Preset = 'this-week' | 'last-week' | 'this-month' | 'last-month' | 'last-30' | 'this-year';
+
+const PRESETS: { value: Preset; label: string; range: () => ReportRange }[] = [
+  {
+    value: 'this-week',
+    label: 'This week',
+    range: () => ({ from: startOfWeek(new Date(), { weekStartsOn: 1 }), to: endOfWeek(new Date(), { weekStartsOn: 1 }) }),
+  },
+  {
+    value: 'last-week',
+    label: 'Last week',
+    range: () => {
+      const lastWeek = subWeeks(new Date(), 1);
+      return { from: startOfWeek(lastWeek, { weekStartsOn: 1 }), to: endOfWeek(lastWeek, { weekStartsOn: 1 }) };
+    },
+  },
+  {
+    value: 'this-month',
+    label: 'This month',
+    range: () => ({ from: startOfMonth(new Date()), to: endOfMonth(new Date()) }),
+  },
+  {
+    value: 'last-month',
+    label: 'Last month',
+    range: () => ({ from: startOfMonth(subMonths(new Date(), 1)), to: endOfMonth(subMonths(new Date(), 1)) }),
+  },
+  {
+    value: 'last-30',
+    label: 'Last 30 days',
+    range: () => ({ from: subDays(new Date(), 29), to: new Date() }),
+  },
+  {
+    value: 'this-year',
+    label: 'This year',
+    range: () => ({ from: startOfYear(new Date()), to: endOfYear(new Date()) }),
+  },
+];
+
+const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+};
+
+const fetchRange = async ({ from, to }: ReportRange): Promise<ReportEntry[]> => {
+  const { data, error } = await supabase
+    .from('time_logs')
+    .select('activity, duration, date, project_id, started_at, ended_at')
+    .gte('date', format(from, 'yyyy-MM-dd'))
+    .lte('date', format(to, 'yyyy-MM-dd'));
+
+  if (error) throw error;
+  // A running timer has no duration yet
+  return (data || []).filter(entry => !isRunning(entry));
+};
+
+const rangeLabel = ({ from, to }: ReportRange) => `${format(from, 'MMM d, yyyy')} – ${format(to, 'MMM d, yyyy')}`;
+
+function ChangeIndicator({ current, previous }: { current: number; previous: number | null }) {
+  const change = percentChange(current, previous);
+  if (change === null) return <span className="text-muted-foreground">—</span>;
+
+  const Icon = change >= 0 ? TrendingUp : TrendingDown;
+  return (
+    <span className={`inline-flex items-center gap-1 ${change >= 0 ? "text-green-600" : "text-red-600"}`}>
+      <Icon className="w-3 h-3" />
+      {change > 0 ? '+' : ''}{change}%
+    </span>
+  );
+}
+
+// Time totals over any date range, grouped and charted, compared with the period before
+export function TimeReports() {
+  const [range, setRange] = useState<ReportRange>(PRESETS[0].range());
+  const [grouping, setGrouping] = useState<ReportGrouping>('day');
+  const [entries, setEntries] = useState<ReportEntry[]>([]);
+  const [previousEntries, setPreviousEntries] = useState<ReportEntry[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchProjects()
+      .then(setProjects)
+      .catch(error => console.error('Error fetching projects:', error));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    Promise.all([fetchRange(range), fetchRange(previousRange(range))])
+      .then(([current, previous]) => {
+        if (cancelled) return;
+        setEntries(current);
+        setPreviousEntries(previous);
+      })
+      .catch((error) => {
+        console.error('Error fetching time report:', error);
+        toast({
+          title: "Error fetching time report",
+          description: error.message || "An unexpected error occurred",
+          variant: "destructive"
+        });
+      })
+      .finally(() => !cancelled && setLoading(false));
+
+    // A slow response for an earlier range must not replace the current one
+    return () => {
+      cancelled = true;
+    };
+  }, [range]);
+
+  const handleRangeSelect = (selected: DateRange | undefined) => {
+    if (selected?.from) {
+      setRange({ from: selected.from, to: selected.to || selected.from });
+    }
+  };
+
+  const rows = buildReport(entries, previousEntries, grouping, range, projects);
+  const chart = buildStackedChart(entries, grouping, range, projects);
+  const pieRows = rows.filter(row => row.minutes > 0);
+
+  const totalMinutes = entries.reduce((sum, entry) => sum + entry.duration, 0);
+  const previousTotal = previousEntries.reduce((sum, entry) => sum + entry.duration, 0);
+  const totalAmount = rows.reduce((sum, row) => sum + row.amount, 0);
+  const days = differenceInCalendarDays(range.to, range.from) + 1;
+
+  const barConfig: ChartConfig = Object.fromEntries(
+    chart.series.map(series => [series.key, { label: series.label, color: series.color }])
+  );
+  const pieConfig: ChartConfig = Object.fromEntries(
+    pieRows.map((row, index) => [row.key, { label: row.label, color: rowColor(row, index) }])
+  );
+
+  const exportCsv = () => {
+    const filename = downloadCsv(
+      reportToCsv(rows, grouping),
+      `time-report-${grouping}-${format(range.from, 'yyyy-MM-dd')}-${format(range.to, 'yyyy-MM-dd')}.csv`
+    );
+    toast({
+      title: "Report exported",
+      description: filename,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 print:hidden">
+        <div className="flex items-center gap-4">
+          <BarChart3 className="w-8 h-8 text-primary" />
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Reports</h1>
+            <p className="text-muted-foreground">Where your time went, and how it compares</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select onValueChange={(value) => setRange(PRESETS.find(preset => preset.value === value).range())}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue placeholder="Quick range" />
+            </SelectTrigger>
+            <SelectContent>
+              {PRESETS.map((preset) => (
+                <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="justify-start text-left font-normal">
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {rangeLabel(range)}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="range"
+                selected={range}
+                onSelect={handleRangeSelect}
+                numberOfMonths={2}
+                defaultMonth={range.from}
+                initialFocus
+                className="p-3 pointer-events-auto"
+              />
+            </PopoverContent>
+          </Popover>
+
+          <Select value={grouping} onValueChange={(value) => setGrouping(value as ReportGrouping)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(GROUPING_LABELS) as ReportGrouping[]).map((value) => (
+                <SelectItem key={value} value={value}>By {GROUPING_LABELS[value].toLowerCase()}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button variant="outline" onClick={exportCsv} disabled={rows.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </Button>
+          <Button variant="outline" onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {/* Only shown on paper, where the controls above are hidden */}
+      <div className="hidden print:block">
+        <h1 className="text-2xl font-bold">Time Report</h1>
+        <p>{rangeLabel(range)} · by {GROUPING_LABELS[grouping].toLowerCase()}</p>
+        <p className="text-sm">Compared with {rangeLabel(previousRange(range))} · generated {format(new Date(), 'PPpp')}</p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Total</p>
+            <p className="text-2xl font-bold">{formatDuration(totalMinutes)}</p>
+            <p className="text-xs mt-1">
+              <ChangeIndicator current={totalMinutes} previous={previousTotal} /> vs previous period
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Billable</p>
+            <p className="text-2xl font-bold">{formatAmount(totalAmount)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Entries</p>
+            <p className="text-2xl font-bold">{entries.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Daily average</p>
+            <p className="text-2xl font-bold">{formatDuration(Math.round(totalMinutes / days))}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading report...</p>
+      ) : entries.length === 0 ? (
+        <Card className="p-8 text-center">
+          <BarChart3 className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No time logged in this range</h3>
+          <p className="text-muted-foreground">Pick another range or log some time first.</p>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 print:grid-cols-3">
+            <Card className="lg:col-span-2 print:col-span-2">
+              <CardHeader>
+                <CardTitle>Hours by project</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={barConfig} className="h-[280px] w-full aspect-auto">
+                  <BarChart data={chart.data}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {chart.series.map((series) => (
+                      <Bar key={series.key} dataKey={series.key} stackId="time" fill={`var(--color-${series.key})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Share by {GROUPING_LABELS[grouping].toLowerCase()}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={pieConfig} className="h-[280px] w-full aspect-auto">
+                  <PieChart>
+                    <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+                    <Pie data={pieRows} dataKey="minutes" nameKey="key" innerRadius={50}>
+                      {pieRows.map((row, index) => (
+                        <Cell key={row.key} fill={rowColor(row, index)} />
+                      ))}
+                    </Pie>
+                  </PieChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Summary by {GROUPING_LABELS[grouping].toLowerCase()}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{GROUPING_LABELS[grouping]}</TableHead>
+                    <TableHead className="text-right">Time</TableHead>
+                    <TableHead className="text-right">Entries</TableHead>
+                    <TableHead className="text-right">Billable</TableHead>
+                    <TableHead className="text-right">Previous</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => (
+                    <TableRow key={row.key}>
+                      <TableCell>
+                        <span className="inline-flex items-center gap-2">
+                          {!['day', 'week', 'month'].includes(grouping) && (
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: rowColor(row, index) }} />
+                          )}
+                          {row.label}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{formatDuration(row.minutes)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{row.entries}</TableCell>
+                      <TableCell className="text-right tabular-nums">{row.amount > 0 ? formatAmount(row.amount) : "—"}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {row.previousMinutes === null ? "—" : formatDuration(row.previousMinutes)}
+                      </TableCell>
+                      <TableCell className="text-right text-sm">
+                        <ChangeIndicator current={row.minutes} previous={row.previousMinutes} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatDuration(totalMinutes)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{entries.length}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatAmount(totalAmount)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatDuration(previousTotal)}</TableCell>
+                    <TableCell className="text-right text-sm">
+                      <ChangeIndicator current={totalMinutes} previous={previousTotal} />
+                    </TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
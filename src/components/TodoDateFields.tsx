@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { CalendarClock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { DatedTodo, EMPTY_TODO_DATES, REMINDER_OPTIONS, TodoDatesForm, toTodoDatesForm } from "@/lib/dueDates";
+import { RECURRENCE_OPTIONS } from "@/lib/recurrence";
+
+interface TodoDateFieldsProps {
+  value: TodoDatesForm;
+  onChange: (value: TodoDatesForm) => void;
+  idPrefix?: string;
+}
+
+export function TodoDateFields({ value, onChange, idPrefix = "todo" }: TodoDateFieldsProps) {
+  const recurrence = RECURRENCE_OPTIONS.find(option => option.rule === value.recurrence_rule);
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}-due-date`}>Due date</Label>
+          <Input
+            id={`${idPrefix}-due-date`}
+            type="date"
+            value={value.due_date}
+            onChange={(e) => onChange({ ...value, due_date: e.target.value })}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}-due-time`}>Time (optional)</Label>
+          <Input
+            id={`${idPrefix}-due-time`}
+            type="time"
+            value={value.due_time}
+            disabled={!value.due_date}
+            onChange={(e) => onChange({ ...value, due_time: e.target.value })}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}-start-date`}>Start / defer until</Label>
+          <Input
+            id={`${idPrefix}-start-date`}
+            type="date"
+            value={value.start_date}
+            onChange={(e) => onChange({ ...value, start_date: e.target.value })}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}-reminder`}>Reminder</Label>
+          <select
+            id={`${idPrefix}-reminder`}
+            value={value.reminder_minutes}
+            disabled={!value.due_date}
+            onChange={(e) => onChange({ ...value, reminder_minutes: e.target.value })}
+            className="px-3 py-2 border rounded-md bg-background text-sm"
+          >
+            <option value="">None</option>
+            {REMINDER_OPTIONS.map((option) => (
+              <option key={option.minutes} value={option.minutes}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}-repeat`}>Repeat</Label>
+          <select
+            id={`${idPrefix}-repeat`}
+            value={value.recurrence_rule}
+            onChange={(e) => onChange({ ...value, recurrence_rule: e.target.value, recurrence_interval: value.recurrence_interval || "1" })}
+            className="px-3 py-2 border rounded-md bg-background text-sm"
+          >
+            <option value="">Never</option>
+            {RECURRENCE_OPTIONS.map((option) => (
+              <option key={option.rule} value={option.rule}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {recurrence?.intervalLabel && (
+          <div className="grid gap-2">
+            <Label htmlFor={`${idPrefix}-repeat-interval`}>{recurrence.intervalLabel}</Label>
+            <Input
+              id={`${idPrefix}-repeat-interval`}
+              type="number"
+              min={1}
+              max={recurrence.rule === 'monthly' ? 31 : undefined}
+              value={value.recurrence_interval}
+              onChange={(e) => onChange({ ...value, recurrence_interval: e.target.value })}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface TodoDatesPopoverProps {
+  todo: DatedTodo;
+  onSave: (value: TodoDatesForm) => void;
+}
+
+export function TodoDatesPopover({ todo, onSave }: TodoDatesPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState<TodoDatesForm>(EMPTY_TODO_DATES);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setValue(toTodoDatesForm(todo));
+    }
+    setOpen(nextOpen);
+  };
+
+  const save = (next: TodoDatesForm) => {
+    onSave(next);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Dates, reminder and repeat">
+          <CalendarClock className="w-3 h-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="end">
+        <TodoDateFields value={value} onChange={setValue} />
+        <div className="flex justify-between">
+          <Button variant="outline" size="sm" onClick={() => save(EMPTY_TODO_DATES)}>
+            Clear
+          </Button>
+          <Button size="sm" onClick={() => save(value)}>
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -7,6 +7,9 @@ import {
   useSensor,
   useSensors,
   DragEndEvent,
+  DragMoveEvent,
+  DragOverEvent,
+  DragStartEvent,
 } from "@dnd-kit/core";
 import {
   arrayMove,
@@ -23,11 +26,28 @@ import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Plus, GripVertical, Trash2, Edit3, CheckSquare, Filter, Eye, EyeOff, ChevronRight, ChevronDown } from "lucide-react";
+import { Plus, GripVertical, Trash2, Edit3, CheckSquare, Filter, Eye, EyeOff, ChevronRight, ChevronDown, ArrowUpDown, ListOrdered, CalendarClock, Bell, Repeat, Play, Square, Timer } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { toast } from "@/hooks/use-toast";
+import { useRunningTimer } from "@/hooks/use-running-timer";
 import { supabase } from "@/integrations/supabase/client";
 import { AddSubtaskModal } from "@/components/AddSubtaskModal";
+import { TodoDatesPopover } from "@/components/TodoDateFields";
+import { TreeNode, buildTree, collectDescendantIds, countSubtasks, flattenTree, getProjection, rollUp } from "@/lib/todoTree";
+import { fetchMinutesByTodo } from "@/lib/todoTime";
+import {
+  DueGroup,
+  DUE_GROUP_LABELS,
+  EMPTY_TODO_DATES,
+  TodoDatesForm,
+  formatDue,
+  fromTodoDatesForm,
+  getDueDateTime,
+  getDueGroup,
+  isDeferred,
+} from "@/lib/dueDates";
+import { describeRecurrence, isRecurring, spawnNextOccurrence } from "@/lib/recurrence";
+import { format, parseISO } from "date-fns";
 
 interface Todo {
   id: string;
@@ -40,6 +60,12 @@ interface Todo {
   completed_at?: string;
   parent_id?: string;
   sort_order: number;
+  due_date?: string | null;
+  due_time?: string | null;
+  start_date?: string | null;
+  reminder_minutes?: number | null;
+  recurrence_rule?: string | null;
+  recurrence_interval?: number | null;
 }
 
 interface CustomPriority {
@@ -52,10 +78,28 @@ interface CustomPriority {
   updated_at: string;
 }
 
-interface HierarchicalTodo extends Todo {
-  subtasks: Todo[];
-  isExpanded: boolean;
-}
+type SortMode = 'priority' | 'manual';
+
+type HierarchicalTodo = TreeNode<Todo>;
+
+// Horizontal drag distance that moves a todo one nesting level in or out
+const INDENTATION_WIDTH = 24;
+
+const DUE_BADGE_CLASSES: Record<DueGroup, string> = {
+  overdue: "bg-red-100 text-red-700 border-red-300",
+  today: "bg-amber-100 text-amber-700 border-amber-300",
+  upcoming: "bg-blue-50 text-blue-700 border-blue-200",
+  later: "bg-muted text-muted-foreground border-border",
+};
+
+// Groups shown in the "Due soon" summary above the list
+const DUE_SECTION_GROUPS: DueGroup[] = ['overdue', 'today', 'upcoming'];
+
+const formatTrackedTime = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+};
 
 interface SortableTodoItemProps {
   todo: HierarchicalTodo;
@@ -65,6 +109,14 @@ interface SortableTodoItemProps {
   onPriorityChange: (id: string, priority: string) => void;
   onAddSubtask: (parentId: string) => void;
   onToggleExpand: (id: string) => void;
+  onIndent: (id: string) => void;
+  onOutdent: (id: string) => void;
+  onDatesChange: (id: string, dates: TodoDatesForm) => void;
+  onStartTimer: (todo: Todo) => void;
+  onStopTimer: () => void;
+  isTracking: boolean;
+  minutesByTodo: Record<string, number>;
+  isExpanded: boolean;
   priorities: CustomPriority[];
   level?: number;
 }
@@ -77,6 +129,14 @@ function SortableTodoItem({
   onPriorityChange, 
   onAddSubtask, 
   onToggleExpand, 
+  onIndent,
+  onOutdent,
+  onDatesChange,
+  onStartTimer,
+  onStopTimer,
+  isTracking,
+  minutesByTodo,
+  isExpanded,
   priorities, 
   level = 0 
 }: SortableTodoItemProps) {
@@ -127,15 +187,35 @@ function SortableTodoItem({
     return {};
   };
 
-  const completedSubtasks = todo.subtasks.filter(st => st.completed).length;
-  const totalSubtasks = todo.subtasks.length;
+  const { completed: completedSubtasks, total: totalSubtasks } = countSubtasks(todo);
+  // Time logged on this task plus everything logged on its subtasks
+  const ownMinutes = minutesByTodo[todo.id] || 0;
+  const trackedMinutes = rollUp(todo, node => minutesByTodo[node.id] || 0);
+  const dueGroup = todo.completed ? null : getDueGroup(todo);
+  const deferred = !todo.completed && isDeferred(todo);
+
+  // Alt+Shift+→ / ← on a focused row nests it under the previous sibling or lifts it a level.
+  // Tab is left alone so keyboard users can still move past the list
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target !== e.currentTarget || !e.altKey || !e.shiftKey) return;
+    if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      onIndent(todo.id);
+    } else if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      onOutdent(todo.id);
+    }
+  };
 
   return (
-    <div style={{ marginLeft: `${level * 24}px` }}>
+    <div style={{ marginLeft: `${level * INDENTATION_WIDTH}px` }}>
       <Card
         ref={setNodeRef}
         style={style}
-        className={`task-item p-4 ${todo.completed ? "opacity-60" : ""} ${isDragging ? "shadow-lg" : ""} ${level > 0 ? "border-l-4 border-primary/30" : ""}`}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        title="Alt+Shift+→ to indent, Alt+Shift+← to outdent"
+        className={`task-item p-4 focus:outline-none focus:ring-2 focus:ring-primary/50 ${todo.completed || deferred ? "opacity-60" : ""} ${isDragging ? "shadow-lg" : ""} ${level > 0 ? "border-l-4 border-primary/30" : ""}`}
       >
         <div className="flex items-center gap-3">
           <button
@@ -153,7 +233,7 @@ function SortableTodoItem({
               onClick={() => onToggleExpand(todo.id)}
               className="h-6 w-6 p-0"
             >
-              {todo.isExpanded ? (
+              {isExpanded ? (
                 <ChevronDown className="w-3 h-3" />
               ) : (
                 <ChevronRight className="w-3 h-3" />
@@ -188,11 +268,41 @@ function SortableTodoItem({
                 <p className={`text-sm ${todo.completed ? "line-through" : ""}`}>
                   {todo.text}
                 </p>
+                {(dueGroup || deferred || isRecurring(todo)) && (
+                  <div className="flex flex-wrap items-center gap-2 mt-1">
+                    {dueGroup && (
+                      <Badge variant="outline" className={`text-xs ${DUE_BADGE_CLASSES[dueGroup]}`}>
+                        <CalendarClock className="w-3 h-3 mr-1" />
+                        {dueGroup === 'overdue' ? "Overdue: " : "Due "}{formatDue(todo)}
+                        {todo.reminder_minutes != null && <Bell className="w-3 h-3 ml-1" />}
+                      </Badge>
+                    )}
+                    {isRecurring(todo) && (
+                      <span className="text-xs text-muted-foreground flex items-center gap-1">
+                        <Repeat className="w-3 h-3" />
+                        {describeRecurrence(todo)}
+                      </span>
+                    )}
+                    {deferred && (
+                      <span className="text-xs text-muted-foreground">
+                        Starts {format(parseISO(todo.start_date), 'MMM d')}
+                      </span>
+                    )}
+                  </div>
+                )}
                 {totalSubtasks > 0 && (
                   <p className="text-xs text-muted-foreground mt-1">
                     {completedSubtasks}/{totalSubtasks} subtasks completed
                   </p>
                 )}
+                {(trackedMinutes > 0 || isTracking) && (
+                  <p className={`text-xs mt-1 flex items-center gap-1 ${isTracking ? "text-red-500" : "text-muted-foreground"}`}>
+                    <Timer className="w-3 h-3" />
+                    {isTracking && "Tracking now · "}
+                    {formatTrackedTime(trackedMinutes)} tracked
+                    {trackedMinutes !== ownMinutes && ` (${formatTrackedTime(ownMinutes)} on this task)`}
+                  </p>
+                )}
                 {todo.completed && todo.completed_at && (
                   <p className="text-xs text-muted-foreground mt-1">
                     Completed: {new Date(todo.completed_at).toLocaleDateString()}
@@ -234,6 +344,28 @@ function SortableTodoItem({
           </DropdownMenu>
 
           <div className="flex gap-1">
+            {isTracking ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onStopTimer}
+                className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+                title="Stop timer"
+              >
+                <Square className="w-3 h-3" />
+              </Button>
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onStartTimer(todo)}
+                className="h-8 w-8 p-0"
+                title="Start timer"
+                disabled={todo.completed}
+              >
+                <Play className="w-3 h-3" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -243,6 +375,7 @@ function SortableTodoItem({
             >
               <Plus className="w-3 h-3" />
             </Button>
+            <TodoDatesPopover todo={todo} onSave={(dates) => onDatesChange(todo.id, dates)} />
             <Button
               variant="ghost"
               size="sm"
@@ -262,30 +395,6 @@ function SortableTodoItem({
           </div>
         </div>
       </Card>
-
-      {/* Render subtasks if expanded */}
-      {todo.isExpanded && todo.subtasks.length > 0 && (
-        <div className="mt-2 space-y-2">
-          {todo.subtasks.map((subtask) => (
-            <SortableTodoItem
-              key={subtask.id}
-              todo={{
-                ...subtask,
-                subtasks: [],
-                isExpanded: false
-              }}
-              onToggle={onToggle}
-              onDelete={onDelete}
-              onEdit={onEdit}
-              onPriorityChange={onPriorityChange}
-              onAddSubtask={onAddSubtask}
-              onToggleExpand={onToggleExpand}
-              priorities={priorities}
-              level={level + 1}
-            />
-          ))}
-        </div>
-      )}
     </div>
   );
 }
@@ -295,11 +404,18 @@ export function TodoList() {
   const [priorities, setPriorities] = useState<CustomPriority[]>([]);
   const [newTodo, setNewTodo] = useState("");
   const [newPriority, setNewPriority] = useState<string>("medium");
+  const [newDates, setNewDates] = useState<TodoDatesForm>(EMPTY_TODO_DATES);
   const [loading, setLoading] = useState(true);
   const [hideCompleted, setHideCompleted] = useState(true);
   const [expandedTodos, setExpandedTodos] = useState<Set<string>>(new Set());
   const [subtaskModalOpen, setSubtaskModalOpen] = useState(false);
   const [selectedParentTask, setSelectedParentTask] = useState<Todo | null>(null);
+  const [sortMode, setSortMode] = useState<SortMode>(
+    () => (localStorage.getItem('todoSortMode') as SortMode) || 'priority'
+  );
+  const [dragState, setDragState] = useState<{ activeId: string; overId: string; offsetLeft: number } | null>(null);
+  const [minutesByTodo, setMinutesByTodo] = useState<Record<string, number>>({});
+  const { timer, start: startTimer, stop: stopTimer } = useRunningTimer();
 
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -313,6 +429,17 @@ export function TodoList() {
     fetchPriorities();
   }, []);
 
+  useEffect(() => {
+    localStorage.setItem('todoSortMode', sortMode);
+  }, [sortMode]);
+
+  // Totals change whenever a timer starts or stops, here or anywhere else
+  useEffect(() => {
+    fetchMinutesByTodo()
+      .then(setMinutesByTodo)
+      .catch(error => console.error('Error fetching tracked time:', error));
+  }, [timer?.id]);
+
   const fetchTodos = async () => {
     try {
       const { data, error } = await supabase
@@ -370,38 +497,182 @@ export function TodoList() {
     }
   };
 
-  // Organize todos into hierarchical structure
-  const organizeHierarchicalTodos = (): HierarchicalTodo[] => {
-    const parentTodos = todos.filter(todo => !todo.parent_id);
-    
-    return parentTodos.map(parent => {
-      const subtasks = todos
-        .filter(todo => todo.parent_id === parent.id)
-        .sort((a, b) => a.sort_order - b.sort_order);
-      
-      return {
-        ...parent,
-        subtasks,
-        isExpanded: expandedTodos.has(parent.id)
-      };
-    });
+  // Open todos first; priority mode groups by priority order, then the saved manual order applies
+  const compareTodos = (a: Todo, b: Todo) => {
+    if (a.completed !== b.completed) {
+      return a.completed ? 1 : -1;
+    }
+
+    if (sortMode === 'priority') {
+      const sortOrderA = priorities.find(p => p.name === a.priority)?.sort_order ?? 999;
+      const sortOrderB = priorities.find(p => p.name === b.priority)?.sort_order ?? 999;
+
+      if (sortOrderA !== sortOrderB) {
+        return sortOrderA - sortOrderB;
+      }
+    }
+
+    if (a.sort_order !== b.sort_order) {
+      return a.sort_order - b.sort_order;
+    }
+
+    return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
   };
 
-  const handleDragEnd = (event: DragEndEvent) => {
-    const { active, over } = event;
+  const hierarchicalTodos = buildTree(todos, compareTodos);
+  const visibleTodos = hideCompleted
+    ? hierarchicalTodos.filter(todo => !todo.completed)
+    : hierarchicalTodos;
 
-    if (active.id !== over?.id) {
-      setTodos((items) => {
-        const oldIndex = items.findIndex((item) => item.id === active.id);
-        const newIndex = items.findIndex((item) => item.id === over?.id);
+  // While a todo is dragged its own subtree travels with it, so it is left out of the list
+  const draggedSubtree = dragState ? collectDescendantIds(todos, dragState.activeId) : new Set<string>();
+  const flattenedTodos = flattenTree(visibleTodos, id => expandedTodos.has(id))
+    .filter(item => !draggedSubtree.has(item.node.id));
+  const projection = dragState
+    ? getProjection(flattenedTodos, dragState.activeId, dragState.overId, dragState.offsetLeft, INDENTATION_WIDTH)
+    : null;
 
-        return arrayMove(items, oldIndex, newIndex);
+  // Open todos at any depth that are overdue or due within the next week, soonest first
+  const dueSoonTodos = todos
+    .filter(todo => !todo.completed && DUE_SECTION_GROUPS.includes(getDueGroup(todo)))
+    .sort((a, b) => getDueDateTime(a).getTime() - getDueDateTime(b).getTime());
+
+  // Saves a todo's parent and renumbers its (new) siblings in the given order
+  const moveTodo = async (id: string, parentId: string | null, siblingIds: string[]) => {
+    const newSortOrders = new Map(siblingIds.map((siblingId, index) => [siblingId, index]));
+    const isReparented = (todo: Todo) => todo.id === id && (todo.parent_id || null) !== parentId;
+    const changedTodos = todos.filter(todo =>
+      newSortOrders.has(todo.id) && (newSortOrders.get(todo.id) !== todo.sort_order || isReparented(todo))
+    );
+    if (changedTodos.length === 0) return;
+
+    setTodos(todos.map(todo => {
+      if (!newSortOrders.has(todo.id)) return todo;
+      const sort_order = newSortOrders.get(todo.id);
+      return todo.id === id ? { ...todo, parent_id: parentId, sort_order } : { ...todo, sort_order };
+    }));
+    if (parentId) {
+      setExpandedTodos(prev => new Set(prev).add(parentId));
+    }
+
+    const updatesPromises = changedTodos.map(todo =>
+      supabase
+        .from('todos')
+        .update(isReparented(todo)
+          ? { parent_id: parentId, sort_order: newSortOrders.get(todo.id) }
+          : { sort_order: newSortOrders.get(todo.id) })
+        .eq('id', todo.id)
+    );
+
+    try {
+      const results = await Promise.all(updatesPromises);
+      const failed = results.find(result => result.error);
+      if (failed) throw failed.error;
+
+      const movedTodo = changedTodos.find(isReparented);
+      if (movedTodo) {
+        const newParent = todos.find(t => t.id === parentId);
+        toast({
+          title: "Todo moved",
+          description: newParent ? `Now a subtask of "${newParent.text}".` : "Moved to the top level.",
+        });
+      } else {
+        toast({
+          title: "Todo reordered",
+          description: "Your new order has been saved.",
+        });
+      }
+    } catch (error) {
+      console.error('Error moving todo:', error);
+      toast({
+        title: "Error updating order",
+        description: "Failed to save new todo order",
+        variant: "destructive"
       });
+      fetchTodos();
+    }
+  };
+
+  const getSortedChildren = (parentId: string | null, excludeId?: string) =>
+    todos
+      .filter(t => (t.parent_id || null) === parentId && t.id !== excludeId)
+      .sort(compareTodos);
+
+  const indentTodo = (id: string) => {
+    const todo = todos.find(t => t.id === id);
+    if (!todo) return;
+
+    const siblings = getSortedChildren(todo.parent_id || null);
+    const index = siblings.findIndex(t => t.id === id);
+    if (index <= 0) return;
+
+    const newParent = siblings[index - 1];
+    const newSiblingIds = [...getSortedChildren(newParent.id).map(t => t.id), id];
+    moveTodo(id, newParent.id, newSiblingIds);
+  };
+
+  const outdentTodo = (id: string) => {
+    const todo = todos.find(t => t.id === id);
+    const parent = todo?.parent_id ? todos.find(t => t.id === todo.parent_id) : null;
+    if (!parent) return;
+
+    // Lands directly below its former parent
+    const newSiblingIds = getSortedChildren(parent.parent_id || null, id).map(t => t.id);
+    newSiblingIds.splice(newSiblingIds.indexOf(parent.id) + 1, 0, id);
+    moveTodo(id, parent.parent_id || null, newSiblingIds);
+  };
+
+  const handleDragStart = ({ active }: DragStartEvent) => {
+    setDragState({ activeId: active.id as string, overId: active.id as string, offsetLeft: 0 });
+  };
+
+  const handleDragMove = ({ delta }: DragMoveEvent) => {
+    setDragState(prev => prev && { ...prev, offsetLeft: delta.x });
+  };
+
+  const handleDragOver = ({ over }: DragOverEvent) => {
+    setDragState(prev => prev && over ? { ...prev, overId: over.id as string } : prev);
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    const projected = projection;
+    setDragState(null);
+    if (!over || !projected) return;
+
+    const activeTodo = todos.find(t => t.id === active.id);
+    const overTodo = todos.find(t => t.id === over.id);
+    if (!activeTodo || !overTodo) return;
+
+    const parentId = projected.parentId;
+    const isSameParent = (activeTodo.parent_id || null) === parentId;
+    if (isSameParent && active.id === over.id) return;
+
+    if (
+      isSameParent &&
+      sortMode === 'priority' &&
+      (overTodo.parent_id || null) === parentId &&
+      activeTodo.priority !== overTodo.priority
+    ) {
       toast({
-        title: "Todo reordered",
-        description: "Your todo list has been updated.",
+        title: "Can't reorder across priorities",
+        description: "Change the priority or switch to manual order first.",
       });
+      return;
     }
+
+    // Insert after the nearest visible sibling that ends up above the dropped todo
+    const activeIndex = flattenedTodos.findIndex(item => item.node.id === active.id);
+    const overIndex = flattenedTodos.findIndex(item => item.node.id === over.id);
+    const previousSibling = arrayMove(flattenedTodos, activeIndex, overIndex)
+      .slice(0, overIndex)
+      .reverse()
+      .find(item => item.parentId === parentId && item.node.id !== activeTodo.id);
+
+    const newSiblingIds = getSortedChildren(parentId, activeTodo.id).map(t => t.id);
+    const insertAt = previousSibling ? newSiblingIds.indexOf(previousSibling.node.id) + 1 : 0;
+    newSiblingIds.splice(insertAt, 0, activeTodo.id);
+
+    moveTodo(activeTodo.id, parentId, newSiblingIds);
   };
 
   const addTodo = async (parentId?: string) => {
@@ -429,7 +700,8 @@ export function TodoList() {
             completed: false,
             user_id: user.id,
             parent_id: parentId,
-            sort_order: maxSortOrder + 1
+            sort_order: maxSortOrder + 1,
+            ...fromTodoDatesForm(newDates)
           })
           .select()
           .single();
@@ -443,6 +715,7 @@ export function TodoList() {
         } else {
           setTodos([data as Todo, ...todos]);
           setNewTodo("");
+          setNewDates(EMPTY_TODO_DATES);
           toast({
             title: parentId ? "Subtask added" : "Todo added",
             description: `"${data.text}" has been added to your list.`,
@@ -467,7 +740,7 @@ export function TodoList() {
     }
   };
 
-  const addSubtask = async (text: string, priority: string) => {
+  const addSubtask = async (text: string, priority: string, dates: TodoDatesForm) => {
     if (!selectedParentTask) return;
 
     try {
@@ -484,7 +757,8 @@ export function TodoList() {
           completed: false,
           user_id: user.id,
           parent_id: selectedParentTask.id,
-          sort_order: maxSortOrder + 1
+          sort_order: maxSortOrder + 1,
+          ...fromTodoDatesForm(dates)
         })
         .select()
         .single();
@@ -534,6 +808,9 @@ export function TodoList() {
         setTodos(todos.map(todo => 
           todo.id === id ? { ...todo, completed: newCompleted, completed_at: updateData.completed_at } : todo
         ));
+        if (newCompleted && isRecurring(todo)) {
+          scheduleNextOccurrence(id);
+        }
       }
     } catch (error) {
       console.error('Error updating todo:', error);
@@ -545,6 +822,26 @@ export function TodoList() {
     }
   };
 
+  const scheduleNextOccurrence = async (id: string) => {
+    try {
+      const spawned = await spawnNextOccurrence(id);
+      if (spawned.length === 0) return;
+
+      setTodos(prev => [...(spawned as Todo[]), ...prev]);
+      toast({
+        title: "Next occurrence scheduled",
+        description: `"${spawned[0].text}" is due ${formatDue(spawned[0])}.`,
+      });
+    } catch (error) {
+      console.error('Error scheduling next occurrence:', error);
+      toast({
+        title: "Error scheduling next occurrence",
+        description: "The todo was completed but its next occurrence could not be created",
+        variant: "destructive"
+      });
+    }
+  };
+
   const deleteTodo = async (id: string) => {
     const todo = todos.find(t => t.id === id);
     if (!todo) return;
@@ -562,7 +859,9 @@ export function TodoList() {
           variant: "destructive"
         });
       } else {
-        setTodos(todos.filter(todo => todo.id !== id));
+        // Subtasks are removed by the ON DELETE CASCADE on parent_id
+        const removedIds = collectDescendantIds(todos, id).add(id);
+        setTodos(todos.filter(todo => !removedIds.has(todo.id)));
         toast({
           title: "Todo deleted",
           description: `"${todo?.text}" has been removed.`,
@@ -637,6 +936,74 @@ export function TodoList() {
     }
   };
 
+  const updateDates = async (id: string, dates: TodoDatesForm) => {
+    const updateData = fromTodoDatesForm(dates);
+
+    try {
+      const { error } = await supabase
+        .from('todos')
+        .update(updateData)
+        .eq('id', id);
+
+      if (error) {
+        toast({
+          title: "Error updating dates",
+          description: error.message,
+          variant: "destructive",
+        });
+      } else {
+        setTodos(todos.map(t => t.id === id ? { ...t, ...updateData } : t));
+        toast({
+          title: "Dates updated",
+          description: updateData.due_date ? `Due ${formatDue(updateData)}.` : "Due date cleared.",
+        });
+      }
+    } catch (error) {
+      console.error('Error updating dates:', error);
+      toast({
+        title: "Error updating dates",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startTodoTimer = async (todo: Todo) => {
+    try {
+      const { stopped } = await startTimer(todo.text, { todoId: todo.id });
+      toast({
+        title: "Time tracking started",
+        description: stopped ? `${todo.text} (stopped "${stopped.activity}")` : todo.text,
+      });
+    } catch (error) {
+      console.error('Error starting timer:', error);
+      toast({
+        title: "Error starting timer",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const stopTodoTimer = async () => {
+    try {
+      const stopped = await stopTimer();
+      if (stopped) {
+        toast({
+          title: "Time tracking stopped",
+          description: `${stopped.activity} - ${formatTrackedTime(stopped.duration)}`,
+        });
+      }
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+      toast({
+        title: "Error stopping timer",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
   const toggleExpand = (id: string) => {
     setExpandedTodos(prev => {
       const newSet = new Set(prev);
@@ -649,30 +1016,6 @@ export function TodoList() {
     });
   };
 
-  // Sort hierarchical todos by priority order, then by completion status
-  const hierarchicalTodos = organizeHierarchicalTodos();
-  const sortedHierarchicalTodos = [...hierarchicalTodos].sort((a, b) => {
-    if (a.completed !== b.completed) {
-      return a.completed ? 1 : -1;
-    }
-
-    const priorityA = priorities.find(p => p.name === a.priority);
-    const priorityB = priorities.find(p => p.name === b.priority);
-    
-    const sortOrderA = priorityA?.sort_order ?? 999;
-    const sortOrderB = priorityB?.sort_order ?? 999;
-    
-    if (sortOrderA !== sortOrderB) {
-      return sortOrderA - sortOrderB;
-    }
-    
-    return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-  });
-
-  const filteredHierarchicalTodos = hideCompleted 
-    ? sortedHierarchicalTodos.filter(todo => !todo.completed) 
-    : sortedHierarchicalTodos;
-
   const completedCount = todos.filter(todo => todo.completed).length;
   const totalCount = todos.length;
 
@@ -699,6 +1042,16 @@ export function TodoList() {
           </p>
         </div>
         <div className="flex items-center gap-4">
+          <Button
+            variant={sortMode === 'manual' ? "default" : "outline"}
+            size="sm"
+            onClick={() => setSortMode(sortMode === 'manual' ? 'priority' : 'manual')}
+            className="flex items-center gap-2"
+            title="Drag todos to reorder; manual order ignores priority grouping"
+          >
+            {sortMode === 'manual' ? <ListOrdered className="w-4 h-4" /> : <ArrowUpDown className="w-4 h-4" />}
+            {sortMode === 'manual' ? "Manual Order" : "Priority Order"}
+          </Button>
           <Button
             variant={hideCompleted ? "default" : "outline"}
             size="sm"
@@ -737,6 +1090,21 @@ export function TodoList() {
               </option>
             ))}
           </select>
+          <Input
+            type="date"
+            value={newDates.due_date}
+            onChange={(e) => setNewDates({ ...newDates, due_date: e.target.value })}
+            className="w-40"
+            title="Due date"
+          />
+          <Input
+            type="time"
+            value={newDates.due_time}
+            onChange={(e) => setNewDates({ ...newDates, due_time: e.target.value })}
+            disabled={!newDates.due_date}
+            className="w-28"
+            title="Due time"
+          />
           <Button onClick={() => addTodo()} className="flex-shrink-0">
             <Plus className="w-4 h-4 mr-2" />
             Add
@@ -744,31 +1112,71 @@ export function TodoList() {
         </div>
       </Card>
 
+      {dueSoonTodos.length > 0 && (
+        <Card className="p-4 space-y-3">
+          <h3 className="text-sm font-semibold flex items-center gap-2">
+            <CalendarClock className="w-4 h-4" />
+            Due soon
+          </h3>
+          {DUE_SECTION_GROUPS.map((group) => {
+            const groupTodos = dueSoonTodos.filter(todo => getDueGroup(todo) === group);
+            if (groupTodos.length === 0) return null;
+            return (
+              <div key={group} className="space-y-1">
+                <p className={`text-xs font-medium ${group === 'overdue' ? "text-red-600" : "text-muted-foreground"}`}>
+                  {DUE_GROUP_LABELS[group]} ({groupTodos.length})
+                </p>
+                {groupTodos.map((todo) => (
+                  <div key={todo.id} className="flex items-center gap-3 text-sm">
+                    <Checkbox checked={todo.completed} onCheckedChange={() => toggleTodo(todo.id)} />
+                    <span className="flex-1 truncate">{todo.text}</span>
+                    <span className="text-xs text-muted-foreground">{formatDue(todo)}</span>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </Card>
+      )}
+
       <DndContext
         sensors={sensors}
         collisionDetection={closestCenter}
+        onDragStart={handleDragStart}
+        onDragMove={handleDragMove}
+        onDragOver={handleDragOver}
         onDragEnd={handleDragEnd}
+        onDragCancel={() => setDragState(null)}
       >
-        <SortableContext items={filteredHierarchicalTodos.map(todo => todo.id)} strategy={verticalListSortingStrategy}>
+        <SortableContext items={flattenedTodos.map(item => item.node.id)} strategy={verticalListSortingStrategy}>
           <div className="space-y-3">
-            {filteredHierarchicalTodos.map((todo) => (
+            {flattenedTodos.map(({ node, depth }) => (
               <SortableTodoItem
-                key={todo.id}
-                todo={todo}
+                key={node.id}
+                todo={node}
                 onToggle={toggleTodo}
                 onDelete={deleteTodo}
                 onEdit={editTodo}
                 onPriorityChange={updatePriority}
                 onAddSubtask={openSubtaskModal}
                 onToggleExpand={toggleExpand}
+                onIndent={indentTodo}
+                onOutdent={outdentTodo}
+                onDatesChange={updateDates}
+                onStartTimer={startTodoTimer}
+                onStopTimer={stopTodoTimer}
+                isTracking={timer?.todo_id === node.id}
+                minutesByTodo={minutesByTodo}
+                isExpanded={expandedTodos.has(node.id)}
                 priorities={priorities}
+                level={node.id === dragState?.activeId && projection ? projection.depth : depth}
               />
             ))}
           </div>
         </SortableContext>
       </DndContext>
 
-      {filteredHierarchicalTodos.length === 0 && todos.length > 0 && (
+      {visibleTodos.length === 0 && todos.length > 0 && (
         <Card className="p-8 text-center">
           <Filter className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
           <h3 className="text-lg font-semibold mb-2">No tasks match your filter</h3>
@@ -0,0 +1,66 @@
+import { useEffect } from "react";
+import { toast } from "@/hooks/use-toast";
+import { FocusTransition, PHASE_LABELS, advanceFocusSession, getPhaseMinutes } from "@/lib/pomodoro";
+
+const CHECK_INTERVAL = 1000;
+
+const describeTransition = ({ ended, next }: FocusTransition) => {
+  if (!next) {
+    return {
+      title: "Focus session ended",
+      body: `"${ended.activity}" stopped while you were away`,
+    };
+  }
+  if (ended.phase === 'work') {
+    return {
+      title: `${PHASE_LABELS[ended.phase]} done: ${ended.activity}`,
+      body: `${PHASE_LABELS[next.phase]} for ${getPhaseMinutes(next)} minutes`,
+    };
+  }
+  return {
+    title: "Break over",
+    body: `Back to "${next.activity}" for ${getPhaseMinutes(next)} minutes`,
+  };
+};
+
+// Moves the focus session on at each phase boundary, logging finished work intervals and
+// notifying. Mounted once, so the boundaries are handled whichever page is open.
+export function useFocusSessionRunner(userId?: string) {
+  useEffect(() => {
+    if (!userId) return;
+
+    let checking = false;
+    // A failed log is retried every check; report it once until a transition goes through
+    let failureReported = false;
+    const checkSession = async () => {
+      if (checking) return;
+      checking = true;
+      try {
+        const transition = await advanceFocusSession();
+        if (!transition) return;
+
+        failureReported = false;
+        const { title, body } = describeTransition(transition);
+        toast({ title, description: body });
+        if ('Notification' in window && Notification.permission === 'granted') {
+          new Notification(title, { body });
+        }
+      } catch (error) {
+        console.error('Error advancing focus session:', error);
+        if (!failureReported) {
+          failureReported = true;
+          toast({
+            title: "Error logging focus time",
+            description: error.message || "An unexpected error occurred",
+            variant: "destructive"
+          });
+        }
+      } finally {
+        checking = false;
+      }
+    };
+
+    const interval = setInterval(checkSession, CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [userId]);
+}
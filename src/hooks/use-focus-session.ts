@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import { FOCUS_CHANGED_EVENT, FOCUS_SESSION_KEY, getRemainingMs, loadFocusSession } from "@/lib/pomodoro";
+
+// The focus session as stored in this browser, with the time left in the current phase
+// ticking every second. Other tabs' changes arrive through the storage event.
+export function useFocusSession() {
+  const [session, setSession] = useState(loadFocusSession);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const refresh = () => {
+      setSession(loadFocusSession());
+      setNow(Date.now());
+    };
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === FOCUS_SESSION_KEY) refresh();
+    };
+
+    window.addEventListener(FOCUS_CHANGED_EVENT, refresh);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(FOCUS_CHANGED_EVENT, refresh);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!session) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [session]);
+
+  return {
+    session,
+    remaining: session ? getRemainingMs(session, now) : 0,
+  };
+}
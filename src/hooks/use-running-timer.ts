@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  StartTimerOptions,
+  TIMER_CHANGED_EVENT,
+  TimeLogRow,
+  fetchRunningTimer,
+  getElapsedMs,
+  startTimer,
+  stopTimer,
+} from "@/lib/timer";
+
+// The user's running timer, kept in sync across views and devices, with elapsed time
+// that ticks every second while it runs.
+export function useRunningTimer() {
+  const [timer, setTimer] = useState<TimeLogRow | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const refresh = useCallback(async () => {
+    try {
+      setTimer(await fetchRunningTimer());
+      setNow(Date.now());
+    } catch (error) {
+      console.error('Error fetching running timer:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    // Every hook instance needs its own channel name
+    const channel = supabase
+      .channel(`running-timer-${Math.random().toString(36).slice(2)}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'time_logs' }, () => refresh())
+      .subscribe();
+
+    window.addEventListener(TIMER_CHANGED_EVENT, refresh);
+    window.addEventListener('focus', refresh);
+    return () => {
+      supabase.removeChannel(channel);
+      window.removeEventListener(TIMER_CHANGED_EVENT, refresh);
+      window.removeEventListener('focus', refresh);
+    };
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!timer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  const start = useCallback((activity: string, options?: StartTimerOptions) => startTimer(activity, options), []);
+  const stop = useCallback(async () => (timer ? stopTimer(timer) : null), [timer]);
+
+  return {
+    timer,
+    elapsed: timer ? getElapsedMs(timer, now) : 0,
+    start,
+    stop,
+    refresh,
+  };
+}
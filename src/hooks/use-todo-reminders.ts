@@ -0,0 +1,68 @@
+import { useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { formatDue, getReminderTime } from "@/lib/dueDates";
+
+const CHECK_INTERVAL = 60 * 1000;
+const FIRED_STORAGE_KEY = 'firedTodoReminders';
+
+const loadFired = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(FIRED_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+// Polls open todos with a reminder and notifies once per todo and reminder time,
+// so moving a due date re-arms its reminder.
+export function useTodoReminders(userId?: string) {
+  useEffect(() => {
+    if (!userId) return;
+
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission();
+    }
+
+    const checkReminders = async () => {
+      const { data, error } = await supabase
+        .from('todos')
+        .select('id, text, completed, due_date, due_time, reminder_minutes')
+        .eq('completed', false)
+        .not('reminder_minutes', 'is', null)
+        .not('due_date', 'is', null);
+
+      if (error) {
+        console.error('Error checking reminders:', error);
+        return;
+      }
+
+      const now = new Date();
+      const fired = loadFired();
+      const pending = new Set<string>();
+
+      for (const todo of data || []) {
+        const reminderAt = getReminderTime(todo);
+        if (!reminderAt) continue;
+
+        const key = `${todo.id}:${reminderAt.toISOString()}`;
+        pending.add(key);
+        if (reminderAt > now || fired.includes(key)) continue;
+
+        fired.push(key);
+        const description = `Due ${formatDue(todo, now)}`;
+        toast({ title: `Reminder: ${todo.text}`, description });
+        if ('Notification' in window && Notification.permission === 'granted') {
+          new Notification(`Reminder: ${todo.text}`, { body: description });
+        }
+      }
+
+      // Forget reminders for todos that were completed, deleted or rescheduled
+      localStorage.setItem(FIRED_STORAGE_KEY, JSON.stringify(fired.filter(key => pending.has(key))));
+    };
+
+    checkReminders();
+    const interval = setInterval(checkReminders, CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [userId]);
+}
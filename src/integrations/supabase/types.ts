@@ -16,33 +16,71 @@ export type Database = {
     Tables: {
       calendar_events: {
         Row: {
+          all_day: boolean
           created_at: string
           date: string
+          description: string | null
+          end_date: string | null
+          end_time: string | null
+          exdates: string[]
+          ical_uid: string | null
           id: string
+          original_date: string | null
+          recurrence_id: string | null
+          rrule: string | null
+          start_time: string | null
           title: string
           type: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          all_day?: boolean
           created_at?: string
           date: string
+          description?: string | null
+          end_date?: string | null
+          end_time?: string | null
+          exdates?: string[]
+          ical_uid?: string | null
           id?: string
+          original_date?: string | null
+          recurrence_id?: string | null
+          rrule?: string | null
+          start_time?: string | null
           title: string
           type?: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          all_day?: boolean
           created_at?: string
           date?: string
+          description?: string | null
+          end_date?: string | null
+          end_time?: string | null
+          exdates?: string[]
+          ical_uid?: string | null
           id?: string
+          original_date?: string | null
+          recurrence_id?: string | null
+          rrule?: string | null
+          start_time?: string | null
           title?: string
           type?: string
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "calendar_events_recurrence_id_fkey"
+            columns: ["recurrence_id"]
+            isOneToOne: false
+            referencedRelation: "calendar_events"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       custom_priorities: {
         Row: {
@@ -134,13 +172,105 @@ export type Database = {
         }
         Relationships: []
       }
+      projects: {
+        Row: {
+          billable: boolean
+          client: string | null
+          color: string
+          created_at: string
+          hourly_rate: number | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          billable?: boolean
+          client?: string | null
+          color?: string
+          created_at?: string
+          hourly_rate?: number | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          billable?: boolean
+          client?: string | null
+          color?: string
+          created_at?: string
+          hourly_rate?: number | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      terminal_history: {
+        Row: {
+          command: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          command: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          command?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      terminal_scripts: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          kind: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          kind: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       time_logs: {
         Row: {
           activity: string
           created_at: string
           date: string
           duration: number
+          ended_at: string | null
           id: string
+          project_id: string | null
+          started_at: string | null
+          tags: string[]
+          todo_id: string | null
           updated_at: string
           user_id: string
         }
@@ -149,7 +279,12 @@ export type Database = {
           created_at?: string
           date?: string
           duration: number
+          ended_at?: string | null
           id?: string
+          project_id?: string | null
+          started_at?: string | null
+          tags?: string[]
+          todo_id?: string | null
           updated_at?: string
           user_id: string
         }
@@ -158,21 +293,48 @@ export type Database = {
           created_at?: string
           date?: string
           duration?: number
+          ended_at?: string | null
           id?: string
+          project_id?: string | null
+          started_at?: string | null
+          tags?: string[]
+          todo_id?: string | null
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "time_logs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_logs_todo_id_fkey"
+            columns: ["todo_id"]
+            isOneToOne: false
+            referencedRelation: "todos"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       todos: {
         Row: {
           completed: boolean
           completed_at: string | null
           created_at: string
+          due_date: string | null
+          due_time: string | null
+          ical_uid: string | null
           id: string
           parent_id: string | null
           priority: string
+          recurrence_interval: number | null
+          recurrence_rule: string | null
+          reminder_minutes: number | null
           sort_order: number
+          start_date: string | null
           text: string
           updated_at: string
           user_id: string
@@ -181,10 +343,17 @@ export type Database = {
           completed?: boolean
           completed_at?: string | null
           created_at?: string
+          due_date?: string | null
+          due_time?: string | null
+          ical_uid?: string | null
           id?: string
           parent_id?: string | null
           priority?: string
+          recurrence_interval?: number | null
+          recurrence_rule?: string | null
+          reminder_minutes?: number | null
           sort_order?: number
+          start_date?: string | null
           text: string
           updated_at?: string
           user_id: string
@@ -193,10 +362,17 @@ export type Database = {
           completed?: boolean
           completed_at?: string | null
           created_at?: string
+          due_date?: string | null
+          due_time?: string | null
+          ical_uid?: string | null
           id?: string
           parent_id?: string | null
           priority?: string
+          recurrence_interval?: number | null
+          recurrence_rule?: string | null
+          reminder_minutes?: number | null
           sort_order?: number
+          start_date?: string | null
           text?: string
           updated_at?: string
           user_id?: string
@@ -216,6 +392,10 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      event_search_document: {
+        Args: { description: string; title: string }
+        Returns: unknown
+      }
       get_public_profile: {
         Args: { profile_user_id: string }
         Returns: {
@@ -227,6 +407,34 @@ export type Database = {
           user_id: string
         }[]
       }
+      note_search_document: {
+        Args: { content: string; tags: string[]; title: string }
+        Returns: unknown
+      }
+      search_all: {
+        Args: { kinds?: string[]; result_limit?: number; search_query: string }
+        Returns: {
+          date: string
+          headline: string
+          id: string
+          kind: string
+          rank: number
+          snippet: string
+          title: string
+        }[]
+      }
+      time_log_search_document: {
+        Args: { activity: string; tags: string[] }
+        Returns: unknown
+      }
+      to_prefix_tsquery: {
+        Args: { search_query: string }
+        Returns: unknown
+      }
+      todo_search_document: {
+        Args: { text: string }
+        Returns: unknown
+      }
     }
     Enums: {
       [_ in never]: never
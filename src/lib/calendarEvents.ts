@@ -0,0 +1,159 @@
+import {
+  addDays,
+  addMinutes,
+  differenceInCalendarDays,
+  differenceInMinutes,
+  endOfDay,
+  format,
+  isSameDay,
+  parseISO,
+  startOfDay,
+} from "date-fns";
+
+// Timing columns on calendar_events. `date` (and `end_date` for multi-day spans) are always
+// filled in as local calendar days, so date-only queries keep working for timed events too.
+export interface EventTiming {
+  date: string;
+  end_date?: string | null;
+  start_time?: string | null;
+  end_time?: string | null;
+  all_day?: boolean | null;
+}
+
+export interface EventFields {
+  date: string;
+  end_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  all_day: boolean;
+}
+
+export interface DayLayoutItem<T extends EventTiming> {
+  event: T;
+  top: number;
+  height: number;
+  lane: number;
+  lanes: number;
+}
+
+export const SNAP_MINUTES = 15;
+export const DEFAULT_EVENT_MINUTES = 60;
+const MINUTES_PER_DAY = 24 * 60;
+
+const formatDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Rows from before times existed have no start_time and are treated as all-day
+export const isTimed = (event: EventTiming) => !event.all_day && !!event.start_time;
+
+export const getEventStart = (event: EventTiming): Date =>
+  isTimed(event) ? parseISO(event.start_time) : parseISO(event.date);
+
+export const getEventEnd = (event: EventTiming): Date => {
+  if (isTimed(event)) {
+    return event.end_time ? parseISO(event.end_time) : addMinutes(getEventStart(event), DEFAULT_EVENT_MINUTES);
+  }
+  return endOfDay(parseISO(event.end_date || event.date));
+};
+
+// Last calendar day the event touches; a timed event ending at midnight does not spill over
+const getLastDay = (event: EventTiming) => startOfDay(addMinutes(getEventEnd(event), isTimed(event) ? -1 : 0));
+
+export const isMultiDay = (event: EventTiming) => differenceInCalendarDays(getLastDay(event), getEventStart(event)) > 0;
+
+export const eventOccursOn = (event: EventTiming, day: Date) =>
+  getEventStart(event) <= endOfDay(day) && getLastDay(event) >= startOfDay(day);
+
+// Builds the stored columns from a start and end. For all-day events `end` is the last day.
+export const toEventFields = (start: Date, end: Date, allDay: boolean): EventFields => {
+  if (allDay) {
+    const lastDay = end < start ? start : end;
+    return {
+      date: formatDate(start),
+      end_date: isSameDay(start, lastDay) ? null : formatDate(lastDay),
+      start_time: null,
+      end_time: null,
+      all_day: true,
+    };
+  }
+
+  const safeEnd = end > start ? end : addMinutes(start, SNAP_MINUTES);
+  const lastDay = addMinutes(safeEnd, -1);
+  return {
+    date: formatDate(start),
+    end_date: isSameDay(start, lastDay) ? null : formatDate(lastDay),
+    start_time: start.toISOString(),
+    end_time: safeEnd.toISOString(),
+    all_day: false,
+  };
+};
+
+export const moveEvent = (event: EventTiming, minutes: number, days: number): EventFields => {
+  if (!isTimed(event)) {
+    return toEventFields(
+      addDays(parseISO(event.date), days),
+      addDays(parseISO(event.end_date || event.date), days),
+      true
+    );
+  }
+  const shift = (date: Date) => addMinutes(addDays(date, days), minutes);
+  return toEventFields(shift(getEventStart(event)), shift(getEventEnd(event)), false);
+};
+
+export const resizeEvent = (event: EventTiming, minutes: number): EventFields => {
+  const start = getEventStart(event);
+  const end = addMinutes(getEventEnd(event), minutes);
+  return toEventFields(start, end > start ? end : addMinutes(start, SNAP_MINUTES), false);
+};
+
+export const snapMinutes = (minutes: number, step = SNAP_MINUTES) => Math.round(minutes / step) * step;
+
+// Positions the timed events of one day (in minutes from midnight, clipped to the day) and
+// splits overlapping events into side-by-side lanes.
+export const layoutDay = <T extends EventTiming>(events: T[], day: Date): DayLayoutItem<T>[] => {
+  const dayStart = startOfDay(day);
+  const items = events
+    .filter(event => isTimed(event) && eventOccursOn(event, day))
+    .map(event => {
+      const top = Math.max(0, differenceInMinutes(getEventStart(event), dayStart));
+      const bottom = Math.min(MINUTES_PER_DAY, differenceInMinutes(getEventEnd(event), dayStart));
+      return { event, top, height: Math.max(bottom - top, SNAP_MINUTES), lane: 0, lanes: 1 };
+    })
+    .sort((a, b) => a.top - b.top || b.height - a.height);
+
+  let cluster: DayLayoutItem<T>[] = [];
+  let clusterEnd = -1;
+  const closeCluster = () => {
+    const lanes = Math.max(1, ...cluster.map(item => item.lane + 1));
+    cluster.forEach(item => { item.lanes = lanes; });
+    cluster = [];
+  };
+
+  for (const item of items) {
+    if (item.top >= clusterEnd) closeCluster();
+
+    const laneEnds: number[] = [];
+    cluster.forEach(other => {
+      laneEnds[other.lane] = Math.max(laneEnds[other.lane] ?? 0, other.top + other.height);
+    });
+    const freeLane = laneEnds.findIndex(end => end === undefined || end <= item.top);
+    item.lane = freeLane === -1 ? laneEnds.length : freeLane;
+
+    cluster.push(item);
+    clusterEnd = Math.max(clusterEnd, item.top + item.height);
+  }
+  closeCluster();
+
+  return items;
+};
+
+export const formatEventTime = (event: EventTiming) => {
+  const start = getEventStart(event);
+  const end = getEventEnd(event);
+
+  if (!isTimed(event)) {
+    return isMultiDay(event) ? `${format(start, 'MMM d')} – ${format(end, 'MMM d')}` : "All day";
+  }
+  return isMultiDay(event)
+    ? `${format(start, 'MMM d HH:mm')} – ${format(end, 'MMM d HH:mm')}`
+    : `${format(start, 'HH:mm')} – ${format(end, 'HH:mm')}`;
+};
@@ -0,0 +1,137 @@
+import { addDays, differenceInCalendarDays, format, isValid, parse, parseISO, setHours, startOfDay } from "date-fns";
+
+export type DueGroup = 'overdue' | 'today' | 'upcoming' | 'later';
+
+export interface DatedTodo {
+  completed?: boolean;
+  due_date?: string | null;
+  due_time?: string | null;
+  start_date?: string | null;
+  reminder_minutes?: number | null;
+  recurrence_rule?: string | null;
+  recurrence_interval?: number | null;
+}
+
+// Form state for the date fields; empty strings mean "not set"
+export interface TodoDatesForm {
+  due_date: string;
+  due_time: string;
+  start_date: string;
+  reminder_minutes: string;
+  recurrence_rule: string;
+  recurrence_interval: string;
+}
+
+// Column values as stored on the todos table
+export interface TodoDates {
+  due_date: string | null;
+  due_time: string | null;
+  start_date: string | null;
+  reminder_minutes: number | null;
+  recurrence_rule: string | null;
+  recurrence_interval: number | null;
+}
+
+export const EMPTY_TODO_DATES: TodoDatesForm = {
+  due_date: "",
+  due_time: "",
+  start_date: "",
+  reminder_minutes: "",
+  recurrence_rule: "",
+  recurrence_interval: "",
+};
+
+export const REMINDER_OPTIONS: { label: string; minutes: number }[] = [
+  { label: "At due time", minutes: 0 },
+  { label: "15 minutes before", minutes: 15 },
+  { label: "1 hour before", minutes: 60 },
+  { label: "1 day before", minutes: 1440 },
+];
+
+export const DUE_GROUP_LABELS: Record<DueGroup, string> = {
+  overdue: "Overdue",
+  today: "Today",
+  upcoming: "Next 7 days",
+  later: "Later",
+};
+
+// Date-only reminders fire relative to this hour on the due day
+const DEFAULT_REMINDER_HOUR = 9;
+
+export const toTodoDatesForm = (todo: DatedTodo): TodoDatesForm => ({
+  due_date: todo.due_date || "",
+  due_time: todo.due_time ? todo.due_time.slice(0, 5) : "",
+  start_date: todo.start_date || "",
+  reminder_minutes: todo.reminder_minutes != null ? todo.reminder_minutes.toString() : "",
+  recurrence_rule: todo.recurrence_rule || "",
+  recurrence_interval: todo.recurrence_interval != null ? todo.recurrence_interval.toString() : "",
+});
+
+export const fromTodoDatesForm = (form: TodoDatesForm): TodoDates => ({
+  due_date: form.due_date || null,
+  due_time: form.due_date && form.due_time ? form.due_time : null,
+  start_date: form.start_date || null,
+  reminder_minutes: form.due_date && form.reminder_minutes !== "" ? parseInt(form.reminder_minutes) : null,
+  recurrence_rule: form.recurrence_rule || null,
+  recurrence_interval: form.recurrence_rule && parseInt(form.recurrence_interval) > 0 ? parseInt(form.recurrence_interval) : null,
+});
+
+export const getDueDateTime = (todo: DatedTodo): Date | null => {
+  if (!todo.due_date) return null;
+  const date = parseISO(todo.due_date);
+  if (!todo.due_time) return date;
+  return parse(todo.due_time.slice(0, 5), 'HH:mm', date);
+};
+
+export const getDueGroup = (todo: DatedTodo, now = new Date()): DueGroup | null => {
+  const due = getDueDateTime(todo);
+  if (!due) return null;
+
+  const days = differenceInCalendarDays(due, now);
+  if (days < 0 || (todo.due_time && due < now)) return 'overdue';
+  if (days === 0) return 'today';
+  if (days <= 7) return 'upcoming';
+  return 'later';
+};
+
+export const isDeferred = (todo: DatedTodo, now = new Date()) =>
+  !!todo.start_date && parseISO(todo.start_date) > startOfDay(now);
+
+export const getReminderTime = (todo: DatedTodo): Date | null => {
+  if (todo.reminder_minutes == null) return null;
+  const due = getDueDateTime(todo);
+  if (!due) return null;
+
+  const anchor = todo.due_time ? due : setHours(due, DEFAULT_REMINDER_HOUR);
+  return new Date(anchor.getTime() - todo.reminder_minutes * 60000);
+};
+
+export const formatDue = (todo: DatedTodo, now = new Date()) => {
+  const due = getDueDateTime(todo);
+  if (!due) return "";
+
+  const days = differenceInCalendarDays(due, now);
+  const day = days === 0 ? "Today"
+    : days === 1 ? "Tomorrow"
+    : days === -1 ? "Yesterday"
+    : format(due, days > 0 && days < 7 ? "EEEE" : "MMM d");
+  return todo.due_time ? `${day} ${format(due, 'HH:mm')}` : day;
+};
+
+// Accepts 'today', 'tomorrow', '+3d', '+2w', 'YYYY-MM-DD' and 'YYYY-MM-DDTHH:mm' (or with a space)
+export const parseDueInput = (raw: string, now = new Date()): { date: string; time: string | null } | null => {
+  const value = raw.trim().toLowerCase();
+  const relative = value.match(/^\+(\d+)([dw])$/);
+
+  if (value === 'today') return { date: format(now, 'yyyy-MM-dd'), time: null };
+  if (value === 'tomorrow') return { date: format(addDays(now, 1), 'yyyy-MM-dd'), time: null };
+  if (relative) {
+    const days = parseInt(relative[1]) * (relative[2] === 'w' ? 7 : 1);
+    return { date: format(addDays(now, days), 'yyyy-MM-dd'), time: null };
+  }
+
+  const match = value.match(/^(\d{4}-\d{2}-\d{2})(?:[t ](\d{2}:\d{2}))?$/);
+  if (!match || !isValid(parseISO(match[1]))) return null;
+  if (match[2] && !isValid(parse(match[2], 'HH:mm', now))) return null;
+  return { date: match[1], time: match[2] || null };
+};
@@ -0,0 +1,122 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { EventFields, EventTiming, getEventStart, isTimed } from "@/lib/calendarEvents";
+import { RecurringEvent, endSeriesBefore, formatRRule, isFirstOccurrence, moveSeries, parseRRule, splitSeries } from "@/lib/rrule";
+
+// Edits and deletes of one occurrence of a recurring event, applied to that occurrence only,
+// to it and the ones after, or to the whole series. A single occurrence becomes an exdate
+// plus (for edits) a detached event pointing back at the series.
+
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+export const RECURRENCE_SCOPES: RecurrenceScope[] = ['this', 'following', 'all'];
+
+export interface SeriesEvent extends RecurringEvent {
+  id: string;
+  user_id: string;
+  exdates: string[];
+}
+
+export interface SeriesChange extends EventFields {
+  title: string;
+  type: string;
+  description: string | null;
+  rrule: string | null;
+}
+
+type Occurrence = EventTiming & { occurrence_date?: string };
+
+const occurrenceDateOf = (occurrence: Occurrence) =>
+  occurrence.occurrence_date || format(getEventStart(occurrence), 'yyyy-MM-dd');
+
+// "This and following" from the first occurrence is the whole series
+const effectiveScope = (series: SeriesEvent, occurrence: Occurrence, scope: RecurrenceScope) =>
+  scope === 'following' && isFirstOccurrence(series, getEventStart(occurrence)) ? 'all' : scope;
+
+const endSeries = async (series: SeriesEvent, occurrence: Occurrence) => {
+  const allDay = !isTimed(series);
+  const { error } = await supabase
+    .from('calendar_events')
+    .update({ rrule: formatRRule(endSeriesBefore(parseRRule(series.rrule), getEventStart(occurrence), allDay), allDay) })
+    .eq('id', series.id);
+  if (error) throw error;
+};
+
+const skipOccurrence = async (series: SeriesEvent, occurrenceDate: string) => {
+  const { error } = await supabase
+    .from('calendar_events')
+    .update({ exdates: [...series.exdates, occurrenceDate] })
+    .eq('id', series.id);
+  if (error) throw error;
+};
+
+export const deleteOccurrences = async (series: SeriesEvent, occurrence: Occurrence, scope: RecurrenceScope) => {
+  const occurrenceDate = occurrenceDateOf(occurrence);
+  const applied = effectiveScope(series, occurrence, scope);
+
+  if (applied === 'this') {
+    await skipOccurrence(series, occurrenceDate);
+  } else if (applied === 'following') {
+    await endSeries(series, occurrence);
+    const { error } = await supabase
+      .from('calendar_events')
+      .delete()
+      .eq('recurrence_id', series.id)
+      .gte('original_date', occurrenceDate);
+    if (error) throw error;
+  } else {
+    // Detached occurrences go with it (ON DELETE CASCADE)
+    const { error } = await supabase
+      .from('calendar_events')
+      .delete()
+      .eq('id', series.id);
+    if (error) throw error;
+  }
+};
+
+export const updateOccurrences = async (
+  series: SeriesEvent,
+  occurrence: Occurrence,
+  scope: RecurrenceScope,
+  change: SeriesChange
+) => {
+  const occurrenceDate = occurrenceDateOf(occurrence);
+  const occurrenceStart = getEventStart(occurrence);
+  const applied = effectiveScope(series, occurrence, scope);
+  const { rrule, ...values } = change;
+
+  if (applied === 'this') {
+    await skipOccurrence(series, occurrenceDate);
+    const { error } = await supabase
+      .from('calendar_events')
+      .insert({
+        ...values,
+        rrule: null,
+        recurrence_id: series.id,
+        original_date: occurrenceDate,
+        user_id: series.user_id,
+      });
+    if (error) throw error;
+  } else if (applied === 'following') {
+    await endSeries(series, occurrence);
+    const { data, error } = await supabase
+      .from('calendar_events')
+      .insert({ ...values, ...splitSeries(series, occurrenceStart, values, rrule), user_id: series.user_id })
+      .select()
+      .single();
+    if (error) throw error;
+    // Occurrences already edited on their own now belong to the new series
+    const { error: detachedError } = await supabase
+      .from('calendar_events')
+      .update({ recurrence_id: data.id })
+      .eq('recurrence_id', series.id)
+      .gte('original_date', occurrenceDate);
+    if (detachedError) throw detachedError;
+  } else {
+    const { error } = await supabase
+      .from('calendar_events')
+      .update({ ...values, ...moveSeries(series, occurrenceStart, values, rrule) })
+      .eq('id', series.id);
+    if (error) throw error;
+  }
+};
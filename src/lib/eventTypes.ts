@@ -0,0 +1,18 @@
+export const DEFAULT_EVENT_TYPES = ["meeting", "deadline", "reminder"];
+
+export const getEventTypeColor = (type: string) => {
+  switch (type) {
+    case "meeting": return "bg-blue-100 text-blue-800 border-blue-200";
+    case "deadline": return "bg-red-100 text-red-800 border-red-200";
+    case "reminder": return "bg-green-100 text-green-800 border-green-200";
+    default: return "bg-gray-100 text-gray-800 border-gray-200";
+  }
+};
+
+// Built-in types first, then any custom types already in use
+export const collectEventTypes = (events: { type: string }[]) => [
+  ...DEFAULT_EVENT_TYPES,
+  ...Array.from(new Set(events.map(event => event.type)))
+    .filter(type => type && !DEFAULT_EVENT_TYPES.includes(type))
+    .sort(),
+];
@@ -0,0 +1,589 @@
+import { addDays, addMinutes, format, getHours, getMinutes, parseISO, setHours, setMinutes, subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { EventFields, formatEventTime, getEventEnd, getEventStart, isTimed, toEventFields, DEFAULT_EVENT_MINUTES } from "@/lib/calendarEvents";
+import { formatDue } from "@/lib/dueDates";
+import { formatRRule, parseRRule } from "@/lib/rrule";
+import { downloadFile } from "@/lib/utils";
+
+// iCalendar (RFC 5545) export and import for calendar events (VEVENT) and dated todos (VTODO).
+// Rows exported from here carry a UID derived from their id; imported rows remember the UID
+// they came with in `ical_uid`, so importing the same file twice finds the duplicates.
+
+type CalendarEventRow = Tables<'calendar_events'>;
+type TodoRow = Tables<'todos'>;
+
+export interface IcsEvent extends EventFields {
+  uid: string;
+  title: string;
+  description: string | null;
+  type: string;
+  rrule: string | null;
+  exdates: string[];
+  // From RECURRENCE-ID: this VEVENT replaces one occurrence of the series with the same UID
+  original_date: string | null;
+}
+
+export interface IcsTodo {
+  uid: string;
+  text: string;
+  priority: string;
+  completed: boolean;
+  completed_at: string | null;
+  due_date: string | null;
+  due_time: string | null;
+  start_date: string | null;
+  reminder_minutes: number | null;
+}
+
+export interface ParsedCalendar {
+  events: IcsEvent[];
+  todos: IcsTodo[];
+  // Human-readable notes about components that were dropped or simplified
+  warnings: string[];
+}
+
+export type ImportItem =
+  | { kind: 'event'; key: string; data: IcsEvent; existingId: string | null }
+  | { kind: 'todo'; key: string; data: IcsTodo; existingId: string | null };
+
+export interface ImportPlan {
+  items: ImportItem[];
+  warnings: string[];
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+}
+
+const PRODID = '-//Terminal Time//Calendar//EN';
+const UID_DOMAIN = 'terminal-time';
+const PRIORITY_PROPERTY = 'X-TERMINAL-TIME-PRIORITY';
+const SUPPORTED_RRULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT', 'UNTIL', 'WKST'];
+
+// Standard PRIORITY values (1 = highest, 9 = lowest) for the built-in priorities
+const PRIORITY_VALUES: Record<string, number> = { high: 1, medium: 5, low: 9 };
+
+export const exportUid = (row: { id: string; ical_uid?: string | null }) => row.ical_uid || `${row.id}@${UID_DOMAIN}`;
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+// Content lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldLine = (line: string) => {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (chunks.length ? 74 : 75)) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+const formatDateValue = (date: Date) => format(date, 'yyyyMMdd');
+
+// A date (all-day) or an instant in UTC, as a property with the matching VALUE parameter
+const dateProperty = (name: string, date: Date, dateOnly: boolean) =>
+  dateOnly ? `${name};VALUE=DATE:${formatDateValue(date)}` : `${name}:${formatUtc(date)}`;
+
+// The start of a series occurrence on the given day: all-day, or at the series' time of day
+const occurrenceStart = (series: CalendarEventRow, day: string) => {
+  const start = getEventStart(series);
+  return setMinutes(setHours(parseISO(day), getHours(start)), getMinutes(start));
+};
+
+const eventLines = (event: CalendarEventRow, series: CalendarEventRow | undefined): string[] => {
+  const allDay = !isTimed(event);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${escapeText(exportUid(series || event))}`,
+    `DTSTAMP:${formatUtc(new Date(event.updated_at))}`,
+    dateProperty('DTSTART', getEventStart(event), allDay),
+    // DTEND is exclusive, so an all-day event ends at the start of the day after its last day
+    allDay
+      ? dateProperty('DTEND', addDays(parseISO(event.end_date || event.date), 1), true)
+      : dateProperty('DTEND', getEventEnd(event), false),
+    `SUMMARY:${escapeText(event.title)}`,
+    `CATEGORIES:${escapeText(event.type)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (series && event.original_date) {
+    lines.push(dateProperty('RECURRENCE-ID', occurrenceStart(series, event.original_date), !isTimed(series)));
+  }
+  const rule = parseRRule(event.rrule);
+  if (rule) {
+    lines.push(`RRULE:${formatRRule(rule, allDay)}`);
+    event.exdates.forEach(exdate => lines.push(dateProperty('EXDATE', occurrenceStart(event, exdate), allDay)));
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+const todoLines = (todo: TodoRow): string[] => {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${escapeText(exportUid(todo))}`,
+    `DTSTAMP:${formatUtc(new Date(todo.updated_at))}`,
+    `SUMMARY:${escapeText(todo.text)}`,
+    `STATUS:${todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+    `${PRIORITY_PROPERTY}:${escapeText(todo.priority)}`,
+  ];
+
+  if (PRIORITY_VALUES[todo.priority]) {
+    lines.push(`PRIORITY:${PRIORITY_VALUES[todo.priority]}`);
+  }
+  if (todo.start_date) {
+    lines.push(dateProperty('DTSTART', parseISO(todo.start_date), true));
+  }
+  if (todo.due_date) {
+    // Due times are wall-clock times, so they are written as floating local times
+    lines.push(todo.due_time
+      ? `DUE:${format(parseISO(`${todo.due_date}T${todo.due_time}`), "yyyyMMdd'T'HHmmss")}`
+      : dateProperty('DUE', parseISO(todo.due_date), true));
+  }
+  if (todo.completed && todo.completed_at) {
+    lines.push(`COMPLETED:${formatUtc(new Date(todo.completed_at))}`);
+  }
+  if (todo.due_date && todo.reminder_minutes !== null) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(todo.text)}`,
+      `TRIGGER:-PT${todo.reminder_minutes}M`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VTODO');
+  return lines;
+};
+
+export const buildCalendar = (events: CalendarEventRow[], todos: TodoRow[]): string => {
+  const byId = new Map(events.map(event => [event.id, event]));
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    ...events.flatMap(event => eventLines(event, event.recurrence_id ? byId.get(event.recurrence_id) : undefined)),
+    ...todos.flatMap(todoLines),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  name: string;
+  properties: ContentLine[];
+  children: Component[];
+}
+
+interface IcsDate {
+  date: Date;
+  dateOnly: boolean;
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const parseContentLine = (line: string): ContentLine | null => {
+  // Parameter values may be quoted and contain ':' or ';'
+  let index = 0;
+  let inQuotes = false;
+  const separators: number[] = [];
+  for (; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && char === ';') separators.push(index);
+    else if (!inQuotes && char === ':') break;
+  }
+  if (index >= line.length) return null;
+
+  const segments: string[] = [];
+  let from = 0;
+  for (const separator of separators) {
+    segments.push(line.slice(from, separator));
+    from = separator + 1;
+  }
+  segments.push(line.slice(from, index));
+  const [name, ...params] = segments;
+
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(params.map(param => {
+      const [key, ...rest] = param.split('=');
+      return [key.toUpperCase(), rest.join('=').replace(/^"|"$/g, '')];
+    })),
+    value: line.slice(index + 1),
+  };
+};
+
+const parseComponents = (text: string): Component[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim());
+  const root: Component = { name: 'ROOT', properties: [], children: [] };
+  const stack = [root];
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+    const current = stack[stack.length - 1];
+
+    if (line.name === 'BEGIN') {
+      const child: Component = { name: line.value.trim().toUpperCase(), properties: [], children: [] };
+      current.children.push(child);
+      stack.push(child);
+    } else if (line.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(line);
+    }
+  }
+
+  return root.children.flatMap(child => child.name === 'VCALENDAR' ? child.children : [child]);
+};
+
+// UTC offset of a time zone at the given instant, in milliseconds
+const zoneOffset = (instant: number, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(new Date(instant)).map(part => [part.type, part.value])
+  );
+  return Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second) - instant;
+};
+
+const parseDate = (value: string, params: Record<string, string>): IcsDate | null => {
+  const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly || params.VALUE === 'DATE') {
+    const [, y, m, d] = dateOnly || value.match(/^(\d{4})(\d{2})(\d{2})/) || [];
+    return y ? { date: new Date(+y, +m - 1, +d), dateOnly: true } : null;
+  }
+
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const wallClock = Date.UTC(+y, +mo - 1, +d, +h, +mi, +s);
+
+  if (utc) return { date: new Date(wallClock), dateOnly: false };
+  if (params.TZID) {
+    try {
+      // Two passes so times next to a DST change land on the right offset
+      const guess = wallClock - zoneOffset(wallClock, params.TZID);
+      return { date: new Date(wallClock - zoneOffset(guess, params.TZID)), dateOnly: false };
+    } catch {
+      // Unknown zone names (e.g. Windows ones) fall through to local time
+    }
+  }
+  // Floating time: the same wall-clock time wherever the calendar is opened
+  return { date: new Date(+y, +mo - 1, +d, +h, +mi, +s), dateOnly: false };
+};
+
+// ISO 8601 durations as used by DURATION and TRIGGER, in minutes (e.g. -PT15M, P1D, P1W)
+const parseDuration = (value: string): number | null => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = (+weeks || 0) * 10080 + (+days || 0) * 1440 + (+hours || 0) * 60 + (+minutes || 0) + Math.round((+seconds || 0) / 60);
+  return sign === '-' ? -total : total;
+};
+
+const getProperty = (component: Component, name: string) => component.properties.find(p => p.name === name);
+const getText = (component: Component, name: string) => {
+  const property = getProperty(component, name);
+  return property ? unescapeText(property.value).trim() : null;
+};
+const getDate = (component: Component, name: string) => {
+  const property = getProperty(component, name);
+  return property ? parseDate(property.value.trim(), property.params) : null;
+};
+const formatDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const parseRecurrence = (component: Component, allDay: boolean, title: string, warnings: string[]) => {
+  const property = getProperty(component, 'RRULE');
+  if (!property) return null;
+
+  const keys = property.value.split(';').map(part => part.split('=')[0].trim().toUpperCase());
+  const rule = keys.every(key => SUPPORTED_RRULE_PARTS.includes(key)) ? parseRRule(property.value) : null;
+  if (!rule) {
+    warnings.push(`"${title}": unsupported repeat rule (${property.value}), imported as a single event`);
+    return null;
+  }
+  return formatRRule(rule, allDay);
+};
+
+const parseEvent = (component: Component, warnings: string[]): IcsEvent | null => {
+  const title = getText(component, 'SUMMARY') || 'Untitled event';
+  const uid = getText(component, 'UID');
+  const start = getDate(component, 'DTSTART');
+  if (!uid || !start) {
+    warnings.push(`"${title}": missing ${uid ? 'DTSTART' : 'UID'}, skipped`);
+    return null;
+  }
+  if (getText(component, 'STATUS')?.toUpperCase() === 'CANCELLED') {
+    warnings.push(`"${title}": cancelled, skipped`);
+    return null;
+  }
+
+  const allDay = start.dateOnly;
+  const endProperty = getDate(component, 'DTEND');
+  const duration = parseDuration(getText(component, 'DURATION') || '');
+  let end: Date;
+  if (endProperty) {
+    end = endProperty.date;
+  } else if (duration !== null) {
+    end = addMinutes(start.date, duration);
+  } else {
+    end = allDay ? addDays(start.date, 1) : addMinutes(start.date, DEFAULT_EVENT_MINUTES);
+  }
+
+  const recurrenceId = getDate(component, 'RECURRENCE-ID');
+  const exdates = component.properties
+    .filter(p => p.name === 'EXDATE')
+    .flatMap(p => p.value.split(',').map(value => parseDate(value.trim(), p.params)))
+    .filter(Boolean)
+    .map(exdate => formatDay(exdate.date));
+
+  return {
+    // All-day DTEND is exclusive; toEventFields wants the last day
+    ...toEventFields(start.date, allDay ? subDays(end, 1) : end, allDay),
+    uid,
+    title,
+    description: getText(component, 'DESCRIPTION') || null,
+    type: (getText(component, 'CATEGORIES')?.split(',')[0] || 'meeting').trim().toLowerCase() || 'meeting',
+    rrule: recurrenceId ? null : parseRecurrence(component, allDay, title, warnings),
+    exdates: Array.from(new Set(exdates)),
+    original_date: recurrenceId ? formatDay(recurrenceId.date) : null,
+  };
+};
+
+const parsePriority = (component: Component) => {
+  const named = getText(component, PRIORITY_PROPERTY);
+  if (named) return named;
+  const value = parseInt(getText(component, 'PRIORITY') || '');
+  if (!(value > 0)) return 'medium';
+  return value < 5 ? 'high' : value === 5 ? 'medium' : 'low';
+};
+
+const parseTodo = (component: Component, warnings: string[]): IcsTodo | null => {
+  const text = getText(component, 'SUMMARY') || 'Untitled task';
+  const uid = getText(component, 'UID');
+  if (!uid) {
+    warnings.push(`"${text}": missing UID, skipped`);
+    return null;
+  }
+
+  const due = getDate(component, 'DUE');
+  const start = getDate(component, 'DTSTART');
+  const completedAt = getDate(component, 'COMPLETED');
+  const trigger = component.children
+    .filter(child => child.name === 'VALARM')
+    .map(alarm => parseDuration(getText(alarm, 'TRIGGER') || ''))
+    .find(minutes => minutes !== null && minutes <= 0);
+
+  return {
+    uid,
+    text,
+    priority: parsePriority(component),
+    completed: getText(component, 'STATUS')?.toUpperCase() === 'COMPLETED' || !!completedAt,
+    completed_at: completedAt ? completedAt.date.toISOString() : null,
+    due_date: due ? formatDay(due.date) : null,
+    due_time: due && !due.dateOnly ? format(due.date, 'HH:mm:ss') : null,
+    start_date: start ? formatDay(start.date) : null,
+    reminder_minutes: due && trigger !== undefined ? -trigger : null,
+  };
+};
+
+export const parseCalendar = (text: string): ParsedCalendar => {
+  const warnings: string[] = [];
+  const components = parseComponents(text);
+
+  return {
+    events: components.filter(c => c.name === 'VEVENT').map(c => parseEvent(c, warnings)).filter(Boolean),
+    todos: components.filter(c => c.name === 'VTODO').map(c => parseTodo(c, warnings)).filter(Boolean),
+    warnings,
+  };
+};
+
+// Exceptions to a series share its UID, so events are matched on UID plus the replaced occurrence
+const eventKey = (uid: string, originalDate: string | null) => originalDate ? `${uid}#${originalDate}` : uid;
+
+const fetchExistingKeys = async () => {
+  const [{ data: events, error: eventsError }, { data: todos, error: todosError }] = await Promise.all([
+    supabase.from('calendar_events').select('id, ical_uid, recurrence_id, original_date'),
+    supabase.from('todos').select('id, ical_uid'),
+  ]);
+  if (eventsError) throw eventsError;
+  if (todosError) throw todosError;
+
+  const eventsById = new Map(events.map(event => [event.id, event]));
+  const eventKeys = new Map(events.map(event => {
+    const series = event.recurrence_id ? eventsById.get(event.recurrence_id) : undefined;
+    return [eventKey(exportUid(series && !event.ical_uid ? series : event), event.original_date), event.id];
+  }));
+  const todoKeys = new Map(todos.map(todo => [exportUid(todo), todo.id]));
+  return { eventKeys, todoKeys };
+};
+
+// Parses a file and marks every event and todo as new or as a duplicate of an existing row
+export const planImport = async (text: string): Promise<ImportPlan> => {
+  const { events, todos, warnings } = parseCalendar(text);
+  const { eventKeys, todoKeys } = await fetchExistingKeys();
+
+  const items: ImportItem[] = [
+    ...events.map((data): ImportItem => {
+      const key = eventKey(data.uid, data.original_date);
+      return { kind: 'event', key, data, existingId: eventKeys.get(key) ?? null };
+    }),
+    ...todos.map((data): ImportItem => ({ kind: 'todo', key: data.uid, data, existingId: todoKeys.get(data.uid) ?? null })),
+  ];
+
+  return { items, warnings };
+};
+
+export const describeImportItem = (item: ImportItem) => {
+  if (item.kind === 'event') {
+    return `${format(getEventStart(item.data), 'MMM d, yyyy')} · ${formatEventTime(item.data)}${item.data.rrule ? ' · repeats' : ''}`;
+  }
+  if (item.data.due_date) return `Due ${formatDue(item.data)}`;
+  // Todos from other apps often have neither DUE nor DTSTART
+  return item.data.start_date ? `Starts ${format(parseISO(item.data.start_date), 'MMM d, yyyy')}` : "No date";
+};
+
+// Creates the new items and overwrites the duplicates among `items`. Series are written
+// before their exceptions so each exception can point at (and be excluded from) its series.
+export const applyImport = async (items: ImportItem[]): Promise<ImportResult> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('You must be logged in to import');
+
+  const result: ImportResult = { created: 0, updated: 0 };
+  const seriesIds = new Map<string, string>();
+  const { eventKeys } = await fetchExistingKeys();
+
+  const saveEvent = async (values: Omit<TablesInsert<'calendar_events'>, 'user_id'>, existingId: string | null) => {
+    if (existingId) {
+      const { error } = await supabase.from('calendar_events').update(values).eq('id', existingId);
+      if (error) throw error;
+      result.updated++;
+      return existingId;
+    }
+    const { data, error } = await supabase
+      .from('calendar_events')
+      .insert({ ...values, user_id: user.id })
+      .select('id')
+      .single();
+    if (error) throw error;
+    result.created++;
+    return data.id;
+  };
+
+  const events = items.filter((item): item is Extract<ImportItem, { kind: 'event' }> => item.kind === 'event');
+  for (const { data, existingId } of events.filter(item => !item.data.original_date)) {
+    const { uid, original_date: _original, ...values } = data;
+    seriesIds.set(uid, await saveEvent({ ...values, ical_uid: uid }, existingId));
+  }
+
+  for (const { data, existingId } of events.filter(item => item.data.original_date)) {
+    const { uid, original_date, ...values } = data;
+    const seriesId = seriesIds.get(uid) ?? eventKeys.get(uid);
+    if (!seriesId) {
+      // The series itself isn't in the file or the calendar, so keep the occurrence on its own
+      await saveEvent({ ...values, ical_uid: uid }, existingId);
+      continue;
+    }
+
+    await saveEvent({ ...values, rrule: null, exdates: [], ical_uid: uid, recurrence_id: seriesId, original_date }, existingId);
+    const { data: series, error } = await supabase.from('calendar_events').select('exdates').eq('id', seriesId).single();
+    if (error) throw error;
+    if (!series.exdates.includes(original_date)) {
+      const { error: updateError } = await supabase
+        .from('calendar_events')
+        .update({ exdates: [...series.exdates, original_date] })
+        .eq('id', seriesId);
+      if (updateError) throw updateError;
+    }
+  }
+
+  const todos = items.filter((item): item is Extract<ImportItem, { kind: 'todo' }> => item.kind === 'todo');
+  const newTodos = todos.filter(item => !item.existingId);
+  if (newTodos.length > 0) {
+    const { error } = await supabase
+      .from('todos')
+      .insert(newTodos.map(({ data: { uid, ...values } }) => ({ ...values, ical_uid: uid, user_id: user.id })));
+    if (error) throw error;
+    result.created += newTodos.length;
+  }
+  for (const { data: { uid: _uid, ...values }, existingId } of todos.filter(item => item.existingId)) {
+    const { error } = await supabase.from('todos').update(values).eq('id', existingId);
+    if (error) throw error;
+    result.updated++;
+  }
+
+  return result;
+};
+
+// Everything on the calendar plus the todos that have a due or start date
+export const exportCalendar = async (includeTodos = true) => {
+  const { data: events, error } = await supabase
+    .from('calendar_events')
+    .select('*')
+    .order('date', { ascending: true });
+  if (error) throw error;
+
+  let todos: TodoRow[] = [];
+  if (includeTodos) {
+    const { data, error: todosError } = await supabase
+      .from('todos')
+      .select('*')
+      .or('due_date.not.is.null,start_date.not.is.null')
+      .order('due_date', { ascending: true });
+    if (todosError) throw todosError;
+    todos = data || [];
+  }
+
+  return { ics: buildCalendar(events || [], todos), events: events?.length || 0, todos: todos.length };
+};
+
+export const downloadIcs = (ics: string, filename = `calendar-${format(new Date(), 'yyyy-MM-dd')}.ics`) =>
+  downloadFile(ics, 'text/calendar;charset=utf-8', filename);
+
+// Resolves with the file's text, or null if the picker was dismissed
+export const pickIcsFile = () => new Promise<{ name: string; text: string } | null>((resolve) => {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.accept = '.ics,text/calendar';
+  input.addEventListener('change', async () => {
+    const file = input.files?.[0];
+    resolve(file ? { name: file.name, text: await file.text() } : null);
+  });
+  input.addEventListener('cancel', () => resolve(null));
+  input.click();
+});
@@ -0,0 +1,156 @@
+import { addHours, addMinutes, differenceInMinutes, max } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { toEntryFields } from "@/lib/timeEntries";
+import { TimeLogRow, startTimer, stopTimer } from "@/lib/timer";
+
+// Time a running timer counted while nobody was working: the browser saw no input for a
+// while, or the timer ran past the configured limit. It is only taken out of the entry once
+// the user decides what it was.
+
+export interface IdleSettings {
+  enabled: boolean;
+  idleMinutes: number;
+  maxTimerHours: number;
+}
+
+export type IdleReason = 'idle' | 'limit';
+
+export interface IdlePeriod {
+  timerId: string;
+  from: Date;
+  to: Date;
+  reason: IdleReason;
+}
+
+export type IdleResolution = 'keep' | 'discard' | 'split';
+
+export const DEFAULT_IDLE_SETTINGS: IdleSettings = {
+  enabled: true,
+  idleMinutes: 10,
+  maxTimerHours: 8,
+};
+
+const IDLE_SETTINGS_KEY = 'idleSettings';
+const LAST_ACTIVITY_KEY = 'lastActivityAt';
+// Idle time the user chose to keep, so it is not asked about again
+const RESOLVED_KEY = 'idleResolved';
+
+// Input is frequent; storing it once in a while is precise enough
+const ACTIVITY_WRITE_INTERVAL = 15 * 1000;
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const loadIdleSettings = (): IdleSettings => ({
+  ...DEFAULT_IDLE_SETTINGS,
+  ...readJson<Partial<IdleSettings>>(IDLE_SETTINGS_KEY),
+});
+
+export const saveIdleSettings = (settings: IdleSettings) => {
+  localStorage.setItem(IDLE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Shared by every tab, so input in any of them counts
+export const getLastActivity = () => {
+  const stored = localStorage.getItem(LAST_ACTIVITY_KEY);
+  return stored ? new Date(stored) : null;
+};
+
+// Records input now and returns when the previous input was seen
+export const recordActivity = (now = new Date()) => {
+  const previous = getLastActivity();
+  if (!previous || now.getTime() - previous.getTime() >= ACTIVITY_WRITE_INTERVAL) {
+    localStorage.setItem(LAST_ACTIVITY_KEY, now.toISOString());
+  }
+  return previous;
+};
+
+const getResolvedUntil = (timerId: string) => {
+  const resolved = readJson<{ timerId: string; until: string }>(RESOLVED_KEY);
+  return resolved?.timerId === timerId ? new Date(resolved.until) : null;
+};
+
+const markResolved = (period: IdlePeriod) => {
+  localStorage.setItem(RESOLVED_KEY, JSON.stringify({ timerId: period.timerId, until: period.to.toISOString() }));
+};
+
+// The idle time in a running timer that the user has not decided about yet, if any.
+// `lastActivity` is the last input before now.
+export const findIdlePeriod = (
+  timer: TimeLogRow,
+  lastActivity: Date | null,
+  now = new Date(),
+  settings = loadIdleSettings()
+): IdlePeriod | null => {
+  if (!settings.enabled) return null;
+
+  const startedAt = new Date(timer.started_at);
+  const resolvedUntil = getResolvedUntil(timer.id);
+
+  if (lastActivity) {
+    const from = max([lastActivity, startedAt, resolvedUntil || startedAt]);
+    if (differenceInMinutes(now, from) >= settings.idleMinutes) {
+      return { timerId: timer.id, from, to: now, reason: 'idle' };
+    }
+  }
+
+  // A timer is only flagged for running too long once; keeping it means it was real work
+  const limit = addHours(startedAt, settings.maxTimerHours);
+  if (!resolvedUntil && limit < now) {
+    return { timerId: timer.id, from: limit, to: now, reason: 'limit' };
+  }
+  return null;
+};
+
+export const idleMinutes = (period: Pick<IdlePeriod, 'from' | 'to'>) => differenceInMinutes(period.to, period.from);
+
+export interface ResolveIdleOptions {
+  // Activity for the idle time when it is split off into its own entry
+  splitActivity?: string;
+  // Start the timer again from the end of the idle time
+  keepRunning?: boolean;
+}
+
+// Applies the user's decision. Keeping leaves the timer untouched; discarding ends the entry
+// where the idle time began; splitting does the same and logs the idle time separately.
+// Resolves with the stopped timer row, if the timer was stopped.
+export const resolveIdleTime = async (
+  timer: TimeLogRow,
+  period: IdlePeriod,
+  resolution: IdleResolution,
+  { splitActivity, keepRunning = false }: ResolveIdleOptions = {}
+) => {
+  if (resolution === 'keep') {
+    markResolved(period);
+    return keepRunning ? null : stopTimer(timer, period.to);
+  }
+
+  const stopped = await stopTimer(timer, period.from);
+  if (!stopped) return null;
+
+  if (resolution === 'split') {
+    const { error } = await supabase
+      .from('time_logs')
+      .insert({
+        ...toEntryFields(period.from, max([period.to, addMinutes(period.from, 1)])),
+        activity: splitActivity || 'Away',
+        user_id: stopped.user_id,
+      });
+    if (error) throw error;
+  }
+
+  if (keepRunning) {
+    await startTimer(stopped.activity, {
+      startedAt: period.to,
+      todoId: stopped.todo_id,
+      projectId: stopped.project_id,
+      tags: stopped.tags,
+    });
+  }
+  return stopped;
+};
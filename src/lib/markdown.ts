@@ -0,0 +1,152 @@
+// Editing helpers for the Markdown stored in notes.content. Each one takes the text and the
+// textarea selection and returns the new text with the selection to restore.
+
+export type InlineFormat = 'bold' | 'italic' | 'strikethrough' | 'code';
+export type LineFormat = 'heading' | 'quote' | 'bullet' | 'numbered' | 'task';
+export type MarkdownFormat = InlineFormat | LineFormat | 'link' | 'codeblock';
+
+export interface TextEdit {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const INLINE_MARKERS: Record<InlineFormat, { marker: string; placeholder: string }> = {
+  bold: { marker: '**', placeholder: 'bold text' },
+  italic: { marker: '_', placeholder: 'italic text' },
+  strikethrough: { marker: '~~', placeholder: 'struck text' },
+  code: { marker: '`', placeholder: 'code' },
+};
+
+const LINE_PREFIXES: Record<LineFormat, { pattern: RegExp; prefix: (index: number) => string }> = {
+  heading: { pattern: /^#{1,6}\s+/, prefix: () => '## ' },
+  quote: { pattern: /^>\s?/, prefix: () => '> ' },
+  bullet: { pattern: /^[-*+]\s+(?!\[[ xX]\])/, prefix: () => '- ' },
+  numbered: { pattern: /^\d+[.)]\s+/, prefix: (index) => `${index + 1}. ` },
+  task: { pattern: /^[-*+]\s+\[[ xX]\]\s+/, prefix: () => '- [ ] ' },
+};
+
+// A list item with a checkbox: "- [ ] text", "* [x] text", "1. [ ] text"
+const TASK_ITEM = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\])/;
+
+const wrapInline = (text: string, start: number, end: number, format: InlineFormat): TextEdit => {
+  const { marker, placeholder } = INLINE_MARKERS[format];
+  const before = text.slice(0, start);
+  const after = text.slice(end);
+
+  // Already wrapped: take the markers off again
+  if (before.endsWith(marker) && after.startsWith(marker)) {
+    return {
+      text: before.slice(0, -marker.length) + text.slice(start, end) + after.slice(marker.length),
+      selectionStart: start - marker.length,
+      selectionEnd: end - marker.length,
+    };
+  }
+
+  const selected = text.slice(start, end) || placeholder;
+  return {
+    text: `${before}${marker}${selected}${marker}${after}`,
+    selectionStart: start + marker.length,
+    selectionEnd: start + marker.length + selected.length,
+  };
+};
+
+// The whole lines touched by the selection
+const lineRange = (text: string, start: number, end: number) => {
+  const from = text.lastIndexOf('\n', start - 1) + 1;
+  const newline = text.indexOf('\n', end > start && text[end - 1] === '\n' ? end - 1 : end);
+  return { from, to: newline === -1 ? text.length : newline };
+};
+
+const prefixLines = (text: string, start: number, end: number, format: LineFormat): TextEdit => {
+  const { pattern, prefix } = LINE_PREFIXES[format];
+  const { from, to } = lineRange(text, start, end);
+  const lines = text.slice(from, to).split('\n');
+
+  // Toggle off when every line already has this format; otherwise replace any other list
+  // or heading marker so "- item" can become "1. item"
+  const remove = lines.every(line => pattern.test(line));
+  const updated = lines.map((line, index) => {
+    if (remove) return line.replace(pattern, '');
+    const stripped = Object.values(LINE_PREFIXES).reduce((result, other) => result.replace(other.pattern, ''), line);
+    return prefix(index) + stripped;
+  }).join('\n');
+
+  return {
+    text: text.slice(0, from) + updated + text.slice(to),
+    selectionStart: from,
+    selectionEnd: from + updated.length,
+  };
+};
+
+const insertLink = (text: string, start: number, end: number): TextEdit => {
+  const label = text.slice(start, end) || 'link text';
+  const inserted = `[${label}](url)`;
+  const urlStart = start + label.length + 3;
+  return {
+    text: text.slice(0, start) + inserted + text.slice(end),
+    selectionStart: urlStart,
+    selectionEnd: urlStart + 3,
+  };
+};
+
+const insertCodeBlock = (text: string, start: number, end: number): TextEdit => {
+  const { from, to } = start === end ? { from: start, to: end } : lineRange(text, start, end);
+  const code = text.slice(from, to);
+  // Fences have to start on a line of their own
+  const lead = from > 0 && text[from - 1] !== '\n' ? '\n' : '';
+  const block = `${lead}\`\`\`\n${code}\n\`\`\``;
+  const codeStart = from + lead.length + 4;
+  return {
+    text: text.slice(0, from) + block + text.slice(to),
+    selectionStart: codeStart,
+    selectionEnd: codeStart + code.length,
+  };
+};
+
+export const applyMarkdownFormat = (text: string, start: number, end: number, format: MarkdownFormat): TextEdit => {
+  if (format === 'link') return insertLink(text, start, end);
+  if (format === 'codeblock') return insertCodeBlock(text, start, end);
+  if (format in INLINE_MARKERS) return wrapInline(text, start, end, format as InlineFormat);
+  return prefixLines(text, start, end, format as LineFormat);
+};
+
+// Ticks or unticks the task list item on a 1-based line; other lines are left alone
+export const toggleTaskAt = (text: string, line: number) => {
+  const lines = text.split('\n');
+  const match = lines[line - 1]?.match(TASK_ITEM);
+  if (!match) return text;
+
+  lines[line - 1] = lines[line - 1].replace(TASK_ITEM, `$1${match[2] === ' ' ? 'x' : ' '}$3`);
+  return lines.join('\n');
+};
+
+// A list item marker, with the checkbox of a task item: "- ", "2. ", "  * [x] "
+const LIST_ITEM = /^(\s*)([-*+]|(\d+)([.)]))(\s+)(\[[ xX]\]\s+)?/;
+
+// Enter at the end of a list item starts the next item; on an item with nothing after
+// the marker it ends the list instead. Null when Enter should just insert a newline.
+export const continueList = (text: string, start: number, end: number): TextEdit | null => {
+  if (start !== end) return null;
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const line = text.slice(lineStart, start);
+  const match = line.match(LIST_ITEM);
+  if (!match) return null;
+
+  if (match[0].length === line.length) {
+    return {
+      text: text.slice(0, lineStart) + text.slice(start),
+      selectionStart: lineStart,
+      selectionEnd: lineStart,
+    };
+  }
+
+  const [, indent, bullet, number, delimiter, space, checkbox] = match;
+  const marker = number ? `${Number(number) + 1}${delimiter}` : bullet;
+  const next = `\n${indent}${marker}${space}${checkbox ? '[ ] ' : ''}`;
+  return {
+    text: text.slice(0, start) + next + text.slice(end),
+    selectionStart: start + next.length,
+    selectionEnd: start + next.length,
+  };
+};
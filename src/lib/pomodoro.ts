@@ -0,0 +1,196 @@
+import { addMinutes, differenceInMinutes } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { toEntryFields } from "@/lib/timeEntries";
+
+// A focus session alternates work and breaks. It lives in this browser's storage; only the
+// finished work intervals are written to time_logs, tagged 'focus'.
+
+export type FocusPhase = 'work' | 'short-break' | 'long-break';
+
+export interface FocusSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  // Work intervals before a long break
+  cycles: number;
+}
+
+export interface FocusSession {
+  activity: string;
+  settings: FocusSettings;
+  phase: FocusPhase;
+  phaseStartedAt: string;
+  completedWork: number;
+}
+
+export const DEFAULT_FOCUS_SETTINGS: FocusSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cycles: 4,
+};
+
+export const FOCUS_TAG = 'focus';
+
+export const PHASE_LABELS: Record<FocusPhase, string> = {
+  work: 'Focus',
+  'short-break': 'Short break',
+  'long-break': 'Long break',
+};
+
+// Fired on window whenever this tab changes the session
+export const FOCUS_CHANGED_EVENT = 'focus-session-changed';
+
+export const FOCUS_SESSION_KEY = 'focusSession';
+const FOCUS_SETTINGS_KEY = 'focusSettings';
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const loadFocusSettings = (): FocusSettings => ({
+  ...DEFAULT_FOCUS_SETTINGS,
+  ...readJson<Partial<FocusSettings>>(FOCUS_SETTINGS_KEY),
+});
+
+export const saveFocusSettings = (settings: FocusSettings) => {
+  localStorage.setItem(FOCUS_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const loadFocusSession = () => readJson<FocusSession>(FOCUS_SESSION_KEY);
+
+const saveFocusSession = (session: FocusSession | null) => {
+  if (session) {
+    localStorage.setItem(FOCUS_SESSION_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(FOCUS_SESSION_KEY);
+  }
+  window.dispatchEvent(new Event(FOCUS_CHANGED_EVENT));
+};
+
+export const getPhaseMinutes = ({ phase, settings }: Pick<FocusSession, 'phase' | 'settings'>) => {
+  if (phase === 'work') return settings.workMinutes;
+  return phase === 'long-break' ? settings.longBreakMinutes : settings.shortBreakMinutes;
+};
+
+export const getPhaseEnd = (session: FocusSession) =>
+  addMinutes(new Date(session.phaseStartedAt), getPhaseMinutes(session));
+
+export const getRemainingMs = (session: FocusSession, now = Date.now()) =>
+  Math.max(getPhaseEnd(session).getTime() - now, 0);
+
+// "24:59"; phases are short enough not to need hours
+export const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+// The phase that follows the current one, starting at `at`
+const followingPhase = (session: FocusSession, at: Date): FocusSession => {
+  if (session.phase !== 'work') {
+    return { ...session, phase: 'work', phaseStartedAt: at.toISOString() };
+  }
+  const completedWork = session.completedWork + 1;
+  return {
+    ...session,
+    completedWork,
+    phase: completedWork % session.settings.cycles === 0 ? 'long-break' : 'short-break',
+    phaseStartedAt: at.toISOString(),
+  };
+};
+
+// Intervals shorter than a minute are not worth a time log
+const logWork = async (session: FocusSession, end: Date) => {
+  const start = new Date(session.phaseStartedAt);
+  if (session.phase !== 'work' || differenceInMinutes(end, start) < 1) return null;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('You must be logged in to track time');
+
+  const { data, error } = await supabase
+    .from('time_logs')
+    .insert({
+      ...toEntryFields(start, end),
+      activity: session.activity,
+      tags: [FOCUS_TAG],
+      user_id: user.id,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Moves the session on before logging, so another tab sees the phase as handled. If the log
+// fails the ended session is put back (unless it changed meanwhile), keeping the interval
+// to be logged on the next try.
+const replaceAndLog = async (session: FocusSession, replacement: FocusSession | null, end: Date) => {
+  saveFocusSession(replacement);
+  try {
+    return await logWork(session, end);
+  } catch (error) {
+    if (JSON.stringify(loadFocusSession()) === JSON.stringify(replacement)) {
+      saveFocusSession(session);
+    }
+    throw error;
+  }
+};
+
+export const startFocusSession = (activity: string, settings = loadFocusSettings(), now = new Date()) => {
+  // Phase boundaries are announced with notifications; starting is a user gesture, so ask now
+  if ('Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission();
+  }
+
+  const session: FocusSession = {
+    activity,
+    settings,
+    phase: 'work',
+    phaseStartedAt: now.toISOString(),
+    completedWork: 0,
+  };
+  saveFocusSession(session);
+  return session;
+};
+
+// Ends the session, logging the work done so far in an unfinished work interval
+export const stopFocusSession = async (now = new Date()) => {
+  const session = loadFocusSession();
+  if (!session) return null;
+
+  const logged = await replaceAndLog(session, null, now);
+  return { session, logged };
+};
+
+// Ends the current phase early and starts the next one now
+export const skipFocusPhase = async (now = new Date()) => {
+  const session = loadFocusSession();
+  if (!session) return null;
+
+  const next = followingPhase(session, now);
+  await replaceAndLog(session, next, now);
+  return next;
+};
+
+export interface FocusTransition {
+  ended: FocusSession;
+  // null when the session was abandoned: the tab slept through the whole next phase too
+  next: FocusSession | null;
+}
+
+// Moves a session whose phase has run out on to the next phase, logging a finished work
+// interval. Returns null when nothing was due, or another tab got there first.
+export const advanceFocusSession = async (now = new Date()): Promise<FocusTransition | null> => {
+  const session = loadFocusSession();
+  if (!session || getPhaseEnd(session) > now) return null;
+
+  const next = followingPhase(session, getPhaseEnd(session));
+  const abandoned = getPhaseEnd(next) <= now;
+  await replaceAndLog(session, abandoned ? null : next, getPhaseEnd(session));
+  return { ended: session, next: abandoned ? null : next };
+};
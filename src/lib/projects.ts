@@ -0,0 +1,63 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Project = Tables<'projects'>;
+
+export interface ProjectTotal {
+  // null collects the time not assigned to any project
+  project: Project | null;
+  minutes: number;
+  billableMinutes: number;
+  amount: number;
+}
+
+export const fetchProjects = async (): Promise<Project[]> => {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const findProject = (projects: Project[], name: string) =>
+  projects.find(project => project.name.toLowerCase() === name.trim().toLowerCase());
+
+export const isBillable = (project: Project | null | undefined) =>
+  !!project?.billable && project.hourly_rate != null;
+
+export const billableAmount = (minutes: number, project: Project | null | undefined) =>
+  isBillable(project) ? (minutes / 60) * Number(project.hourly_rate) : 0;
+
+export const formatAmount = (amount: number) =>
+  amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const describeProject = (project: Project) =>
+  project.client ? `${project.name} (${project.client})` : project.name;
+
+// "design, Client call" -> ['design', 'client call']; tags compare case-insensitively
+export const parseTags = (input: string) =>
+  Array.from(new Set(input.split(',').map(tag => tag.trim().toLowerCase()).filter(tag => tag)));
+
+// Minutes and billable amounts per project, largest first, with untracked-project time last
+export const totalsByProject = (
+  entries: { duration: number; project_id: string | null }[],
+  projects: Project[]
+): ProjectTotal[] => {
+  const totals = new Map<string | null, ProjectTotal>();
+
+  for (const entry of entries) {
+    const project = projects.find(p => p.id === entry.project_id) || null;
+    const key = project?.id ?? null;
+    const total = totals.get(key) || { project, minutes: 0, billableMinutes: 0, amount: 0 };
+    total.minutes += entry.duration;
+    if (isBillable(project)) total.billableMinutes += entry.duration;
+    total.amount += billableAmount(entry.duration, project);
+    totals.set(key, total);
+  }
+
+  return Array.from(totals.values()).sort((a, b) =>
+    !a.project !== !b.project ? (a.project ? -1 : 1) : b.minutes - a.minutes
+  );
+};
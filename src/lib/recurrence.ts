@@ -0,0 +1,165 @@
+import { addDays, addMonths, differenceInCalendarDays, format, getDaysInMonth, isWeekend, parseISO, setDate, startOfDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { collectDescendantIds } from "@/lib/todoTree";
+
+export type RecurrenceRule = 'daily' | 'weekdays' | 'days' | 'weeks' | 'monthly' | 'after_completion';
+
+export interface RecurringTodo {
+  due_date?: string | null;
+  recurrence_rule?: string | null;
+  recurrence_interval?: number | null;
+}
+
+// Rules whose interval means something; for 'monthly' it is the day of the month
+export const RECURRENCE_OPTIONS: { rule: RecurrenceRule; label: string; intervalLabel?: string }[] = [
+  { rule: 'daily', label: "Daily" },
+  { rule: 'weekdays', label: "Every weekday" },
+  { rule: 'days', label: "Every N days", intervalLabel: "Days" },
+  { rule: 'weeks', label: "Every N weeks", intervalLabel: "Weeks" },
+  { rule: 'monthly', label: "Monthly on day N", intervalLabel: "Day of month" },
+  { rule: 'after_completion', label: "N days after completion", intervalLabel: "Days" },
+];
+
+const formatDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const isRecurring = (todo: RecurringTodo) => !!todo.recurrence_rule;
+
+export const describeRecurrence = (todo: RecurringTodo) => {
+  const n = todo.recurrence_interval || 1;
+  switch (todo.recurrence_rule) {
+    case 'daily': return "Daily";
+    case 'weekdays': return "Weekdays";
+    case 'days': return n === 1 ? "Daily" : `Every ${n} days`;
+    case 'weeks': return n === 1 ? "Weekly" : `Every ${n} weeks`;
+    case 'monthly': return `Monthly on day ${n}`;
+    case 'after_completion': return `${n} day${n === 1 ? "" : "s"} after completion`;
+    default: return "";
+  }
+};
+
+// Accepts 'daily', 'weekdays', 'weekly', '3d', '2w', 'monthly:15' and 'after:5d'
+export const parseRecurrenceInput = (raw: string): { recurrence_rule: RecurrenceRule; recurrence_interval: number | null } | null => {
+  const value = raw.trim().toLowerCase();
+  if (value === 'daily' || value === 'weekdays') return { recurrence_rule: value, recurrence_interval: null };
+  if (value === 'weekly') return { recurrence_rule: 'weeks', recurrence_interval: 1 };
+
+  const every = value.match(/^(\d+)([dw])$/);
+  if (every && parseInt(every[1]) > 0) {
+    return { recurrence_rule: every[2] === 'd' ? 'days' : 'weeks', recurrence_interval: parseInt(every[1]) };
+  }
+
+  const monthly = value.match(/^monthly:(\d+)$/);
+  if (monthly && parseInt(monthly[1]) >= 1 && parseInt(monthly[1]) <= 31) {
+    return { recurrence_rule: 'monthly', recurrence_interval: parseInt(monthly[1]) };
+  }
+
+  const after = value.match(/^after:(\d+)d?$/);
+  if (after && parseInt(after[1]) > 0) {
+    return { recurrence_rule: 'after_completion', recurrence_interval: parseInt(after[1]) };
+  }
+
+  return null;
+};
+
+// Day N of the given month, clamped for short months (day 31 in February is the 28th/29th)
+const dayOfMonth = (month: Date, day: number) => setDate(month, Math.min(day, getDaysInMonth(month)));
+
+const advance = (date: Date, rule: RecurrenceRule, n: number): Date => {
+  switch (rule) {
+    case 'weekdays': {
+      let next = addDays(date, 1);
+      while (isWeekend(next)) next = addDays(next, 1);
+      return next;
+    }
+    case 'days': return addDays(date, n);
+    case 'weeks': return addDays(date, 7 * n);
+    case 'monthly': {
+      const thisMonth = dayOfMonth(date, n);
+      return thisMonth > date ? thisMonth : dayOfMonth(addMonths(date, 1), n);
+    }
+    default: return addDays(date, 1);
+  }
+};
+
+// Next due date after completing a recurring todo. Scheduled rules step from the old due
+// date (or the completion day when there is none) and skip occurrences already in the past,
+// so finishing an overdue daily chore does not spawn another overdue copy.
+export const getNextOccurrence = (todo: RecurringTodo, completedAt = new Date()): string | null => {
+  const rule = todo.recurrence_rule as RecurrenceRule;
+  if (!rule) return null;
+
+  const n = todo.recurrence_interval || 1;
+  const completedDay = startOfDay(completedAt);
+
+  if (rule === 'after_completion') {
+    return formatDate(addDays(completedDay, n));
+  }
+
+  let next = advance(todo.due_date ? parseISO(todo.due_date) : completedDay, rule, n);
+  while (next <= completedDay) {
+    next = advance(next, rule, n);
+  }
+  return formatDate(next);
+};
+
+const shiftDate = (date: string | null, days: number) =>
+  date ? formatDate(addDays(parseISO(date), days)) : null;
+
+// Creates the next occurrence of a completed recurring todo, copying its whole subtree with
+// every subtask reset to open. Returns the inserted rows, or an empty list when the todo does
+// not repeat or its next occurrence already exists (e.g. it was completed, reopened and completed again).
+export const spawnNextOccurrence = async (todoId: string, completedAt = new Date()): Promise<Tables<'todos'>[]> => {
+  const { data: todos, error } = await supabase.from('todos').select('*');
+  if (error) throw error;
+
+  const todo = todos.find(t => t.id === todoId);
+  const nextDue = todo ? getNextOccurrence(todo, completedAt) : null;
+  if (!nextDue) return [];
+
+  const alreadySpawned = todos.some(t =>
+    t.id !== todo.id &&
+    !t.completed &&
+    t.text === todo.text &&
+    t.parent_id === todo.parent_id &&
+    t.recurrence_rule === todo.recurrence_rule &&
+    t.due_date === nextDue
+  );
+  if (alreadySpawned) return [];
+
+  // Start dates and dated subtasks keep their distance from the parent's due date
+  const offset = differenceInCalendarDays(parseISO(nextDue), todo.due_date ? parseISO(todo.due_date) : startOfDay(completedAt));
+  const subtreeIds = collectDescendantIds(todos, todo.id);
+  const inserted: Tables<'todos'>[] = [];
+
+  const copy = async (source: Tables<'todos'>, parentId: string | null, isRoot: boolean) => {
+    const { data, error: insertError } = await supabase
+      .from('todos')
+      .insert({
+        text: source.text,
+        priority: source.priority,
+        completed: false,
+        user_id: source.user_id,
+        parent_id: parentId,
+        sort_order: source.sort_order,
+        due_date: isRoot ? nextDue : shiftDate(source.due_date, offset),
+        due_time: source.due_time,
+        start_date: shiftDate(source.start_date, offset),
+        reminder_minutes: source.reminder_minutes,
+        recurrence_rule: source.recurrence_rule,
+        recurrence_interval: source.recurrence_interval,
+      })
+      .select()
+      .single();
+    if (insertError) throw insertError;
+    inserted.push(data);
+
+    const children = todos.filter(t => t.parent_id === source.id && subtreeIds.has(t.id));
+    for (const child of children) {
+      await copy(child, data.id, false);
+    }
+  };
+
+  await copy(todo, todo.parent_id, true);
+  return inserted;
+};
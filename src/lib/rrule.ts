@@ -0,0 +1,356 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  endOfDay,
+  format,
+  getDate,
+  getDay,
+  getDaysInMonth,
+  getHours,
+  getMinutes,
+  isValid,
+  parse,
+  parseISO,
+  setDate,
+  setHours,
+  setMinutes,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+} from "date-fns";
+import { EventFields, EventTiming, getEventEnd, getEventStart, isTimed, toEventFields } from "@/lib/calendarEvents";
+
+// The subset of RFC 5545 recurrence rules we support: FREQ, INTERVAL, BYDAY, BYMONTHDAY,
+// COUNT and UNTIL. Weeks start on Monday (the RFC default WKST).
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+// Indexed like Date.getDay()
+export const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface ByDay {
+  weekday: Weekday;
+  // Only meaningful for MONTHLY/YEARLY: 2 = second, -1 = last
+  ordinal?: number;
+}
+
+export interface RRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: ByDay[];
+  byMonthDay?: number[];
+  count?: number;
+  until?: Date;
+}
+
+export interface RecurringEvent extends EventTiming {
+  rrule?: string | null;
+  exdates?: string[] | null;
+}
+
+export type EventOccurrence<T> = T & { occurrence_date?: string };
+
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  SU: "Sun", MO: "Mon", TU: "Tue", WE: "Wed", TH: "Thu", FR: "Fri", SA: "Sat",
+};
+const UNIT_LABELS: Record<Frequency, string> = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" };
+const BASE_LABELS: Record<Frequency, string> = { DAILY: "Daily", WEEKLY: "Weekly", MONTHLY: "Monthly", YEARLY: "Yearly" };
+
+// Stops runaway expansion of rules that can never match (e.g. BYMONTHDAY=31 with BYDAY=MO in a 30-day month)
+const MAX_PERIODS = 10000;
+
+const parseUntil = (value: string): Date | null => {
+  const dateOnly = value.match(/^(\d{8})$/);
+  if (dateOnly) {
+    const date = parse(dateOnly[1], 'yyyyMMdd', new Date());
+    return isValid(date) ? endOfDay(date) : null;
+  }
+  const dateTime = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!dateTime) return null;
+  const [, y, mo, d, h, mi, s, utc] = dateTime;
+  const date = utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+  return isValid(date) ? date : null;
+};
+
+const formatUntil = (until: Date, allDay: boolean) =>
+  allDay ? format(until, 'yyyyMMdd') : until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const parseRRule = (value: string | null | undefined): RRule | null => {
+  if (!value) return null;
+  const parts = new Map(
+    value.replace(/^RRULE:/i, '').split(';')
+      .filter(part => part.includes('='))
+      .map(part => {
+        const [key, ...rest] = part.split('=');
+        return [key.trim().toUpperCase(), rest.join('=').trim().toUpperCase()] as [string, string];
+      })
+  );
+
+  const freq = parts.get('FREQ') as Frequency;
+  if (!FREQUENCIES.includes(freq)) return null;
+
+  const rule: RRule = { freq, interval: 1 };
+
+  if (parts.has('INTERVAL')) {
+    const interval = parseInt(parts.get('INTERVAL'));
+    if (!(interval > 0)) return null;
+    rule.interval = interval;
+  }
+
+  if (parts.has('BYDAY')) {
+    const byDay: ByDay[] = [];
+    for (const item of parts.get('BYDAY').split(',')) {
+      const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (!match) return null;
+      byDay.push(match[1] ? { weekday: match[2] as Weekday, ordinal: parseInt(match[1]) } : { weekday: match[2] as Weekday });
+    }
+    rule.byDay = byDay;
+  }
+
+  if (parts.has('BYMONTHDAY')) {
+    const days = parts.get('BYMONTHDAY').split(',').map(day => parseInt(day));
+    if (days.some(day => isNaN(day) || day === 0 || Math.abs(day) > 31)) return null;
+    rule.byMonthDay = days;
+  }
+
+  if (parts.has('COUNT')) {
+    const count = parseInt(parts.get('COUNT'));
+    if (!(count > 0)) return null;
+    rule.count = count;
+  }
+
+  if (parts.has('UNTIL')) {
+    const until = parseUntil(parts.get('UNTIL'));
+    if (!until) return null;
+    rule.until = until;
+  }
+
+  return rule;
+};
+
+export const formatRRule = (rule: RRule, allDay: boolean): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${day.weekday}`).join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until, allDay)}`);
+  return parts.join(';');
+};
+
+const ordinalLabel = (ordinal: number) => {
+  if (ordinal === -1) return "last";
+  if (ordinal < 0) return `${-ordinal}${["th", "st", "nd", "rd"][-ordinal] || "th"} to last`;
+  return `${ordinal}${["th", "st", "nd", "rd"][ordinal] || "th"}`;
+};
+
+export const describeByDay = ({ weekday, ordinal }: ByDay) =>
+  ordinal ? `the ${ordinalLabel(ordinal)} ${WEEKDAY_LABELS[weekday]}` : WEEKDAY_LABELS[weekday];
+
+export const describeRRule = (rule: RRule): string => {
+  let text = rule.interval === 1
+    ? BASE_LABELS[rule.freq]
+    : `Every ${rule.interval} ${UNIT_LABELS[rule.freq]}s`;
+
+  if (rule.byDay?.length) {
+    text += ` on ${rule.byDay.map(describeByDay).join(', ')}`;
+  }
+  if (rule.byMonthDay?.length) {
+    text += ` on day ${rule.byMonthDay.map(day => day < 0 ? ordinalLabel(day) : day).join(', ')}`;
+  }
+  if (rule.count) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  if (rule.until) text += `, until ${format(rule.until, 'MMM d, yyyy')}`;
+  return text;
+};
+
+// Candidate days inside one month for MONTHLY/YEARLY rules
+const monthCandidates = (month: Date, rule: RRule, dtstart: Date): Date[] => {
+  const daysInMonth = getDaysInMonth(month);
+  const allDays = Array.from({ length: daysInMonth }, (_, i) => addDays(month, i));
+
+  const fromMonthDays = (rule.byMonthDay || (rule.byDay ? null : [getDate(dtstart)]))
+    ?.map(day => day > 0 ? day : daysInMonth + day + 1)
+    .filter(day => day >= 1 && day <= daysInMonth);
+
+  const fromWeekdays = rule.byDay?.flatMap(({ weekday, ordinal }) => {
+    const matching = allDays.filter(day => WEEKDAYS[getDay(day)] === weekday);
+    if (!ordinal) return matching.map(day => getDate(day));
+    const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+    return picked ? [getDate(picked)] : [];
+  });
+
+  // Both parts given: a day must satisfy both (RFC 5545 BYxxx rules narrow each other)
+  const days = fromMonthDays && fromWeekdays
+    ? fromMonthDays.filter(day => fromWeekdays.includes(day))
+    : fromMonthDays || fromWeekdays;
+
+  return Array.from(new Set(days)).sort((a, b) => a - b).map(day => setDate(month, day));
+};
+
+const periodCandidates = (rule: RRule, dtstart: Date, period: number): Date[] => {
+  const startDay = startOfDay(dtstart);
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = addDays(startDay, step);
+      return !rule.byDay || rule.byDay.some(d => d.weekday === WEEKDAYS[getDay(day)]) ? [day] : [];
+    }
+    case 'WEEKLY': {
+      const week = addWeeks(startOfWeek(startDay, { weekStartsOn: 1 }), step);
+      const weekdays = rule.byDay?.map(d => d.weekday) || [WEEKDAYS[getDay(startDay)]];
+      return Array.from(new Set(weekdays))
+        .map(weekday => addDays(week, (WEEKDAYS.indexOf(weekday) + 6) % 7))
+        .sort((a, b) => a.getTime() - b.getTime());
+    }
+    case 'MONTHLY':
+      return monthCandidates(addMonths(startOfMonth(startDay), step), rule, dtstart);
+    case 'YEARLY':
+      return monthCandidates(addYears(startOfMonth(startDay), step), rule, dtstart);
+  }
+};
+
+// Occurrence start times in order, honouring COUNT and UNTIL. Every occurrence keeps the
+// wall-clock time of DTSTART, so a 10:00 meeting stays at 10:00 across DST changes.
+export function* generateOccurrences(rule: RRule, dtstart: Date): Generator<Date> {
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const day of periodCandidates(rule, dtstart, period)) {
+      const start = setMinutes(setHours(day, getHours(dtstart)), getMinutes(dtstart));
+      if (start < dtstart) continue;
+      if (rule.until && start > rule.until) return;
+      if (rule.count && emitted >= rule.count) return;
+      emitted++;
+      yield start;
+    }
+  }
+}
+
+// Turns a recurring event into the occurrences that overlap [rangeStart, rangeEnd];
+// one-off events are returned as they are.
+export const expandEvent = <T extends RecurringEvent>(event: T, rangeStart: Date, rangeEnd: Date): EventOccurrence<T>[] => {
+  const rule = parseRRule(event.rrule);
+  if (!rule) return [event];
+
+  const dtstart = getEventStart(event);
+  const timed = isTimed(event);
+  const duration = getEventEnd(event).getTime() - dtstart.getTime();
+  const spanDays = differenceInCalendarDays(parseISO(event.end_date || event.date), parseISO(event.date));
+  const exdates = new Set(event.exdates || []);
+  const occurrences: EventOccurrence<T>[] = [];
+
+  for (const start of generateOccurrences(rule, dtstart)) {
+    if (start > rangeEnd) break;
+
+    const end = timed ? new Date(start.getTime() + duration) : endOfDay(addDays(start, spanDays));
+    const occurrenceDate = format(start, 'yyyy-MM-dd');
+    if (end <= rangeStart || exdates.has(occurrenceDate)) continue;
+
+    occurrences.push({
+      ...event,
+      ...toEventFields(start, timed ? end : addDays(start, spanDays), !timed),
+      occurrence_date: occurrenceDate,
+    });
+  }
+
+  return occurrences;
+};
+
+export const expandEvents = <T extends RecurringEvent>(events: T[], rangeStart: Date, rangeEnd: Date) =>
+  events.flatMap(event => expandEvent(event, rangeStart, rangeEnd));
+
+// Unique per occurrence, for React keys and drag state
+export const occurrenceKey = (event: { id: string; occurrence_date?: string }) =>
+  event.occurrence_date ? `${event.id}:${event.occurrence_date}` : event.id;
+
+export const isFirstOccurrence = (series: RecurringEvent, occurrenceStart: Date) => {
+  const rule = parseRRule(series.rrule);
+  const first = rule ? generateOccurrences(rule, getEventStart(series)).next().value : null;
+  return !first || first.getTime() >= occurrenceStart.getTime();
+};
+
+// Ends a series just before the given occurrence ("this and following" edits and deletes)
+export const endSeriesBefore = (rule: RRule, occurrenceStart: Date, allDay: boolean): RRule => ({
+  ...rule,
+  count: undefined,
+  until: allDay ? endOfDay(subDays(occurrenceStart, 1)) : new Date(occurrenceStart.getTime() - 1000),
+});
+
+// Occurrences left from the given one onwards, so a split COUNT series keeps its total
+export const remainingCount = (rule: RRule, dtstart: Date, occurrenceStart: Date): number | undefined => {
+  if (!rule.count) return undefined;
+  let before = 0;
+  for (const start of generateOccurrences(rule, dtstart)) {
+    if (start >= occurrenceStart) break;
+    before++;
+  }
+  return Math.max(rule.count - before, 1);
+};
+
+// Moves BYDAY/BYMONTHDAY along with an event that was dragged to another day, so a weekly
+// Tuesday meeting moved to Wednesday keeps repeating on Wednesdays.
+export const shiftRuleDays = (rule: RRule, days: number): RRule => {
+  if (days === 0) return rule;
+  return {
+    ...rule,
+    byDay: rule.byDay?.map(day => ({
+      ...day,
+      weekday: WEEKDAYS[(((WEEKDAYS.indexOf(day.weekday) + days) % 7) + 7) % 7],
+    })),
+    byMonthDay: rule.byMonthDay?.map(day => day > 0 ? Math.min(Math.max(day + days, 1), 31) : day),
+  };
+};
+
+const shiftExdates = (exdates: string[], days: number) =>
+  exdates.map(date => format(addDays(parseISO(date), days), 'yyyy-MM-dd'));
+
+// An unchanged rule moves with the series; an edited one is taken as entered
+const carryRule = (previous: string | null | undefined, next: string | null, days: number, allDay: boolean) => {
+  const rule = parseRRule(next);
+  if (!rule) return null;
+  return formatRRule((previous || null) === next ? shiftRuleDays(rule, days) : rule, allDay);
+};
+
+// "All events": the series start moves by as many days as the edited occurrence did and takes
+// its new time of day and length. Exdates move along so the same occurrences stay skipped.
+export const moveSeries = (series: RecurringEvent, occurrenceStart: Date, edited: EventFields, rrule: string | null) => {
+  const editedStart = getEventStart(edited);
+  const days = differenceInCalendarDays(editedStart, occurrenceStart);
+  const seriesStart = setMinutes(setHours(addDays(getEventStart(series), days), getHours(editedStart)), getMinutes(editedStart));
+  const fields = edited.all_day
+    ? toEventFields(seriesStart, addDays(seriesStart, differenceInCalendarDays(parseISO(edited.end_date || edited.date), editedStart)), true)
+    : toEventFields(seriesStart, new Date(seriesStart.getTime() + getEventEnd(edited).getTime() - editedStart.getTime()), false);
+
+  return {
+    ...fields,
+    rrule: carryRule(series.rrule, rrule, days, edited.all_day),
+    exdates: shiftExdates(series.exdates || [], days),
+  };
+};
+
+// "This and following": a new series starting at the edited occurrence. With the rule unchanged
+// it keeps what was left of the old COUNT and the exdates from that point on.
+export const splitSeries = (series: RecurringEvent, occurrenceStart: Date, edited: EventFields, rrule: string | null) => {
+  const days = differenceInCalendarDays(getEventStart(edited), occurrenceStart);
+  const unchanged = (series.rrule || null) === rrule;
+  const rule = parseRRule(rrule);
+  const occurrenceDate = format(occurrenceStart, 'yyyy-MM-dd');
+
+  if (!unchanged || !rule) {
+    return { ...edited, rrule: rule ? formatRRule(rule, edited.all_day) : null, exdates: [] as string[] };
+  }
+  return {
+    ...edited,
+    rrule: formatRRule(shiftRuleDays({ ...rule, count: remainingCount(rule, getEventStart(series), occurrenceStart) }, days), edited.all_day),
+    exdates: shiftExdates((series.exdates || []).filter(date => date >= occurrenceDate), days),
+  };
+};
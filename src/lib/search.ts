@@ -0,0 +1,66 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Global full-text search, ranked by the database (see search_all). Matched words come back
+// wrapped in \u0002 ... \u0003 so they can be highlighted without rendering any HTML.
+
+export type SearchKind = 'note' | 'todo' | 'event' | 'time';
+
+export interface SearchResult {
+  kind: SearchKind;
+  id: string;
+  title: string;
+  headline: string;
+  snippet: string | null;
+  rank: number;
+  date: string;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export const SEARCH_KINDS: SearchKind[] = ['note', 'todo', 'event', 'time'];
+
+export const SEARCH_KIND_LABELS: Record<SearchKind, string> = {
+  note: 'Notes',
+  todo: 'Todos',
+  event: 'Events',
+  time: 'Time logs',
+};
+
+export const SEARCH_KIND_PATHS: Record<SearchKind, string> = {
+  note: '/notes',
+  todo: '/todos',
+  event: '/calendar',
+  time: '/timelog',
+};
+
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+export const searchAll = async (query: string, { kinds, limit = 50 }: { kinds?: SearchKind[]; limit?: number } = {}) => {
+  if (!query.trim()) return [];
+
+  const { data, error } = await supabase.rpc('search_all', {
+    search_query: query,
+    kinds,
+    result_limit: limit,
+  });
+
+  if (error) throw error;
+  return (data || []) as SearchResult[];
+};
+
+// "a \u0002match\u0003 here" -> [{ text: 'a ' }, { text: 'match', match: true }, { text: ' here' }]
+export const splitSnippet = (snippet: string): SnippetPart[] =>
+  snippet
+    .split(MATCH_START)
+    .flatMap((chunk, index) => {
+      if (index === 0) return [{ text: chunk, match: false }];
+      const [match, ...rest] = chunk.split(MATCH_END);
+      return [{ text: match, match: true }, { text: rest.join(''), match: false }];
+    })
+    .filter(part => part.text);
+
+export const stripMatches = (snippet: string) => snippet.split(MATCH_START).join('').split(MATCH_END).join('');
@@ -0,0 +1,421 @@
+import { differenceInCalendarDays, endOfDay, format, parseISO, startOfDay } from "date-fns";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { DEFAULT_EVENT_TYPES } from "@/lib/eventTypes";
+import { EventFields, eventOccursOn, formatEventTime, getEventStart, isTimed, moveEvent } from "@/lib/calendarEvents";
+import { EventOccurrence, describeRRule, expandEvent, expandEvents, parseRRule } from "@/lib/rrule";
+import { RECURRENCE_SCOPES, RecurrenceScope, SeriesChange, deleteOccurrences, updateOccurrences } from "@/lib/eventSeries";
+import { applyImport, describeImportItem, downloadIcs, exportCalendar, pickIcsFile, planImport } from "@/lib/ical";
+import { ParsedArgs } from "../parser";
+import {
+  CommandContext,
+  CommandFlagSpec,
+  CommandResult,
+  CommandSpec,
+  OutputLine,
+  OutputSegment,
+  PipeRecord,
+  fail,
+  info,
+  ok,
+} from "../registry";
+import { completeRef, describeRef, resolveRef } from "../refs";
+
+const typeFlag = (description: string): CommandFlagSpec => ({
+  name: 'type',
+  short: 't',
+  description: `${description} (${DEFAULT_EVENT_TYPES.join(', ')} or any custom type)`,
+  placeholder: 'type',
+  complete: () => DEFAULT_EVENT_TYPES,
+});
+
+type EventRow = Tables<'calendar_events'>;
+
+const scopeFlags: CommandFlagSpec[] = [
+  {
+    name: 'scope',
+    description: 'For a recurring event: this occurrence, this and following, or all of them',
+    choices: RECURRENCE_SCOPES,
+  },
+  { name: 'on', description: 'Date of the occurrence --scope this or following is about', type: 'date', placeholder: 'YYYY-MM-DD' },
+];
+
+const describeScope = (scope: RecurrenceScope, date?: string) => {
+  switch (scope) {
+    case 'this': return `the occurrence on ${date}`;
+    case 'following': return `the occurrences from ${date} on`;
+    default: return "every occurrence";
+  }
+};
+
+type OccurrencePick =
+  | { scope: RecurrenceScope; occurrence: EventOccurrence<EventRow> }
+  | { error: CommandResult };
+
+// Like the scope dialog in the calendar: a change to a recurring event says which occurrences
+// it is for, and without --scope the user picks one from a numbered list
+const pickOccurrences = (event: EventRow, args: ParsedArgs, ctx: CommandContext, verb: string): OccurrencePick => {
+  const scope = args.scope as RecurrenceScope | undefined;
+  const on = args.on as Date | undefined;
+
+  let occurrence: EventOccurrence<EventRow> = event;
+  if (on) {
+    const date = format(on, 'yyyy-MM-dd');
+    occurrence = expandEvent(event, startOfDay(on), endOfDay(on)).find(o => o.occurrence_date === date);
+    if (!occurrence) {
+      return { error: fail(`ERROR: "${event.title}" has no occurrence on ${date}`) };
+    }
+  } else if (scope && scope !== 'all') {
+    return { error: fail(`ERROR: --scope ${scope} needs the date of the occurrence`, "Add --on YYYY-MM-DD") };
+  }
+  if (scope) return { scope, occurrence };
+
+  const repeats = `"${event.title}" repeats (${describeRRule(parseRRule(event.rrule))})`;
+  if (!on) {
+    return {
+      error: fail(
+        `ERROR: ${repeats}`,
+        "Use --scope all for the whole series, or --on YYYY-MM-DD with --scope this or following"
+      ),
+    };
+  }
+
+  const choices = RECURRENCE_SCOPES.map(option => {
+    const label = describeScope(option, occurrence.occurrence_date);
+    return { label: `${label[0].toUpperCase()}${label.slice(1)}`, input: `${ctx.input} --scope ${option}` };
+  });
+  return {
+    error: {
+      output: [
+        `${repeats}. ${verb} which events?`,
+        ...choices.map((choice, index) => `  ${index + 1}. ${choice.label}`),
+        `Type 1-${choices.length} to pick one, or anything else to cancel`,
+      ],
+      type: 'info',
+      choices,
+    },
+  };
+};
+
+const fetchEvent = async (id: string) => {
+  const { data, error } = await supabase
+    .from('calendar_events')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+export const calendarCommands: CommandSpec[] = [
+  {
+    name: 'cal.add',
+    category: 'calendar',
+    summary: 'Add a calendar event',
+    positionals: [
+      { name: 'event', description: 'Event title', required: true, variadic: true },
+    ],
+    flags: [
+      { name: 'date', short: 'd', description: 'Event date (defaults to today)', type: 'date', placeholder: 'YYYY-MM-DD' },
+      typeFlag('Event type, defaults to reminder'),
+    ],
+    examples: ["cal.add 'Sprint review' -d 2025-09-01", "cal.add Dentist -d 2025-09-12 -t appointment"],
+    handler: (args, ctx) => {
+      const title = args.event as string;
+      const date = (args.date as Date) || new Date();
+      const type = ((args.type as string) || 'reminder').toLowerCase();
+
+      ctx.onAddCalendarEvent?.(title, date, type);
+      toast({
+        title: "Calendar event added via terminal",
+        description: title,
+      });
+      return ok(`[✓] Event added: "${title}" on ${format(date, 'yyyy-MM-dd')} (${type})`);
+    },
+  },
+  {
+    name: 'cal.today',
+    category: 'calendar',
+    summary: "Today's events",
+    details: [
+      "cal.edit and cal.delete accept the numbers shown as #n",
+      "Piped, each event is a record with the fields title, time and type",
+    ],
+    handler: async (args, ctx) => {
+      const now = new Date();
+      const today = format(now, 'yyyy-MM-dd');
+      // Recurring series started earlier may have an occurrence today, so they are expanded here
+      const { data, error } = await supabase
+        .from('calendar_events')
+        .select('*')
+        .lte('date', today)
+        .or(`date.eq.${today},end_date.gte.${today},rrule.not.is.null`);
+
+      if (error) {
+        return fail(`ERROR: ${error.message}`);
+      }
+
+      const events = expandEvents(data || [], startOfDay(now), endOfDay(now))
+        .filter(event => eventOccursOn(event, now));
+
+      const output = [`TODAY'S EVENTS (${today}):`, ""];
+      const records: PipeRecord[] = [];
+      if (!events.length) {
+        output.push("No events scheduled for today");
+      } else {
+        // All-day events first, then by start time
+        events.sort((a, b) => Number(isTimed(a)) - Number(isTimed(b)) || getEventStart(a).getTime() - getEventStart(b).getTime());
+        ctx.setListing('event', events.map(event => event.id));
+        events.forEach((event, index) => {
+          const repeat = event.occurrence_date ? ' ↻' : '';
+          const line = `${index + 1}. [${formatEventTime(event)}] ${event.title}${repeat} (${event.type}) (ID: ${event.id.substring(0, 8)})`;
+          output.push(line);
+          if (event.description) {
+            output.push(`   ${event.description}`);
+          }
+          records.push({
+            line,
+            kind: 'event',
+            id: event.id,
+            fields: { title: event.title, time: getEventStart(event).toISOString(), type: event.type },
+          });
+        });
+      }
+      return { ...ok(...output), records };
+    },
+  },
+  {
+    name: 'cal.edit',
+    category: 'calendar',
+    summary: 'Edit a calendar event',
+    positionals: [
+      { name: 'event', description: describeRef('event'), required: true, complete: completeRef('event'), ref: 'event' },
+    ],
+    flags: [
+      { name: 'title', description: 'New title', placeholder: 'text' },
+      { name: 'date', short: 'd', description: 'New date', type: 'date', placeholder: 'YYYY-MM-DD' },
+      typeFlag('New event type'),
+      { name: 'description', description: "New description ('' to clear)", placeholder: 'text' },
+      ...scopeFlags,
+    ],
+    examples: [
+      "cal.edit 3f2a9c1e -d 2025-09-15",
+      "cal.edit #2 --title 'Sprint demo' -t meeting",
+      "cal.edit standup --on 2025-09-19 --scope this -d 2025-09-18",
+    ],
+    handler: async (args, ctx) => {
+      const updates: Partial<EventFields> & { title?: string; type?: string; description?: string | null } = {};
+
+      if (args.title !== undefined) updates.title = args.title as string;
+      if (args.type !== undefined) updates.type = (args.type as string).toLowerCase();
+      if (args.description !== undefined) updates.description = (args.description as string) || null;
+
+      if (Object.keys(updates).length === 0 && args.date === undefined) {
+        return info("Nothing to change. Use --title, --date, --type or --description");
+      }
+      if (updates.title !== undefined && !updates.title.trim()) {
+        return fail("ERROR: Title cannot be empty");
+      }
+
+      const resolved = await resolveRef('event', args.event as string, ctx);
+      if ('error' in resolved) return resolved.error;
+
+      const eventId = resolved.record.id;
+      let event: EventRow;
+      try {
+        event = await fetchEvent(eventId);
+      } catch (error) {
+        return fail(`ERROR: ${error.message}`);
+      }
+      if (!event) {
+        return fail(`ERROR: Event ${eventId.substring(0, 8)} not found`);
+      }
+
+      if (parseRRule(event.rrule)) {
+        const pick = pickOccurrences(event, args, ctx, 'Change');
+        if ('error' in pick) return pick.error;
+
+        const { scope, occurrence } = pick;
+        const days = args.date !== undefined ? differenceInCalendarDays(args.date as Date, parseISO(occurrence.date)) : 0;
+        const change: SeriesChange = {
+          title: updates.title ?? event.title,
+          type: updates.type ?? event.type,
+          description: updates.description !== undefined ? updates.description : event.description,
+          rrule: event.rrule,
+          ...moveEvent(occurrence, 0, days),
+        };
+        try {
+          await updateOccurrences(event, occurrence, scope, change);
+        } catch (error) {
+          return fail(`ERROR: ${error.message}`);
+        }
+
+        toast({
+          title: "Event updated",
+          description: `"${change.title}" updated via terminal`,
+        });
+        return ok(`[✓] Event updated: "${change.title}", ${describeScope(scope, occurrence.occurrence_date)}`);
+      }
+
+      // The end date and times move by as many days as the start, keeping the event's length
+      if (args.date !== undefined) {
+        Object.assign(updates, moveEvent(event, 0, differenceInCalendarDays(args.date as Date, parseISO(event.date))));
+      }
+
+      const { data, error } = await supabase
+        .from('calendar_events')
+        .update(updates)
+        .eq('id', eventId)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        return fail(`ERROR: ${error.message}`);
+      }
+      if (!data) {
+        return fail(`ERROR: Event ${eventId.substring(0, 8)} not found`);
+      }
+
+      toast({
+        title: "Event updated",
+        description: `"${data.title}" updated via terminal`,
+      });
+      return ok(`[✓] Event updated: "${data.title}" on ${data.date} (${data.type})`);
+    },
+  },
+  {
+    name: 'cal.delete',
+    category: 'calendar',
+    summary: 'Delete a calendar event',
+    positionals: [
+      { name: 'event', description: describeRef('event'), required: true, complete: completeRef('event'), ref: 'event' },
+    ],
+    flags: scopeFlags,
+    examples: [
+      'cal.delete 3f2a9c1e',
+      'cal.delete #1',
+      "cal.delete 'sprint review'",
+      'cal.delete standup --on 2025-09-19 --scope following',
+    ],
+    handler: async (args, ctx) => {
+      const resolved = await resolveRef('event', args.event as string, ctx);
+      if ('error' in resolved) return resolved.error;
+
+      const eventId = resolved.record.id;
+      let event: EventRow;
+      try {
+        event = await fetchEvent(eventId);
+      } catch (error) {
+        return fail(`ERROR: ${error.message}`);
+      }
+      if (!event) {
+        return fail(`ERROR: Event ${eventId.substring(0, 8)} not found`);
+      }
+
+      if (parseRRule(event.rrule)) {
+        const pick = pickOccurrences(event, args, ctx, 'Delete');
+        if ('error' in pick) return pick.error;
+
+        const { scope, occurrence } = pick;
+        try {
+          await deleteOccurrences(event, occurrence, scope);
+        } catch (error) {
+          return fail(`ERROR: ${error.message}`);
+        }
+
+        toast({
+          title: "Event deleted",
+          description: "Event deleted via terminal",
+        });
+        return ok(`[✓] Event deleted: "${event.title}", ${describeScope(scope, occurrence.occurrence_date)}`);
+      }
+
+      const { error } = await supabase
+        .from('calendar_events')
+        .delete()
+        .eq('id', eventId);
+
+      if (error) {
+        return fail(`ERROR: ${error.message}`);
+      }
+
+      toast({
+        title: "Event deleted",
+        description: "Event deleted via terminal",
+      });
+      return ok(`[✓] Event deleted: "${event.title}"`);
+    },
+  },
+  {
+    name: 'cal.export',
+    category: 'calendar',
+    summary: 'Download events and dated todos as an .ics file',
+    flags: [
+      { name: 'no-todos', description: 'Leave todos out of the export', type: 'boolean' },
+    ],
+    examples: ['cal.export', 'cal.export --no-todos'],
+    handler: async (args) => {
+      const { ics, events, todos } = await exportCalendar(!args['no-todos']);
+      const filename = downloadIcs(ics);
+      return ok(`[✓] Exported ${events} events and ${todos} todos to ${filename}`);
+    },
+  },
+  {
+    name: 'cal.import',
+    category: 'calendar',
+    summary: 'Import events and todos from an .ics file',
+    details: [
+      "Opens a file picker. Items whose UID was imported before are skipped",
+      "unless --overwrite is given; --dry-run only lists what would happen.",
+    ],
+    flags: [
+      { name: 'dry-run', short: 'n', description: 'Preview the import without saving anything', type: 'boolean' },
+      { name: 'overwrite', description: 'Update items that were already imported', type: 'boolean' },
+    ],
+    examples: ['cal.import --dry-run', 'cal.import', 'cal.import --overwrite'],
+    handler: async (args) => {
+      const file = await pickIcsFile();
+      if (!file) {
+        return info("Import cancelled");
+      }
+
+      const { items, warnings } = await planImport(file.text);
+      if (items.length === 0) {
+        return fail(`ERROR: No events or todos found in ${file.name}`);
+      }
+
+      const overwrite = !!args.overwrite;
+      const selected = items.filter(item => overwrite || !item.existingId);
+      const output: OutputLine[] = [`IMPORT PREVIEW (${file.name}):`, ""];
+      items.forEach((item) => {
+        const title = item.kind === 'event' ? item.data.title : item.data.text;
+        const status: OutputSegment = !item.existingId
+          ? { text: '[NEW]', color: '#10b981' }
+          : overwrite
+            ? { text: '[UPDATE]', color: '#f59e0b' }
+            : { text: '[SKIP]', color: '#9ca3af' };
+        output.push([status, { text: ` ${item.kind === 'event' ? 'Event' : 'Todo'}: ${title} · ${describeImportItem(item)}` }]);
+      });
+      warnings.forEach(warning => output.push([{ text: `[!] ${warning}`, color: '#f59e0b' }]));
+      output.push("");
+
+      if (args['dry-run']) {
+        output.push(`Dry run: ${selected.length} of ${items.length} items would be imported`);
+        return info(...output);
+      }
+      if (selected.length === 0) {
+        output.push("Everything in this file was already imported. Use --overwrite to update it.");
+        return info(...output);
+      }
+
+      const { created, updated } = await applyImport(selected);
+      toast({
+        title: "Calendar imported",
+        description: `${created} added, ${updated} updated via terminal`,
+      });
+      output.push(`[✓] Imported ${file.name}: ${created} added, ${updated} updated`);
+      return ok(...output);
+    },
+  },
+];
@@ -0,0 +1,109 @@
+import { toast } from "@/hooks/use-toast";
+import {
+  FocusSettings,
+  PHASE_LABELS,
+  formatRemaining,
+  getRemainingMs,
+  loadFocusSession,
+  loadFocusSettings,
+  startFocusSession,
+  stopFocusSession,
+} from "@/lib/pomodoro";
+import { CommandSpec, fail, info, ok } from "../registry";
+
+const describeSettings = (settings: FocusSettings) =>
+  `${settings.workMinutes}m focus / ${settings.shortBreakMinutes}m break / ${settings.longBreakMinutes}m long break every ${settings.cycles}`;
+
+export const focusCommands: CommandSpec[] = [
+  {
+    name: 'focus.start',
+    category: 'time',
+    summary: 'Start a Pomodoro focus session',
+    details: [
+      "Alternates focus intervals and breaks until focus.stop",
+      "Each finished focus interval is added to the time log, tagged 'focus'",
+      "Lengths given here apply to this session only; the defaults are set in the focus widget",
+    ],
+    positionals: [
+      { name: 'activity', description: 'What you will focus on', variadic: true },
+    ],
+    flags: [
+      { name: 'work', short: 'w', description: 'Focus interval in minutes', placeholder: 'min', type: 'number' },
+      { name: 'break', short: 'b', description: 'Short break in minutes', placeholder: 'min', type: 'number' },
+      { name: 'long', short: 'l', description: 'Long break in minutes', placeholder: 'min', type: 'number' },
+      { name: 'cycles', short: 'c', description: 'Focus intervals before a long break', placeholder: 'n', type: 'number' },
+    ],
+    examples: [
+      "focus.start 'Write report'",
+      "focus.start 'Deep work' --work 50 --break 10",
+      "focus.start -w 25 -b 5 -l 20 -c 4",
+    ],
+    handler: (args) => {
+      if (loadFocusSession()) {
+        return fail("ERROR: A focus session is already running", "Use focus.stop first");
+      }
+
+      const overrides: [keyof FocusSettings, unknown][] = [
+        ['workMinutes', args.work],
+        ['shortBreakMinutes', args.break],
+        ['longBreakMinutes', args.long],
+        ['cycles', args.cycles],
+      ];
+      const settings = loadFocusSettings();
+      for (const [key, value] of overrides) {
+        if (value === undefined) continue;
+        const number = Math.round(value as number);
+        if (number < 1) return fail(`ERROR: ${key === 'cycles' ? 'Cycles' : 'Lengths'} must be at least 1`);
+        settings[key] = number;
+      }
+
+      const activity = (args.activity as string | undefined) || "Focus session";
+      startFocusSession(activity, settings);
+      toast({
+        title: "Focus session started",
+        description: `${activity} - ${settings.workMinutes} minutes`,
+      });
+      return ok(
+        `[✓] Focus session started: "${activity}"`,
+        `    ${describeSettings(settings)}`
+      );
+    },
+  },
+  {
+    name: 'focus.stop',
+    category: 'time',
+    summary: 'Stop the focus session',
+    details: ["Work done in an unfinished focus interval is still logged"],
+    handler: async () => {
+      const stopped = await stopFocusSession();
+      if (!stopped) {
+        return fail("No focus session running");
+      }
+
+      const output = [`[✓] Focus session stopped: "${stopped.session.activity}" (${stopped.session.completedWork} interval(s) completed)`];
+      if (stopped.logged) {
+        output.push(`[✓] Logged ${stopped.logged.duration} minutes of the last interval`);
+      }
+      return ok(...output);
+    },
+  },
+  {
+    name: 'focus.status',
+    category: 'time',
+    summary: 'Show the focus session',
+    handler: () => {
+      const session = loadFocusSession();
+      if (!session) {
+        return info("No focus session running", `Settings: ${describeSettings(loadFocusSettings())}`);
+      }
+
+      return ok(
+        "FOCUS SESSION:",
+        `├── Activity: ${session.activity}`,
+        `├── Phase: ${PHASE_LABELS[session.phase]} (${formatRemaining(getRemainingMs(session))} left)`,
+        `├── Completed intervals: ${session.completedWork}`,
+        `└── Settings: ${describeSettings(session.settings)}`
+      );
+    },
+  },
+];
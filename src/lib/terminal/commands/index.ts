@@ -0,0 +1,24 @@
+import { createCommandRegistry } from "../registry";
+import { calendarCommands } from "./calendar";
+import { focusCommands } from "./focus";
+import { navigationCommands } from "./navigation";
+import { noteCommands } from "./notes";
+import { pipeCommands } from "./pipe";
+import { scriptCommands } from "./scripts";
+import { searchCommands } from "./search";
+import { systemCommands } from "./system";
+import { timeCommands } from "./time";
+import { todoCommands } from "./todo";
+
+export const terminalRegistry = createCommandRegistry([
+  ...navigationCommands,
+  ...todoCommands,
+  ...timeCommands,
+  ...focusCommands,
+  ...calendarCommands,
+  ...noteCommands,
+  ...searchCommands,
+  ...pipeCommands,
+  ...scriptCommands,
+  ...systemCommands,
+]);
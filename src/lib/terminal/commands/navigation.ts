@@ -0,0 +1,43 @@
+import { CommandSpec, fail, ok } from "../registry";
+
+const page = (name: string, aliases: string[], path: string, label: string, summary: string): CommandSpec => ({
+  name,
+  aliases,
+  category: 'navigation',
+  summary,
+  examples: [name, ...aliases],
+  handler: (_args, ctx) => {
+    ctx.navigate(path);
+    return ok(`[✓] Navigated to ${label}`);
+  },
+});
+
+export const navigationCommands: CommandSpec[] = [
+  page('nav.dash', ['goto.dashboard'], '/dashboard', 'dashboard', 'Dashboard'),
+  page('nav.todos', ['goto.tasks'], '/todos', 'todos', 'Todo list'),
+  page('nav.time', ['goto.timelog'], '/timelog', 'time log', 'Time tracking'),
+  page('nav.reports', ['goto.reports'], '/reports', 'reports', 'Time reports'),
+  page('nav.calendar', ['goto.calendar'], '/calendar', 'calendar', 'Calendar'),
+  page('nav.notes', ['goto.notes'], '/notes', 'notes', 'Notes'),
+  {
+    name: 'nav.back',
+    category: 'navigation',
+    summary: 'Go back',
+    handler: (_args, ctx) => {
+      const lastPath = ctx.goBack();
+      if (!lastPath) {
+        return fail("No navigation history available");
+      }
+      return ok(`[✓] Navigated back to ${lastPath}`);
+    },
+  },
+  {
+    name: 'nav.refresh',
+    aliases: ['data.refresh'],
+    category: 'navigation',
+    summary: 'Reload the application',
+    handler: () => {
+      window.location.reload();
+    },
+  },
+];
@@ -0,0 +1,70 @@
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { searchAll, stripMatches } from "@/lib/search";
+import { CommandSpec, OutputLine, PipeRecord, fail, ok } from "../registry";
+
+export const noteCommands: CommandSpec[] = [
+  {
+    name: 'note.add',
+    category: 'notes',
+    summary: 'Create a note',
+    positionals: [
+      { name: 'title', description: 'Note title (quote it if it has spaces)', required: true },
+      { name: 'content', description: 'Note body', required: true, variadic: true },
+    ],
+    flags: [
+      { name: 'tags', short: 't', description: 'Comma separated tags', type: 'list', placeholder: 'tag1,tag2', complete: (ctx) => ctx.lookups.noteTags },
+    ],
+    examples: ["note.add 'Standup' 'Discussed the release plan' -t work,meetings"],
+    handler: (args, ctx) => {
+      const title = args.title as string;
+      const content = args.content as string;
+      const tags = (args.tags as string[]) || [];
+
+      ctx.onAddNote?.(title, content, tags);
+      toast({
+        title: "Note added via terminal",
+        description: title,
+      });
+
+      const output = [`[✓] Note created: "${title}"`];
+      if (tags.length > 0) {
+        output.push(`    Tags: ${tags.join(', ')}`);
+      }
+      return ok(...output);
+    },
+  },
+  {
+    name: 'note.search',
+    category: 'notes',
+    summary: 'Search notes by title, tags or content',
+    details: [
+      "Best matches first; use search for todos, events and time logs too",
+      "Piped, each note is a record with the fields title, date and rank",
+    ],
+    positionals: [
+      { name: 'keyword', description: 'Text to look for', required: true, variadic: true },
+    ],
+    handler: async (args) => {
+      const keyword = args.keyword as string;
+      let results;
+      try {
+        results = await searchAll(keyword, { kinds: ['note'] });
+      } catch (error) {
+        return fail(`ERROR: ${error.message}`);
+      }
+
+      const output: OutputLine[] = [`Found ${results.length} note(s) matching "${keyword}":`, ""];
+      const records: PipeRecord[] = [];
+      results.forEach((note, index) => {
+        const line = `${index + 1}. ${note.title} (ID: ${note.id.substring(0, 8)})`;
+        output.push(line);
+        if (note.snippet) {
+          output.push(`    ${stripMatches(note.snippet).replace(/\s+/g, ' ')}`);
+        }
+        records.push({ line, kind: 'note', id: note.id, fields: { title: note.title, date: note.date, rank: note.rank } });
+      });
+      return { ...ok(...output), records };
+    },
+  },
+];
@@ -0,0 +1,180 @@
+import { quoteArg, tokenize } from "../parser";
+import { CommandContext, CommandResult, CommandSpec, OutputLine, PipeRecord, fail, info, lineText, ok } from "../registry";
+
+const withRecords = (records: PipeRecord[], empty: string): CommandResult =>
+  records.length
+    ? { ...ok(...records.map(record => record.line)), records }
+    : { ...info(empty), records: [] };
+
+// Filters only make sense at the end of a pipe
+const requireInput = (ctx: CommandContext, name: string) =>
+  ctx.stdin ? null : fail(
+    `ERROR: ${name} filters the output of another command`,
+    `Pipe a list into it, e.g. todo.list | ${name}`
+  );
+
+const compareValues = (a: string | number | null | undefined, b: string | number | null | undefined) => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+export const pipeCommands: CommandSpec[] = [
+  {
+    name: 'grep',
+    category: 'pipe',
+    summary: 'Keep the records that contain some text',
+    details: ["Case-insensitive; every word of the pattern has to appear in the line"],
+    positionals: [
+      { name: 'pattern', description: 'Text to look for', required: true, variadic: true },
+    ],
+    flags: [
+      { name: 'invert', short: 'v', description: 'Keep the records that do not match', type: 'boolean' },
+      { name: 'regex', short: 'e', description: 'Treat the pattern as a regular expression', type: 'boolean' },
+    ],
+    examples: ['todo.list | grep deploy', 'cal.today | grep -v standup', "todo.list | grep -e '^\\d+\\. ⏳'"],
+    handler: (args, ctx) => {
+      const missing = requireInput(ctx, 'grep');
+      if (missing) return missing;
+
+      const pattern = args.pattern as string;
+      let matches: (text: string) => boolean;
+      if (args.regex) {
+        let regex: RegExp;
+        try {
+          regex = new RegExp(pattern, 'i');
+        } catch (error) {
+          return fail(`ERROR: Invalid regular expression: ${error.message}`);
+        }
+        matches = text => regex.test(text);
+      } else {
+        const words = pattern.toLowerCase().split(/\s+/);
+        matches = text => words.every(word => text.toLowerCase().includes(word));
+      }
+
+      const kept = ctx.stdin.filter(record => matches(lineText(record.line)) !== !!args.invert);
+      return withRecords(kept, `No records matching "${pattern}"`);
+    },
+  },
+  {
+    name: 'sort',
+    category: 'pipe',
+    summary: 'Order records by a field or by their text',
+    details: [
+      "Fields: todo.list text, priority, due, created, done · cal.today title, time, type",
+      "time.today activity, duration, start · note.search title, date, rank",
+      "Records without the field go last",
+    ],
+    positionals: [
+      { name: 'field', description: 'Field to sort by (default: the line text)' },
+    ],
+    flags: [
+      { name: 'reverse', short: 'r', description: 'Largest or latest first', type: 'boolean' },
+    ],
+    examples: ['todo.list | sort due', 'todo.list | sort priority -r', 'time.today | sort duration -r'],
+    handler: (args, ctx) => {
+      const missing = requireInput(ctx, 'sort');
+      if (missing) return missing;
+
+      const field = args.field as string | undefined;
+      if (field && ctx.stdin.length && !ctx.stdin.some(record => record.fields && field in record.fields)) {
+        const known = [...new Set(ctx.stdin.flatMap(record => Object.keys(record.fields || {})))];
+        return fail(
+          `ERROR: These records have no field '${field}'`,
+          known.length ? `Fields: ${known.join(', ')}` : "Sort them without a field to order by text"
+        );
+      }
+
+      const direction = args.reverse ? -1 : 1;
+      const valueOf = (record: PipeRecord) => (field ? record.fields?.[field] : lineText(record.line));
+      const sorted = [...ctx.stdin].sort((a, b) => {
+        const [first, second] = [valueOf(a), valueOf(b)];
+        const firstMissing = first === null || first === undefined;
+        const secondMissing = second === null || second === undefined;
+        if (firstMissing || secondMissing) return Number(firstMissing) - Number(secondMissing);
+        return compareValues(first, second) * direction;
+      });
+      return withRecords(sorted, "Nothing to sort");
+    },
+  },
+  {
+    name: 'head',
+    category: 'pipe',
+    summary: 'Keep the first records',
+    flags: [
+      { name: 'lines', short: 'n', description: 'How many to keep (default 10)', placeholder: 'n', type: 'number' },
+    ],
+    examples: ['todo.list | head -n 3', 'todo.list | sort due | head'],
+    handler: (args, ctx) => {
+      const missing = requireInput(ctx, 'head');
+      if (missing) return missing;
+
+      const count = Math.max(Math.round((args.lines as number) ?? 10), 0);
+      return withRecords(ctx.stdin.slice(0, count), "Nothing to show");
+    },
+  },
+  {
+    name: 'count',
+    aliases: ['wc'],
+    category: 'pipe',
+    summary: 'Count the records',
+    examples: ['todo.list | grep ⏳ | count'],
+    handler: (_args, ctx) => {
+      const missing = requireInput(ctx, 'count');
+      if (missing) return missing;
+      return { ...ok(String(ctx.stdin.length)), records: [{ line: String(ctx.stdin.length) }] };
+    },
+  },
+  {
+    name: 'xargs',
+    category: 'pipe',
+    summary: 'Run a command for every record',
+    details: [
+      "The record's full ID is added as the last argument, so the command acts on that record",
+      "Records without an ID (plain output lines) or of another kind than the command takes are skipped",
+    ],
+    positionals: [
+      { name: 'command', description: 'Command and arguments to run', required: true, variadic: true },
+    ],
+    optionsFirst: true,
+    examples: ['todo.list | grep groceries | xargs todo.complete', 'todo.list | grep ⏳ | xargs todo.priority -p high'],
+    handler: async (_args, ctx) => {
+      const missing = requireInput(ctx, 'xargs');
+      if (missing) return missing;
+
+      // Tokenized again so quoted words of the command stay intact
+      const words = tokenize(ctx.input).slice(1);
+      const target = ctx.registry.find(words[0]);
+      if (target?.name === 'xargs') {
+        return fail("ERROR: xargs cannot run xargs");
+      }
+
+      // A todo id handed to an event command could match an unrelated record by its prefix
+      const refKind = target?.positionals?.find(positional => positional.ref)?.ref;
+      const withId = ctx.stdin.filter(record => record.id);
+      const targets = refKind ? withId.filter(record => record.kind === refKind) : withId;
+      const skipped = withId.length - targets.length;
+      if (targets.length === 0) {
+        return withId.length
+          ? fail(`ERROR: ${words[0]} takes ${refKind}s, but the records piped in are ${[...new Set(withId.map(record => record.kind))].join(', ')} records`)
+          : info("No records with an ID to run it on");
+      }
+
+      // The context the terminal passed in, without this command's input and records
+      const { registry, input, stdin, ...terminal } = ctx;
+      const output: OutputLine[] = [];
+      let failures = 0;
+      for (const record of targets) {
+        const result = await registry.execute([...words, record.id].map(quoteArg).join(' '), terminal);
+        if (!result) continue;
+        if (result.type === 'error') failures++;
+        output.push(...(result.type === 'error'
+          ? result.output.map(line => [{ text: lineText(line), color: '#ef4444' }])
+          : result.output));
+      }
+
+      const summary = `Ran ${words[0]} on ${targets.length} record(s)${failures ? `, ${failures} failed` : ''}` +
+        (skipped ? `; skipped ${skipped} that ${skipped === 1 ? 'is not a' : 'are not'} ${refKind}${skipped === 1 ? '' : 's'}` : '');
+      return failures ? fail(...output, summary) : ok(...output, `[✓] ${summary}`);
+    },
+  },
+];
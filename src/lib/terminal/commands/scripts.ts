@@ -0,0 +1,231 @@
+import { toast } from "@/hooks/use-toast";
+import {
+  deleteScript,
+  isStartupRunning,
+  parseAliasDefinition,
+  runAsStartup,
+  saveScript,
+  saveStartupScript,
+  scriptLines,
+} from "../scripts";
+import { tokenize } from "../parser";
+import { CommandContext, CommandResult, CommandSpec, OutputLine, fail, info, lineText, ok } from "../registry";
+
+const SCRIPT_COLOR = '#a78bfa';
+
+// Macros being run, so one that runs itself (directly or not) stops instead of looping
+const runningMacros = new Set<string>();
+
+// Runs lines one after another like a script: a failing line does not stop the rest
+const runLines = async (lines: string[], ctx: CommandContext): Promise<CommandResult> => {
+  const { registry, input, stdin, ...terminal } = ctx;
+  const output: OutputLine[] = [];
+  let failures = 0;
+
+  for (const line of lines) {
+    const result = await registry.execute(line, terminal);
+    output.push([{ text: `» ${line}`, color: SCRIPT_COLOR }]);
+    if (!result) continue;
+    if (result.type === 'error') failures++;
+    output.push(...(result.type === 'error'
+      ? result.output.map(resultLine => [{ text: lineText(resultLine), color: '#ef4444' }])
+      : result.output));
+  }
+
+  if (failures) {
+    output.push(`${failures} of ${lines.length} command(s) failed`);
+  }
+  return failures === lines.length ? fail(...output) : ok(...output);
+};
+
+const describeScripts = (scripts: Record<string, string>, separator: string) =>
+  Object.entries(scripts).map(([name, body]) => `${name}${separator}${body.replace(/\n/g, '; ')}`);
+
+export const scriptCommands: CommandSpec[] = [
+  {
+    name: 'alias',
+    category: 'scripts',
+    summary: 'List, show or define aliases',
+    details: [
+      "The arguments an alias is called with replace $1..$9 and $@ in it,",
+      "or are added at the end when it has none. Aliases are saved to your account.",
+    ],
+    positionals: [
+      { name: 'definition', description: "name='command' to define, name to show", variadic: true },
+    ],
+    optionsFirst: true,
+    examples: [
+      "alias",
+      "alias todos='todo.list -p high'",
+      "alias done='todo.complete $1 && todo.list'",
+      "alias gm='time.start standup && cal.today'",
+    ],
+    handler: async (args, ctx) => {
+      const definition = args.definition as string | undefined;
+      const { aliases } = ctx.scripts;
+
+      if (!definition) {
+        const lines = describeScripts(aliases, '=');
+        return lines.length ? ok("ALIASES:", "", ...lines) : info("No aliases yet. Define one with alias name='command'");
+      }
+
+      const parsed = parseAliasDefinition(definition);
+      if (!parsed || !parsed.body) {
+        const name = parsed?.name || definition;
+        return aliases[name] !== undefined ? ok(`${name}=${aliases[name]}`) : fail(`ERROR: No alias '${name}'`);
+      }
+
+      try {
+        await saveScript('alias', parsed.name, parsed.body);
+      } catch (error) {
+        return fail(`ERROR: ${error.message}`);
+      }
+      aliases[parsed.name] = parsed.body;
+      return ok(`[✓] Alias saved: ${parsed.name}=${parsed.body}`);
+    },
+  },
+  {
+    name: 'unalias',
+    category: 'scripts',
+    summary: 'Delete an alias',
+    positionals: [
+      { name: 'name', description: 'Alias to delete', required: true, complete: (ctx) => Object.keys(ctx.scripts.aliases) },
+    ],
+    handler: async (args, ctx) => {
+      const name = args.name as string;
+      if (ctx.scripts.aliases[name] === undefined) {
+        return fail(`ERROR: No alias '${name}'`);
+      }
+      await deleteScript('alias', name);
+      delete ctx.scripts.aliases[name];
+      return ok(`[✓] Alias ${name} deleted`);
+    },
+  },
+  {
+    name: 'macro.save',
+    category: 'scripts',
+    summary: 'Save a macro (several commands under one name)',
+    details: [
+      "Separate commands with ; or && here, or put one per line in Settings",
+      "Saving under an existing name replaces that macro",
+    ],
+    positionals: [
+      { name: 'name', description: 'Macro name', required: true },
+      { name: 'commands', description: 'Commands to run, quoted', required: true, variadic: true },
+    ],
+    optionsFirst: true,
+    examples: [
+      "macro.save morning 'time.stop; time.start Email && cal.today; todo.list | grep ⏳ | head -n 5'",
+      "macro.save log 'time.start $1 --project $2'",
+    ],
+    handler: async (args, ctx) => {
+      const name = args.name as string;
+      const body = (args.commands as string).trim();
+      try {
+        await saveScript('macro', name, body);
+      } catch (error) {
+        return fail(`ERROR: ${error.message}`);
+      }
+      ctx.scripts.macros[name] = body;
+      toast({
+        title: "Macro saved",
+        description: `Run it with run ${name}`,
+      });
+      return ok(`[✓] Macro ${name} saved. Run it with: run ${name}`);
+    },
+  },
+  {
+    name: 'macro.list',
+    category: 'scripts',
+    summary: 'List your macros',
+    handler: (_args, ctx) => {
+      const lines = describeScripts(ctx.scripts.macros, ': ');
+      return lines.length ? ok("MACROS:", "", ...lines) : info("No macros yet. Save one with macro.save or in Settings");
+    },
+  },
+  {
+    name: 'macro.delete',
+    category: 'scripts',
+    summary: 'Delete a macro',
+    positionals: [
+      { name: 'name', description: 'Macro to delete', required: true, complete: (ctx) => Object.keys(ctx.scripts.macros) },
+    ],
+    handler: async (args, ctx) => {
+      const name = args.name as string;
+      if (ctx.scripts.macros[name] === undefined) {
+        return fail(`ERROR: No macro '${name}'`);
+      }
+      await deleteScript('macro', name);
+      delete ctx.scripts.macros[name];
+      return ok(`[✓] Macro ${name} deleted`);
+    },
+  },
+  {
+    name: 'run',
+    category: 'scripts',
+    summary: 'Run a macro',
+    details: ["Extra arguments replace $1..$9 and $@ in the macro"],
+    positionals: [
+      { name: 'macro', description: 'Macro name', required: true, complete: (ctx) => Object.keys(ctx.scripts.macros) },
+      { name: 'args', description: 'Arguments for the macro', variadic: true },
+    ],
+    optionsFirst: true,
+    examples: ['run morning', "run log 'Code review' Acme"],
+    handler: async (args, ctx) => {
+      const name = args.macro as string;
+      const body = ctx.scripts.macros[name];
+      if (body === undefined) {
+        const names = Object.keys(ctx.scripts.macros);
+        return fail(`ERROR: No macro '${name}'`, names.length ? `Macros: ${names.join(', ')}` : "Save one with macro.save");
+      }
+      if (runningMacros.has(name)) {
+        return fail(`ERROR: Macro ${name} runs itself`);
+      }
+
+      // Tokenized again so quoted arguments stay single words
+      const macroArgs = tokenize(ctx.input).slice(2);
+      runningMacros.add(name);
+      try {
+        return await runLines(scriptLines(body, macroArgs), ctx);
+      } finally {
+        runningMacros.delete(name);
+      }
+    },
+  },
+  {
+    name: 'startup',
+    category: 'scripts',
+    summary: 'Show, set or run the startup script',
+    details: ["The startup script runs each time the terminal loads, one command per line or separated by ;"],
+    flags: [
+      { name: 'set', description: 'Replace the startup script', placeholder: 'commands' },
+      { name: 'clear', description: 'Turn the startup script off', type: 'boolean' },
+      { name: 'run', description: 'Run it now', type: 'boolean' },
+    ],
+    examples: ["startup --set 'cal.today; todo.list | grep ⏳ | head'", 'startup --run', 'startup --clear'],
+    handler: async (args, ctx) => {
+      if (args.set !== undefined || args.clear) {
+        const body = args.clear ? '' : (args.set as string).trim();
+        try {
+          await saveStartupScript(body);
+        } catch (error) {
+          return fail(`ERROR: ${error.message}`);
+        }
+        ctx.scripts.startup = body;
+        return ok(body.trim() ? "[✓] Startup script saved" : "[✓] Startup script turned off");
+      }
+
+      const { startup } = ctx.scripts;
+      if (!startup) {
+        return info("No startup script. Set one with startup --set '<commands>' or in Settings");
+      }
+      if (args.run) {
+        if (isStartupRunning()) {
+          return fail("ERROR: The startup script is already running");
+        }
+        return runAsStartup(() => runLines(scriptLines(startup), ctx));
+      }
+      return ok("STARTUP SCRIPT:", "", ...scriptLines(startup));
+    },
+  },
+];
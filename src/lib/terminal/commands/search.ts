@@ -0,0 +1,65 @@
+import { SEARCH_KINDS, SEARCH_KIND_PATHS, SearchKind, searchAll, splitSnippet } from "@/lib/search";
+import { CommandSpec, OutputLine, OutputSegment, fail, info, ok } from "../registry";
+
+const MATCH_COLOR = '#f59e0b';
+
+// Snippets span lines of the original text; the terminal shows them on one
+const highlight = (text: string): OutputSegment[] =>
+  splitSnippet(text.replace(/\s+/g, ' ')).map(part => (part.match ? { text: part.text, color: MATCH_COLOR } : { text: part.text }));
+
+export const searchCommands: CommandSpec[] = [
+  {
+    name: 'search',
+    aliases: ['find'],
+    category: 'system',
+    summary: 'Search notes, todos, events and time logs',
+    details: [
+      "Results are ranked, best first; title matches count more than body matches",
+      "Every word must match; words also match longer ones (plan -> planning)",
+    ],
+    positionals: [
+      { name: 'query', description: 'Words to look for', required: true, variadic: true },
+    ],
+    flags: [
+      { name: 'type', short: 't', description: 'Only one kind of result', placeholder: 'kind', choices: SEARCH_KINDS },
+      { name: 'limit', short: 'n', description: 'Maximum number of results (default 10)', placeholder: 'n', type: 'number' },
+      { name: 'open', short: 'o', description: 'Go to the page of the best match', type: 'boolean' },
+    ],
+    examples: ["search quarterly report", "search standup --type event", "search invoice -n 3 --open"],
+    handler: async (args, ctx) => {
+      const query = args.query as string;
+      const limit = Math.max(Math.round((args.limit as number) || 10), 1);
+      const kinds = args.type ? [args.type as SearchKind] : undefined;
+
+      let results;
+      try {
+        results = await searchAll(query, { kinds, limit });
+      } catch (error) {
+        return fail(`ERROR: ${error.message}`);
+      }
+
+      if (results.length === 0) {
+        return info(`No results for "${query}"`);
+      }
+
+      const output: OutputLine[] = [`Found ${results.length} result(s) for "${query}":`, ""];
+      results.forEach((result, index) => {
+        output.push([
+          { text: `${index + 1}. [${result.kind}] ` },
+          ...highlight(result.headline),
+          { text: ` (${result.date}, ID: ${result.id.substring(0, 8)})` },
+        ]);
+        if (result.snippet) {
+          output.push([{ text: '    ' }, ...highlight(result.snippet)]);
+        }
+      });
+
+      if (args.open) {
+        const best = results[0];
+        ctx.navigate(best.kind === 'note' ? `/notes?note=${best.id}` : SEARCH_KIND_PATHS[best.kind]);
+        output.push("", `[✓] Opened ${best.kind} "${best.title}"`);
+      }
+      return ok(...output);
+    },
+  },
+];
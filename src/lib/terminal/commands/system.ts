@@ -0,0 +1,163 @@
+import { format } from "date-fns";
+import { toast } from "@/hooks/use-toast";
+import { CommandSpec, fail, info, ok } from "../registry";
+
+const THEMES: { name: string; description: string }[] = [
+  { name: 'green', description: 'Matrix-style green theme' },
+  { name: 'purple', description: 'Cyberpunk purple theme (default)' },
+  { name: 'red', description: 'Alert red theme' },
+  { name: 'black', description: 'Monochrome black/white theme' },
+];
+
+const PAGE_NAMES: { [path: string]: string } = {
+  '/': 'dashboard',
+  '/dashboard': 'dashboard',
+  '/todos': 'todos',
+  '/timelog': 'timelog',
+  '/calendar': 'calendar',
+  '/notes': 'notes',
+  '/settings': 'settings',
+};
+
+export const systemCommands: CommandSpec[] = [
+  {
+    name: 'help',
+    category: 'system',
+    summary: 'Detailed help',
+    positionals: [
+      {
+        name: 'command',
+        description: 'Command to describe',
+        complete: (ctx) => ctx.registry.commands.map(spec => ({ value: spec.name, description: spec.summary })),
+      },
+    ],
+    examples: ['help', 'help todo.add'],
+    handler: (args, ctx) => {
+      const name = args.command as string | undefined;
+      if (!name) {
+        return ok(...ctx.registry.overview());
+      }
+
+      const spec = ctx.registry.find(name);
+      if (!spec) {
+        const suggestion = ctx.registry.suggest(name);
+        return fail(
+          `No help available for '${name}'`,
+          ...(suggestion ? [`Did you mean '${suggestion}'?`] : [])
+        );
+      }
+      return ok(...ctx.registry.help(spec));
+    },
+  },
+  {
+    name: 'sys.status',
+    category: 'system',
+    summary: 'System information',
+    handler: (_args, ctx) => ok(
+      "SYSTEM STATUS:",
+      "├── Neural Interface: ONLINE",
+      "├── Productivity Matrix: ACTIVE",
+      "├── Database: CONNECTED",
+      `├── Current Location: ${PAGE_NAMES[ctx.currentPath] || 'unknown'}`,
+      `├── Active Time Log: ${ctx.runningTimer ? ctx.runningTimer.activity : 'None'}`,
+      `├── Memory Usage: ${Math.round(Math.random() * 100)}%`,
+      "└── Threat Level: MINIMAL",
+      "",
+      `Current Time: ${format(new Date(), 'yyyy-MM-dd HH:mm:ss')}`
+    ),
+  },
+  {
+    name: 'theme.change',
+    category: 'system',
+    summary: 'Switch the color scheme',
+    positionals: [
+      { name: 'theme', description: `One of ${THEMES.map(t => t.name).join(', ')} (a leading '-' is allowed)`, required: true, complete: () => THEMES.map(t => t.name) },
+    ],
+    details: [
+      "Available themes:",
+      ...THEMES.map((theme, index) =>
+        `${index === THEMES.length - 1 ? '└──' : '├──'} ${theme.name} - ${theme.description}`
+      ),
+    ],
+    examples: ['theme.change -green', 'theme.change purple'],
+    handler: (args, ctx) => {
+      const themeArg = args.theme as string;
+      const theme = themeArg.startsWith('-') ? themeArg.substring(1) : themeArg;
+
+      if (!THEMES.some(t => t.name === theme)) {
+        return fail(
+          `ERROR: Invalid theme '${theme}'`,
+          `Available themes: ${THEMES.map(t => t.name).join(', ')}`
+        );
+      }
+
+      ctx.setTheme(theme);
+      toast({
+        title: "Theme Changed",
+        description: `Switched to ${theme} theme`,
+      });
+      return ok(
+        `[✓] Theme changed to ${theme.toUpperCase()}`,
+        `Color scheme updated successfully`,
+        `Theme persisted to local storage`
+      );
+    },
+  },
+  {
+    name: 'history',
+    category: 'system',
+    summary: 'Command history',
+    details: [
+      "Run an earlier command again with !n (its number here), !! for the last one or !-n",
+      "Ctrl+R searches the history while typing",
+    ],
+    flags: [
+      { name: 'grep', short: 'g', description: 'Only commands containing this text', placeholder: 'text' },
+      { name: 'limit', short: 'n', description: 'How many of the latest commands to show (default 20)', placeholder: 'n', type: 'number' },
+      { name: 'clear', description: 'Delete the saved history', type: 'boolean' },
+    ],
+    examples: ['history', 'history -n 50', 'history --grep todo.add', 'history --clear'],
+    handler: async (args, ctx) => {
+      if (args.clear) {
+        await ctx.clearHistory();
+        return ok("[✓] Command history cleared");
+      }
+
+      const grep = (args.grep as string | undefined)?.toLowerCase();
+      const limit = Math.max(Math.round((args.limit as number) || 20), 1);
+      const entries = ctx.commandHistory
+        .map((command, index) => ({ command, number: index + 1 }))
+        .filter(entry => !grep || entry.command.toLowerCase().includes(grep))
+        .slice(-limit);
+
+      if (entries.length === 0) {
+        return info(grep ? `No commands matching "${args.grep}"` : "No commands yet");
+      }
+      return ok(
+        grep ? `COMMAND HISTORY matching "${args.grep}":` : "COMMAND HISTORY:",
+        "",
+        ...entries.map(entry => `${entry.number}. ${entry.command}`)
+      );
+    },
+  },
+  {
+    name: 'clear',
+    category: 'system',
+    summary: 'Clear terminal',
+    handler: (_args, ctx) => {
+      ctx.clear();
+    },
+  },
+  {
+    name: 'hack.time',
+    category: 'system',
+    summary: 'Inspect the temporal matrix',
+    handler: (_args, ctx) => ok(
+      `> Accessing temporal matrix...`,
+      `> Current timestamp: ${Date.now()}`,
+      `> Local time: ${format(new Date(), 'yyyy-MM-dd HH:mm:ss')}`,
+      `> Time zone: ${Intl.DateTimeFormat().resolvedOptions().timeZone}`,
+      `> Active session: ${ctx.runningTimer ? ctx.runningTimer.activity : 'None'}`
+    ),
+  },
+];
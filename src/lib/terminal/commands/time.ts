@@ -0,0 +1,222 @@
+import { format } from "date-fns";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchRunningTimer, formatElapsed, getElapsedMs, isRunning, startTimer, stopTimer } from "@/lib/timer";
+import { IdleResolution, findIdlePeriod, getLastActivity, idleMinutes, resolveIdleTime } from "@/lib/idleTime";
+import { formatEntryRange, isTimedEntry } from "@/lib/timeEntries";
+import { Project, fetchProjects, findProject, parseTags } from "@/lib/projects";
+import { CommandSpec, OutputLine, PipeRecord, fail, info, ok } from "../registry";
+import { completeRef, resolveRef } from "../refs";
+
+export const timeCommands: CommandSpec[] = [
+  {
+    name: 'time.start',
+    category: 'time',
+    summary: 'Start tracking',
+    details: [
+      "Auto-stops previous activity if running, on any device",
+      "With --todo the time counts towards that task; the activity defaults to its text",
+      "Projects are set up in Settings and matched by name",
+    ],
+    positionals: [
+      { name: 'activity', description: 'What you are working on', variadic: true },
+    ],
+    flags: [
+      { name: 'todo', short: 't', description: 'Todo to track against: ID, short ID, #n from todo.list or part of its text', placeholder: 'todo', complete: completeRef('todo') },
+      { name: 'project', short: 'p', description: 'Project to book the time on', placeholder: 'name' },
+      { name: 'tags', description: 'Comma-separated tags', placeholder: 'a,b' },
+    ],
+    examples: [
+      "time.start 'Deep work session'",
+      "time.start 'Meeting with team'",
+      "time.start --todo 3f2a9c1e",
+      "time.start 'Write tests' -t #2",
+      "time.start 'Homepage redesign' --project Acme --tags design,review",
+    ],
+    handler: async (args, ctx) => {
+      let activity = args.activity as string | undefined;
+      let todo: { id: string; text: string } | null = null;
+      const output: string[] = [];
+
+      if (args.todo) {
+        const resolved = await resolveRef('todo', args.todo as string, ctx);
+        if ('error' in resolved) return resolved.error;
+        todo = { id: resolved.record.id, text: resolved.record.label };
+        activity = activity || todo.text;
+      }
+      if (!activity) {
+        return fail("ERROR: Missing required argument <activity>", "Give an activity or --todo <id>");
+      }
+
+      let project: Project | null = null;
+      if (args.project) {
+        const projects = await fetchProjects();
+        project = findProject(projects, args.project as string) || null;
+        if (!project) {
+          return fail(
+            `ERROR: Unknown project '${args.project}'`,
+            projects.length
+              ? `Available projects: ${projects.map(p => p.name).join(', ')}`
+              : "Create projects in Settings first"
+          );
+        }
+      }
+      const tags = args.tags ? parseTags(args.tags as string) : [];
+
+      const { stopped } = await startTimer(activity, { todoId: todo?.id, projectId: project?.id, tags });
+      if (stopped) {
+        output.push(`[✓] Stopped: "${stopped.activity}" (${stopped.duration} minutes)`);
+      }
+
+      toast({
+        title: "Time tracking started",
+        description: activity,
+      });
+      const details = [
+        todo && `todo ${todo.id.substring(0, 8)}`,
+        project && `project ${project.name}`,
+        tags.length > 0 && `tags ${tags.join(', ')}`,
+      ].filter(Boolean);
+      return ok(
+        ...output,
+        `[✓] Started tracking: "${activity}"${details.length ? ` (${details.join('; ')})` : ''}`
+      );
+    },
+  },
+  {
+    name: 'time.stop',
+    category: 'time',
+    summary: 'Stop current session',
+    details: [
+      "A timer with idle time in it, or one running past the limit set in Settings,",
+      "is only stopped once you say what to do with that time",
+    ],
+    flags: [
+      { name: 'keep', description: 'Count the idle time as work', type: 'boolean' },
+      { name: 'discard', description: 'End the entry where the idle time began', type: 'boolean' },
+      { name: 'split', description: 'Log the idle time as a separate entry', placeholder: 'activity' },
+    ],
+    examples: ["time.stop", "time.stop --discard", "time.stop --split 'Lunch'"],
+    handler: async (args) => {
+      const timer = await fetchRunningTimer();
+      if (!timer) {
+        return fail("No active time tracking session");
+      }
+
+      const period = findIdlePeriod(timer, getLastActivity());
+      const resolution: IdleResolution | null =
+        args.split !== undefined ? 'split' : args.discard ? 'discard' : args.keep ? 'keep' : null;
+      if (period && !resolution) {
+        return info(
+          `"${timer.activity}" ${period.reason === 'idle' ? 'has idle time' : 'has been running for a long time'}:`,
+          `    ${idleMinutes(period)} minutes since ${format(period.from, 'yyyy-MM-dd HH:mm')} may not have been work`,
+          "",
+          "Stop it with one of:",
+          "  time.stop --keep              count it as work",
+          `  time.stop --discard           end the entry at ${format(period.from, 'HH:mm')}`,
+          "  time.stop --split <activity>  log it as a separate entry"
+        );
+      }
+
+      const stopped = period
+        ? await resolveIdleTime(timer, period, resolution, { splitActivity: args.split as string })
+        : await stopTimer(timer);
+      if (!stopped) {
+        return fail("No active time tracking session");
+      }
+
+      toast({
+        title: "Time tracking stopped",
+        description: `${stopped.activity} - ${stopped.duration}m`,
+      });
+      return ok(`[✓] Stopped: "${stopped.activity}" (${stopped.duration} minutes)`);
+    },
+  },
+  {
+    name: 'time.status',
+    category: 'time',
+    summary: 'Show active session',
+    handler: async () => {
+      const timer = await fetchRunningTimer();
+      if (!timer) {
+        return info("No active time tracking session");
+      }
+
+      return ok(
+        "ACTIVE TIME TRACKING:",
+        `├── Activity: ${timer.activity}`,
+        ...(timer.todo_id ? [`├── Todo: ${timer.todo_id.substring(0, 8)}`] : []),
+        ...(timer.tags?.length ? [`├── Tags: ${timer.tags.join(', ')}`] : []),
+        `├── Started: ${format(new Date(timer.started_at), 'yyyy-MM-dd HH:mm:ss')}`,
+        `└── Elapsed: ${formatElapsed(getElapsedMs(timer))}`
+      );
+    },
+  },
+  {
+    name: 'time.log',
+    category: 'time',
+    summary: 'Manual entry',
+    positionals: [
+      { name: 'activity', description: 'What you worked on', required: true, variadic: true },
+      { name: 'minutes', description: 'Duration in minutes', required: true, type: 'number' },
+    ],
+    examples: ["time.log 'Code review' 45"],
+    handler: (args, ctx) => {
+      const activity = args.activity as string;
+      const duration = Math.round(args.minutes as number);
+
+      ctx.onAddTimeLog?.(activity, duration);
+      toast({
+        title: "Time logged via terminal",
+        description: `${activity} - ${duration}m`,
+      });
+      return ok(`[✓] Time logged: "${activity}" - ${duration} minutes`);
+    },
+  },
+  {
+    name: 'time.today',
+    category: 'time',
+    summary: "Today's summary",
+    details: ["Piped, every finished session is a record with the fields activity, duration and start"],
+    examples: ['time.today', 'time.today | sort duration -r | head -n 3'],
+    handler: async () => {
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const { data: logs, error } = await supabase
+        .from('time_logs')
+        .select('*')
+        .eq('date', today)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        return fail(`ERROR: ${error.message}`);
+      }
+
+      const running = logs?.find(isRunning);
+      const finished = logs?.filter(log => !isRunning(log)) || [];
+      const totalTime = finished.reduce((sum, log) => sum + log.duration, 0);
+      const output: OutputLine[] = [
+        `TODAY'S TIME SUMMARY (${today}):`,
+        `├── Total time: ${totalTime} minutes (${Math.round(totalTime / 60 * 10) / 10}h)`,
+        `├── Sessions: ${finished.length}`,
+        ""
+      ];
+
+      if (running) {
+        output.push(`▶ Running: ${running.activity} (${formatElapsed(getElapsedMs(running))})`, "");
+      }
+      const records: PipeRecord[] = finished.map((log, index) => {
+        const range = isTimedEntry(log) ? ` (${formatEntryRange(log)})` : '';
+        return {
+          line: `${index + 1}. ${log.activity} - ${log.duration}m${range}`,
+          kind: 'time',
+          id: log.id,
+          fields: { activity: log.activity, duration: log.duration, start: log.started_at ?? log.created_at },
+        };
+      });
+      if (finished.length) {
+        output.push("Recent sessions:", ...records.slice(0, 5).map(record => record.line));
+      }
+      return { ...ok(...output), records };
+    },
+  },
+];
@@ -0,0 +1,288 @@
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { CommandFlagSpec, CommandSpec, OutputLine, OutputSegment, PipeRecord, fail, info, ok } from "../registry";
+import { TerminalPriority, describePriorities, findPriority, prioritySegment } from "../priorities";
+import { completeRef, describeRef, resolveRef } from "../refs";
+import { formatDue, getDueGroup, parseDueInput } from "@/lib/dueDates";
+import { describeRecurrence, isRecurring, parseRecurrenceInput, spawnNextOccurrence } from "@/lib/recurrence";
+
+const priorityFlag = (description: string, required = false): CommandFlagSpec => ({
+  name: 'priority',
+  short: 'p',
+  description: `${description} (your priorities from Settings)`,
+  placeholder: 'priority',
+  required,
+  complete: (ctx) => ctx.priorities.map(p => p.name),
+});
+
+const DUE_FORMATS = "today, tomorrow, +3d, +2w, YYYY-MM-DD or YYYY-MM-DDTHH:mm";
+
+const completeDue = () => ['today', 'tomorrow', '+1d', '+3d', '+1w'];
+
+const REPEAT_FORMATS = "daily, weekdays, weekly, 3d, 2w, monthly:15 or after:5d";
+
+const invalidPriority = (name: string, priorities: TerminalPriority[]) => fail(
+  `ERROR: Invalid priority '${name}'`,
+  `Available priorities: ${describePriorities(priorities)}`
+);
+
+export const todoCommands: CommandSpec[] = [
+  {
+    name: 'todo.add',
+    category: 'todo',
+    summary: 'Add a new todo item',
+    positionals: [
+      { name: 'task', description: 'Task description', required: true, variadic: true },
+    ],
+    flags: [
+      priorityFlag('Task priority, defaults to medium or your first priority'),
+      { name: 'due', short: 'd', description: `Due date (${DUE_FORMATS})`, placeholder: 'when', complete: completeDue },
+      { name: 'start', short: 's', description: 'Hide from focus until this date', placeholder: 'when', complete: completeDue },
+      {
+        name: 'repeat',
+        short: 'r',
+        description: `Recurrence (${REPEAT_FORMATS})`,
+        placeholder: 'rule',
+        complete: () => ['daily', 'weekdays', 'weekly', 'monthly:1', 'after:1d'],
+      },
+    ],
+    examples: [
+      "todo.add 'Complete project' -p high",
+      "todo.add 'Review code' --priority=medium",
+      "todo.add 'Send invoice' --due tomorrow",
+      "todo.add 'Call dentist' -d 2025-09-12T14:30 --start +2d",
+      "todo.add 'Weekly report' -d today --repeat weekly",
+    ],
+    handler: async (args, ctx) => {
+      const taskText = args.task as string;
+      const priorities = await ctx.refreshPriorities();
+      const requested = args.priority as string | undefined;
+
+      // Without an explicit priority, fall back to the first one when 'medium' was removed
+      const chosen = requested
+        ? findPriority(requested, priorities)
+        : findPriority('medium', priorities) || priorities[0];
+      if (!chosen) return invalidPriority(requested, priorities);
+
+      const due = args.due ? parseDueInput(args.due as string) : null;
+      if (args.due && !due) {
+        return fail(`ERROR: Invalid due date '${args.due}'`, `Use ${DUE_FORMATS}`);
+      }
+      const start = args.start ? parseDueInput(args.start as string) : null;
+      if (args.start && !start) {
+        return fail(`ERROR: Invalid start date '${args.start}'`, `Use ${DUE_FORMATS}`);
+      }
+
+      const repeat = args.repeat ? parseRecurrenceInput(args.repeat as string) : null;
+      if (args.repeat && !repeat) {
+        return fail(`ERROR: Invalid repeat rule '${args.repeat}'`, `Use ${REPEAT_FORMATS}`);
+      }
+
+      const dates = {
+        due_date: due?.date ?? null,
+        due_time: due?.time ?? null,
+        start_date: start?.date ?? null,
+        ...repeat,
+      };
+      ctx.onAddTodo?.(taskText, chosen.name, dates);
+      toast({
+        title: "Task added via terminal",
+        description: taskText,
+      });
+      return ok([
+        { text: `[✓] Task added: "${taskText}" (priority: ` },
+        { text: chosen.name, color: chosen.color },
+        { text: due ? `, due ${formatDue(dates)}` : '' },
+        { text: repeat ? `, repeats ${describeRecurrence(repeat).toLowerCase()})` : ')' },
+      ]);
+    },
+  },
+  {
+    name: 'todo.list',
+    category: 'todo',
+    summary: 'List todos, optionally filtered by priority',
+    details: [
+      "Other todo commands accept the numbers shown as #n, e.g. todo.complete #2",
+      "Piped, each todo is a record with the fields text, priority, due, created and done",
+    ],
+    flags: [
+      priorityFlag('Only show todos with this priority'),
+    ],
+    examples: ['todo.list', 'todo.list -p high', 'todo.list | grep deploy | sort due'],
+    handler: async (args, ctx) => {
+      let query = supabase.from('todos').select('*').order('created_at', { ascending: false });
+      const priorities = await ctx.refreshPriorities();
+
+      if (args.priority) {
+        const priority = findPriority(args.priority as string, priorities);
+        if (!priority) return invalidPriority(args.priority as string, priorities);
+        query = query.eq('priority', priority.name);
+      }
+
+      const { data: todos, error } = await query;
+
+      if (error) {
+        return fail(`ERROR: ${error.message}`);
+      }
+      if (!todos?.length) {
+        return { ...info("No todos found"), records: [] };
+      }
+      ctx.setListing('todo', todos.map(todo => todo.id));
+
+      const output: OutputLine[] = [`Found ${todos.length} todo(s):`, ""];
+      const records: PipeRecord[] = [];
+      todos.forEach((todo, index) => {
+        const status = todo.completed ? '✅' : '⏳';
+        const shortId = todo.id.substring(0, 8);
+        const line: OutputSegment[] = [
+          { text: `${index + 1}. ${status} ` },
+          prioritySegment(todo.priority, priorities),
+          { text: ` ${todo.text} (ID: ${shortId})` },
+        ];
+        if (todo.due_date && !todo.completed) {
+          const overdue = getDueGroup(todo) === 'overdue';
+          line.push({
+            text: overdue ? ` OVERDUE ${formatDue(todo)}` : ` due ${formatDue(todo)}`,
+            color: overdue ? '#ef4444' : undefined,
+          });
+        }
+        if (isRecurring(todo)) {
+          line.push({ text: ` ↻ ${describeRecurrence(todo)}` });
+        }
+        output.push(line);
+        records.push({
+          line,
+          kind: 'todo',
+          id: todo.id,
+          fields: {
+            text: todo.text,
+            priority: findPriority(todo.priority, priorities)?.sort_order ?? null,
+            due: todo.due_date ? `${todo.due_date}${todo.due_time ? `T${todo.due_time}` : ''}` : null,
+            created: todo.created_at,
+            done: todo.completed ? 1 : 0,
+          },
+        });
+      });
+      return { ...ok(...output), records };
+    },
+  },
+  {
+    name: 'todo.complete',
+    category: 'todo',
+    summary: 'Mark a todo as completed',
+    positionals: [
+      { name: 'todo', description: describeRef('todo'), required: true, complete: completeRef('todo'), ref: 'todo' },
+    ],
+    examples: ['todo.complete 3f2a9c1e', 'todo.complete #2', "todo.complete 'buy milk'"],
+    handler: async (args, ctx) => {
+      const resolved = await resolveRef('todo', args.todo as string, ctx);
+      if ('error' in resolved) return resolved.error;
+
+      const todoId = resolved.record.id;
+      const { data, error } = await supabase
+        .from('todos')
+        .update({ completed: true, completed_at: new Date().toISOString() })
+        .eq('id', todoId)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        return fail(`ERROR: ${error.message}`);
+      }
+      if (!data) {
+        return fail(`ERROR: Todo ${todoId.substring(0, 8)} not found`);
+      }
+
+      toast({
+        title: "Todo completed",
+        description: "Task marked as completed via terminal",
+      });
+      const output = [`[✓] Todo ${todoId.substring(0, 8)} "${data.text}" marked as completed`];
+
+      if (isRecurring(data)) {
+        try {
+          const [next] = await spawnNextOccurrence(data.id);
+          if (next) {
+            output.push(`[↻] Next occurrence due ${formatDue(next)} (ID: ${next.id.substring(0, 8)})`);
+          }
+        } catch (spawnError) {
+          return fail(...output, `ERROR: Could not schedule next occurrence: ${spawnError.message}`);
+        }
+      }
+      return ok(...output);
+    },
+  },
+  {
+    name: 'todo.priority',
+    category: 'todo',
+    summary: 'Change the priority of a todo',
+    positionals: [
+      { name: 'todo', description: describeRef('todo'), required: true, complete: completeRef('todo'), ref: 'todo' },
+    ],
+    flags: [
+      priorityFlag('New priority', true),
+    ],
+    examples: ['todo.priority 3f2a9c1e -p high', 'todo.priority #1 -p low'],
+    handler: async (args, ctx) => {
+      const priorities = await ctx.refreshPriorities();
+      const priority = findPriority(args.priority as string, priorities);
+      if (!priority) return invalidPriority(args.priority as string, priorities);
+
+      const resolved = await resolveRef('todo', args.todo as string, ctx);
+      if ('error' in resolved) return resolved.error;
+
+      const todoId = resolved.record.id;
+      const { data, error } = await supabase
+        .from('todos')
+        .update({ priority: priority.name })
+        .eq('id', todoId)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        return fail(`ERROR: ${error.message}`);
+      }
+      if (!data) {
+        return fail(`ERROR: Todo ${todoId.substring(0, 8)} not found`);
+      }
+
+      toast({
+        title: "Priority updated",
+        description: `"${data.text}" set to ${priority.name}`,
+      });
+      return ok([
+        { text: `[✓] Todo ${todoId.substring(0, 8)} priority set to ` },
+        { text: priority.name, color: priority.color },
+      ]);
+    },
+  },
+  {
+    name: 'todo.delete',
+    category: 'todo',
+    summary: 'Delete a todo',
+    positionals: [
+      { name: 'todo', description: describeRef('todo'), required: true, complete: completeRef('todo'), ref: 'todo' },
+    ],
+    examples: ['todo.delete 3f2a9c1e', 'todo.delete #3', 'todo.delete groceries'],
+    handler: async (args, ctx) => {
+      const resolved = await resolveRef('todo', args.todo as string, ctx);
+      if ('error' in resolved) return resolved.error;
+
+      const todo = resolved.record;
+      const { error } = await supabase
+        .from('todos')
+        .delete()
+        .eq('id', todo.id);
+
+      if (error) {
+        return fail(`ERROR: ${error.message}`);
+      }
+
+      toast({
+        title: "Todo deleted",
+        description: "Task deleted via terminal",
+      });
+      return ok(`[✓] Todo ${todo.id.substring(0, 8)} "${todo.label}" deleted`);
+    },
+  },
+];
@@ -0,0 +1,67 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Commands typed into the terminal, kept per user in the database. Numbers shown by
+// `history` are positions in the loaded list, starting at 1, which is what !n refers to.
+
+export const HISTORY_LIMIT = 500;
+
+export type HistoryExpansion = { input: string } | { error: string };
+
+// Oldest first, like the list the terminal keeps in memory
+export const fetchHistory = async (): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('terminal_history')
+    .select('command')
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_LIMIT);
+
+  if (error) throw error;
+  return (data || []).map(entry => entry.command).reverse();
+};
+
+export const appendHistory = async (command: string) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const { error } = await supabase
+    .from('terminal_history')
+    .insert({ command, user_id: user.id });
+
+  if (error) throw error;
+};
+
+export const clearHistory = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const { error } = await supabase
+    .from('terminal_history')
+    .delete()
+    .eq('user_id', user.id);
+
+  if (error) throw error;
+};
+
+// "!!" repeats the last command, "!n" command n and "!-n" the n-th last; anything after
+// them is appended, so "!! --help" works. Other input is returned unchanged.
+export const expandHistory = (input: string, history: string[]): HistoryExpansion => {
+  const match = input.match(/^!(!|-?\d+)(\s.*)?$/);
+  if (!match) return { input };
+
+  const [, event, rest = ''] = match;
+  const index = event === '!' ? history.length - 1 : Number(event) < 0 ? history.length + Number(event) : Number(event) - 1;
+  const command = history[index];
+  if (index < 0 || !command) {
+    return { error: `!${event}: event not found` };
+  }
+  return { input: `${command}${rest}` };
+};
+
+// Index of the latest entry before `before` containing the query, or -1
+export const searchHistory = (history: string[], query: string, before = history.length) => {
+  const needle = query.toLowerCase();
+  for (let i = Math.min(before, history.length) - 1; i >= 0; i--) {
+    if (history[i].toLowerCase().includes(needle)) return i;
+  }
+  return -1;
+};
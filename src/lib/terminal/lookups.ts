@@ -0,0 +1,25 @@
+import { supabase } from "@/integrations/supabase/client";
+import { RefKind, RefRecord, fetchRefRecords } from "./refs";
+
+// Data Tab completion draws on. Completion runs on every keystroke, so the terminal
+// loads this ahead of time instead of querying while the user types.
+export type TerminalLookups = Record<RefKind, RefRecord[]> & {
+  noteTags: string[];
+};
+
+export const EMPTY_LOOKUPS: TerminalLookups = { todo: [], event: [], noteTags: [] };
+
+const fetchNoteTags = async () => {
+  const { data, error } = await supabase.from('notes').select('tags');
+  if (error) throw error;
+  return [...new Set((data || []).flatMap(note => note.tags || []))].sort();
+};
+
+export const fetchLookups = async (): Promise<TerminalLookups> => {
+  const [todo, event, noteTags] = await Promise.all([
+    fetchRefRecords('todo'),
+    fetchRefRecords('event'),
+    fetchNoteTags(),
+  ]);
+  return { todo, event, noteTags };
+};
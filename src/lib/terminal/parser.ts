@@ -0,0 +1,313 @@
+import { isValid, parseISO } from "date-fns";
+
+export type ArgType = 'string' | 'number' | 'boolean' | 'date' | 'list';
+
+export type ArgValue = string | number | boolean | Date | string[] | undefined;
+
+export interface PositionalSpec {
+  name: string;
+  description: string;
+  type?: Exclude<ArgType, 'boolean'>;
+  required?: boolean;
+  // Consumes every remaining word, joined with spaces (e.g. unquoted task text)
+  variadic?: boolean;
+  choices?: string[];
+}
+
+export interface FlagSpec {
+  name: string;
+  short?: string;
+  description: string;
+  type?: ArgType;
+  placeholder?: string;
+  choices?: string[];
+  default?: ArgValue;
+  required?: boolean;
+}
+
+export interface ArgSchema {
+  positionals?: PositionalSpec[];
+  flags?: FlagSpec[];
+  // Flags are only read before the first positional; later words are kept as they are
+  // (e.g. the command xargs runs, with its own flags)
+  optionsFirst?: boolean;
+}
+
+export type ParsedArgs = Record<string, ArgValue>;
+
+export class CommandParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandParseError';
+  }
+}
+
+// Splits a command line into words the way a POSIX shell would: whitespace separates
+// words, single quotes are literal, double quotes allow \" and \\ escapes, and a
+// backslash outside quotes escapes the next character.
+export const tokenize = (input: string): string[] => {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else if (char === '\\' && (input[i + 1] === '"' || input[i + 1] === '\\')) {
+        current += input[++i];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      inToken = true;
+    } else if (char === '\\') {
+      if (i + 1 < input.length) {
+        current += input[++i];
+      }
+      inToken = true;
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new CommandParseError(`Unterminated ${quote === '"' ? 'double' : 'single'} quote`);
+  }
+  if (inToken) {
+    tokens.push(current);
+  }
+
+  return tokens;
+};
+
+export type ChainOperator = ';' | '&&' | '||';
+
+// Commands joined by pipes, run after the previous link according to its operator
+export interface ChainLink {
+  operator?: ChainOperator;
+  stages: string[];
+}
+
+// Splits a command line at ;, &&, || and | outside quotes. Stages keep their quoting and
+// trailing whitespace so they can be tokenized (or completed) on their own afterwards.
+export const splitCommandLine = (input: string): ChainLink[] => {
+  const links: ChainLink[] = [];
+  let stages: string[] = [];
+  let current = '';
+  let operator: ChainOperator | undefined;
+  let quote: '"' | "'" | null = null;
+
+  const endStage = () => {
+    stages.push(current.replace(/^\s+/, ''));
+    current = '';
+  };
+  const endLink = (next?: ChainOperator) => {
+    endStage();
+    links.push({ operator, stages });
+    stages = [];
+    operator = next;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < input.length) {
+        current += input[i++];
+      }
+      current += input[i];
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      current += char;
+    } else if (char === '\\' && i + 1 < input.length) {
+      current += char + input[++i];
+    } else if (char === ';') {
+      endLink(';');
+    } else if (char === '&' && input[i + 1] === '&') {
+      endLink('&&');
+      i++;
+    } else if (char === '|' && input[i + 1] === '|') {
+      endLink('||');
+      i++;
+    } else if (char === '|') {
+      endStage();
+    } else {
+      current += char;
+    }
+  }
+
+  if (quote) {
+    throw new CommandParseError(`Unterminated ${quote === '"' ? 'double' : 'single'} quote`);
+  }
+  endLink();
+  return links;
+};
+
+// Inverse of tokenize for a single word: quotes it only when it would not survive as is
+export const quoteArg = (word: string) =>
+  /^[^\s'"\\]+$/.test(word) ? word : `'${word.replace(/'/g, `'\\''`)}'`;
+
+const describeChoices = (choices: string[]) => choices.join(', ');
+
+const coerceValue = (
+  raw: string,
+  type: ArgType,
+  label: string,
+  choices?: string[]
+): ArgValue => {
+  switch (type) {
+    case 'number': {
+      const value = Number(raw);
+      if (raw.trim() === '' || isNaN(value)) {
+        throw new CommandParseError(`${label} must be a number`);
+      }
+      return value;
+    }
+    case 'date': {
+      const value = parseISO(raw);
+      if (!isValid(value)) {
+        throw new CommandParseError(`${label} must be a date (YYYY-MM-DD)`);
+      }
+      return value;
+    }
+    case 'list':
+      return raw.split(',').map(item => item.trim()).filter(item => item);
+    case 'boolean':
+      return raw !== 'false';
+    default:
+      if (choices && !choices.includes(raw)) {
+        throw new CommandParseError(`Invalid ${label} '${raw}'. Use ${describeChoices(choices)}`);
+      }
+      return raw;
+  }
+};
+
+// Short flags are a single dash and a single letter ('-p'); longer single-dash words
+// such as '-green' or '-5' are left as positionals.
+const isShortFlag = (token: string) => /^-[a-zA-Z]$/.test(token);
+const isLongFlag = (token: string) => token.startsWith('--') && token.length > 2;
+
+export const parseArgs = (tokens: string[], schema: ArgSchema): ParsedArgs => {
+  const flags = schema.flags || [];
+  const positionals = schema.positionals || [];
+  const parsed: ParsedArgs = {};
+  const words: string[] = [];
+
+  for (const flag of flags) {
+    if (flag.default !== undefined) {
+      parsed[flag.name] = flag.default;
+    }
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token === '--') {
+      words.push(...tokens.slice(i + 1));
+      break;
+    }
+
+    if (!isLongFlag(token) && !isShortFlag(token)) {
+      if (schema.optionsFirst) {
+        words.push(...tokens.slice(i));
+        break;
+      }
+      words.push(token);
+      continue;
+    }
+
+    let name: string;
+    let inlineValue: string | undefined;
+    let flag: FlagSpec | undefined;
+
+    if (isLongFlag(token)) {
+      const eqIndex = token.indexOf('=');
+      name = eqIndex === -1 ? token.substring(2) : token.substring(2, eqIndex);
+      inlineValue = eqIndex === -1 ? undefined : token.substring(eqIndex + 1);
+      flag = flags.find(f => f.name === name);
+    } else {
+      name = token.substring(1);
+      flag = flags.find(f => f.short === name);
+    }
+
+    if (!flag) {
+      throw new CommandParseError(`Unknown flag '${token}'`);
+    }
+
+    const type = flag.type || 'string';
+    const label = `--${flag.name}`;
+
+    if (type === 'boolean') {
+      parsed[flag.name] = inlineValue === undefined ? true : coerceValue(inlineValue, type, label);
+      continue;
+    }
+
+    let raw = inlineValue;
+    if (raw === undefined) {
+      if (i + 1 >= tokens.length) {
+        throw new CommandParseError(`${label} requires a value`);
+      }
+      raw = tokens[++i];
+    }
+    parsed[flag.name] = coerceValue(raw, type, label, flag.choices);
+  }
+
+  for (const flag of flags) {
+    if (flag.required && parsed[flag.name] === undefined) {
+      throw new CommandParseError(`Missing required flag --${flag.name}`);
+    }
+  }
+
+  // Positionals declared after a variadic one are taken from the end of the line
+  const variadicIndex = positionals.findIndex(p => p.variadic);
+  const leading = variadicIndex === -1 ? positionals : positionals.slice(0, variadicIndex);
+  const trailing = variadicIndex === -1 ? [] : positionals.slice(variadicIndex + 1);
+
+  const assign = (spec: PositionalSpec, raw: string | undefined) => {
+    if (raw === undefined) {
+      if (spec.required) {
+        throw new CommandParseError(`Missing required argument <${spec.name}>`);
+      }
+      return;
+    }
+    parsed[spec.name] = coerceValue(raw, spec.type || 'string', `<${spec.name}>`, spec.choices);
+  };
+
+  const remaining = [...words];
+  leading.forEach(spec => assign(spec, remaining.shift()));
+  [...trailing].reverse().forEach(spec => assign(spec, remaining.length > 0 ? remaining.pop() : undefined));
+
+  if (variadicIndex !== -1) {
+    assign(positionals[variadicIndex], remaining.length > 0 ? remaining.join(' ') : undefined);
+  } else if (remaining.length > 0) {
+    throw new CommandParseError(`Unexpected argument '${remaining[0]}'`);
+  }
+
+  return parsed;
+};
@@ -0,0 +1,36 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { OutputSegment } from "./registry";
+
+export interface TerminalPriority {
+  name: string;
+  color: string;
+  sort_order: number;
+}
+
+// Mirrors the defaults seeded by the custom_priorities migration, used when a user has none
+export const DEFAULT_PRIORITIES: TerminalPriority[] = [
+  { name: 'low', color: '#10b981', sort_order: 1 },
+  { name: 'medium', color: '#f59e0b', sort_order: 2 },
+  { name: 'high', color: '#ef4444', sort_order: 3 },
+];
+
+export const fetchPriorities = async (): Promise<TerminalPriority[]> => {
+  const { data, error } = await supabase
+    .from('custom_priorities')
+    .select('name, color, sort_order')
+    .order('sort_order', { ascending: true });
+
+  if (error) throw error;
+  return data && data.length > 0 ? data : DEFAULT_PRIORITIES;
+};
+
+export const findPriority = (name: string, priorities: TerminalPriority[]) =>
+  priorities.find(p => p.name.toLowerCase() === name.trim().toLowerCase());
+
+export const describePriorities = (priorities: TerminalPriority[]) =>
+  priorities.map(p => p.name).join(', ');
+
+export const prioritySegment = (name: string, priorities: TerminalPriority[]): OutputSegment => ({
+  text: `[${name.toUpperCase()}]`,
+  color: findPriority(name, priorities)?.color,
+});
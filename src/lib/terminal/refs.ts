@@ -0,0 +1,192 @@
+import { supabase } from "@/integrations/supabase/client";
+import { quoteArg, tokenize } from "./parser";
+import { CommandContext, CommandResult, CompleteValues, fail } from "./registry";
+
+// Finds the record a command argument refers to: its full id, the short id the terminal
+// prints, #n from the last list of that kind, or part of its text. When several records
+// match, the result offers them as a numbered choice instead.
+
+export type RefKind = 'todo' | 'event';
+
+export interface RefRecord {
+  id: string;
+  label: string;
+  detail?: string;
+}
+
+export type RefResolution = { record: RefRecord } | { error: CommandResult };
+
+interface RefKindSpec {
+  noun: string;
+  field: string;
+  listCommand: string;
+  fetch: () => Promise<RefRecord[]>;
+}
+
+const REF_KINDS: Record<RefKind, RefKindSpec> = {
+  todo: {
+    noun: 'todo',
+    field: 'text',
+    listCommand: 'todo.list',
+    fetch: async () => {
+      const { data, error } = await supabase
+        .from('todos')
+        .select('id, text, completed')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(todo => ({
+        id: todo.id,
+        label: todo.text,
+        detail: todo.completed ? 'completed' : undefined,
+      }));
+    },
+  },
+  event: {
+    noun: 'event',
+    field: 'title',
+    listCommand: 'cal.today',
+    fetch: async () => {
+      const { data, error } = await supabase
+        .from('calendar_events')
+        .select('id, title, date')
+        .order('date', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(event => ({ id: event.id, label: event.title, detail: event.date }));
+    },
+  },
+};
+
+const MAX_CHOICES = 9;
+
+export const fetchRefRecords = (kind: RefKind) => REF_KINDS[kind].fetch();
+
+// Tab completion inserts the short id and matches the record's text as well
+export const completeRef = (kind: RefKind): CompleteValues => (ctx) =>
+  ctx.lookups[kind].map(record => ({
+    value: record.id.substring(0, 8),
+    description: `${record.label}${record.detail ? ` (${record.detail})` : ''}`,
+    keywords: record.label,
+  }));
+
+export const describeRef = (kind: RefKind) => {
+  const { noun, field, listCommand } = REF_KINDS[kind];
+  return `${noun[0].toUpperCase()}${noun.slice(1)} ID or its first characters, #n from ${listCommand}, or part of its ${field}`;
+};
+
+export const describeRecord = (record: RefRecord) =>
+  `${record.id.substring(0, 8)} ${record.label}${record.detail ? ` (${record.detail})` : ''}`;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Letters of the needle appear in order, e.g. 'grcrs' in 'Buy groceries'
+const isSubsequence = (needle: string, text: string) => {
+  let position = 0;
+  for (const char of needle) {
+    position = text.indexOf(char, position) + 1;
+    if (position === 0) return false;
+  }
+  return true;
+};
+
+// Higher is a better match; 0 is none
+const textScore = (label: string, needle: string) => {
+  const text = normalize(label);
+  if (text === needle) return 5;
+  if (text.startsWith(needle)) return 4;
+  if (text.includes(needle)) return 3;
+  if (needle.split(' ').every(word => text.includes(word))) return 2;
+  if (needle.length >= 3 && isSubsequence(needle.replace(/ /g, ''), text)) return 1;
+  return 0;
+};
+
+// Ids win over text so a short id never resolves to a record that merely mentions it
+export const matchRecords = (records: RefRecord[], ref: string): RefRecord[] => {
+  const needle = normalize(ref);
+  if (!needle) return [];
+
+  const exact = records.find(record => record.id === needle);
+  if (exact) return [exact];
+  if (/^[0-9a-f-]+$/.test(needle)) {
+    const byId = records.filter(record => record.id.startsWith(needle));
+    if (byId.length > 0) return byId;
+  }
+
+  let best = 0;
+  let matches: RefRecord[] = [];
+  for (const record of records) {
+    const score = textScore(record.label, needle);
+    if (score > best) {
+      best = score;
+      matches = [record];
+    } else if (score > 0 && score === best) {
+      matches.push(record);
+    }
+  }
+  return matches;
+};
+
+// The same command line with the reference swapped for a full id
+const replaceRef = (input: string, ref: string, id: string) => {
+  const tokens = tokenize(input);
+  const index = tokens.findIndex((token, i) => i > 0 && (token === ref || (token.startsWith('-') && token.endsWith(`=${ref}`))));
+  if (index !== -1) {
+    tokens[index] = tokens[index] === ref ? id : `${tokens[index].slice(0, -ref.length)}${id}`;
+  }
+  return tokens.map(quoteArg).join(' ');
+};
+
+const ambiguous = (kind: RefKind, ref: string, matches: RefRecord[], ctx: CommandContext): CommandResult => {
+  const { noun } = REF_KINDS[kind];
+  const shown = matches.slice(0, MAX_CHOICES);
+  const choices = shown.map(record => ({
+    label: describeRecord(record),
+    input: replaceRef(ctx.input, ref, record.id),
+  }));
+
+  const output = [
+    `'${ref}' matches ${matches.length} ${noun}s:`,
+    ...choices.map((choice, index) => `  ${index + 1}. ${choice.label}`),
+  ];
+  if (matches.length > shown.length) {
+    output.push(`  ... and ${matches.length - shown.length} more, be more specific to see them`);
+  }
+  output.push(`Type 1-${shown.length} to pick one, or anything else to cancel`);
+  return { output, type: 'info', choices };
+};
+
+export const resolveRef = async (kind: RefKind, ref: string, ctx: CommandContext): Promise<RefResolution> => {
+  const { noun, listCommand } = REF_KINDS[kind];
+
+  let records: RefRecord[];
+  try {
+    records = await fetchRefRecords(kind);
+  } catch (error) {
+    return { error: fail(`ERROR: ${error.message}`) };
+  }
+
+  const position = ref.trim().match(/^#(\d+)$/);
+  if (position) {
+    const listing = ctx.listings[kind];
+    if (!listing) {
+      return { error: fail(`ERROR: No ${noun} list to take ${ref} from`, `Run ${listCommand} first`) };
+    }
+    const id = listing[Number(position[1]) - 1];
+    if (!id) {
+      return { error: fail(`ERROR: The last ${listCommand} only went up to #${listing.length}`) };
+    }
+    const record = records.find(r => r.id === id);
+    if (!record) {
+      return { error: fail(`ERROR: ${ref} (${id.substring(0, 8)}) no longer exists`) };
+    }
+    return { record };
+  }
+
+  const matches = matchRecords(records, ref);
+  if (matches.length === 0) {
+    return { error: fail(`ERROR: No ${noun} matches '${ref}'`) };
+  }
+  if (matches.length > 1) {
+    return { error: ambiguous(kind, ref, matches, ctx) };
+  }
+  return { record: matches[0] };
+};
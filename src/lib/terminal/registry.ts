@@ -0,0 +1,504 @@
+import type { TerminalPriority } from "./priorities";
+import type { TodoDates } from "@/lib/dueDates";
+import type { TimeLogRow } from "@/lib/timer";
+import type { RefKind } from "./refs";
+import type { TerminalLookups } from "./lookups";
+import { TerminalScripts, expandAlias } from "./scripts";
+import { addDays, format } from "date-fns";
+import {
+  ArgSchema,
+  ChainLink,
+  CommandParseError,
+  FlagSpec,
+  ParsedArgs,
+  PositionalSpec,
+  parseArgs,
+  splitCommandLine,
+  tokenize,
+} from "./parser";
+
+export type OutputType = 'success' | 'error' | 'info';
+
+export interface OutputSegment {
+  text: string;
+  color?: string;
+}
+
+// A line is plain text or a run of segments when parts of it are colored
+export type OutputLine = string | OutputSegment[];
+
+// A command line the user can run by typing its number right after the result
+export interface CommandChoice {
+  label: string;
+  input: string;
+}
+
+// One row of a list command's output, handed to the command it is piped into
+export interface PipeRecord {
+  line: OutputLine;
+  kind?: string;
+  id?: string;
+  // Values sort can order by, e.g. { priority: 3, due: '2025-09-12' }
+  fields?: Record<string, string | number | null>;
+}
+
+export interface CommandResult {
+  output: OutputLine[];
+  type: OutputType;
+  choices?: CommandChoice[];
+  // Rows for a following pipe; without them every output line becomes a record
+  records?: PipeRecord[];
+}
+
+export type CommandCategory = 'navigation' | 'todo' | 'time' | 'calendar' | 'notes' | 'pipe' | 'scripts' | 'system';
+
+// Everything a command handler may touch outside of the database
+export interface CommandContext {
+  registry: CommandRegistry;
+  // The command being run, as typed; one stage of a chain or pipe
+  input: string;
+  // Records from the command piped into this one, undefined when nothing is piped in
+  stdin?: PipeRecord[];
+  currentPath: string;
+  navigationHistory: string[];
+  // Oldest first; saved per user, so it includes earlier sessions
+  commandHistory: string[];
+  clearHistory: () => Promise<void>;
+  // Running timer as last seen by the terminal; handlers that change it re-read the database
+  runningTimer: TimeLogRow | null;
+  // Last known custom priorities; handlers that validate should call refreshPriorities
+  priorities: TerminalPriority[];
+  refreshPriorities: () => Promise<TerminalPriority[]>;
+  // Ids in the order the last list command of each kind printed them, for #n references.
+  // setListing updates this object in place, so it is current within a chain or macro
+  listings: Partial<Record<RefKind, string[]>>;
+  setListing: (kind: RefKind, ids: string[]) => void;
+  // Records and tags offered by Tab completion, refreshed after every command
+  lookups: TerminalLookups;
+  // The user's aliases, macros and startup script; the commands that change them update
+  // this object in place, so later links of a chain or lines of a macro see the change
+  scripts: TerminalScripts;
+  navigate: (path: string) => void;
+  goBack: () => string | null;
+  setTheme: (theme: string) => void;
+  clear: () => void;
+  onAddTodo?: (text: string, priority: string, dates?: Partial<TodoDates>) => void;
+  onAddTimeLog?: (activity: string, duration: number) => void;
+  onAddCalendarEvent?: (title: string, date: Date, type?: string) => void;
+  onAddNote?: (title: string, content: string, tags: string[]) => void;
+}
+
+// What the terminal supplies; the registry adds itself, the input and piped records
+export type TerminalContext = Omit<CommandContext, 'registry' | 'input' | 'stdin'>;
+
+export interface CompletionCandidate {
+  value: string;
+  description?: string;
+  // Also offered when the typed word occurs anywhere in this, e.g. a todo's text for its short id
+  keywords?: string;
+}
+
+// Candidate values offered by Tab completion
+export type CompleteValues = (ctx: CommandContext) => (string | CompletionCandidate)[];
+
+export interface CommandFlagSpec extends FlagSpec {
+  complete?: CompleteValues;
+}
+
+export interface CommandPositionalSpec extends PositionalSpec {
+  complete?: CompleteValues;
+  // Takes a reference to a record of this kind; xargs only passes it records of that kind
+  ref?: RefKind;
+}
+
+export interface CommandSpec extends ArgSchema {
+  name: string;
+  positionals?: CommandPositionalSpec[];
+  flags?: CommandFlagSpec[];
+  aliases?: string[];
+  category: CommandCategory;
+  summary: string;
+  details?: string[];
+  examples?: string[];
+  // Returning nothing means the command produced no terminal entry (e.g. clear, reload)
+  handler: (args: ParsedArgs, ctx: CommandContext) => Promise<CommandResult | void> | CommandResult | void;
+}
+
+export interface CommandRegistry {
+  commands: CommandSpec[];
+  find: (name: string) => CommandSpec | undefined;
+  suggest: (name: string) => string | undefined;
+  usage: (spec: CommandSpec) => string;
+  help: (spec: CommandSpec) => string[];
+  overview: () => string[];
+  execute: (input: string, ctx: TerminalContext) => Promise<CommandResult | void>;
+  complete: (input: string, ctx: TerminalContext) => Completion | null;
+}
+
+export interface Completion {
+  // Text that replaces the word under the cursor
+  prefix: string;
+  candidates: CompletionCandidate[];
+}
+
+const CATEGORY_HEADINGS: { category: CommandCategory; heading: string }[] = [
+  { category: 'navigation', heading: '📍 NAVIGATION:' },
+  { category: 'todo', heading: '✅ TODO MANAGEMENT:' },
+  { category: 'time', heading: '⏱️ TIME TRACKING:' },
+  { category: 'calendar', heading: '📅 CALENDAR:' },
+  { category: 'notes', heading: '📝 NOTES:' },
+  { category: 'pipe', heading: '🔗 PIPES:' },
+  { category: 'scripts', heading: '⚡ ALIASES & MACROS:' },
+  { category: 'system', heading: '🔧 SYSTEM:' },
+];
+
+export const lineText = (line: OutputLine) =>
+  typeof line === 'string' ? line : line.map(segment => segment.text).join('');
+
+export const ok = (...output: OutputLine[]): CommandResult => ({ output, type: 'success' });
+export const info = (...output: OutputLine[]): CommandResult => ({ output, type: 'info' });
+export const fail = (...output: OutputLine[]): CommandResult => ({ output, type: 'error' });
+
+const formatPositional = (spec: PositionalSpec) => {
+  const label = spec.choices ? spec.choices.join('|') : spec.name;
+  const inner = spec.variadic ? `${label}...` : label;
+  return spec.required ? `<${inner}>` : `[${inner}]`;
+};
+
+const formatFlag = (flag: FlagSpec) => {
+  const names = flag.short ? `-${flag.short}|--${flag.name}` : `--${flag.name}`;
+  if (flag.type === 'boolean') return `[${names}]`;
+  const value = flag.choices ? flag.choices.join('|') : flag.placeholder || flag.name;
+  return flag.required ? `${names} <${value}>` : `[${names} ${value}]`;
+};
+
+const branch = (lines: string[]) =>
+  lines.map((line, index) => `${index === lines.length - 1 ? '└──' : '├──'} ${line}`);
+
+const editDistance = (a: string, b: string) => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      previous = current;
+    }
+  }
+  return row[b.length];
+};
+
+const toCandidate = (value: string | CompletionCandidate): CompletionCandidate =>
+  typeof value === 'string' ? { value } : value;
+
+// Dates a date flag is most likely to want
+const dateCandidates = (): CompletionCandidate[] => [
+  { value: format(new Date(), 'yyyy-MM-dd'), description: 'Today' },
+  { value: format(addDays(new Date(), 1), 'yyyy-MM-dd'), description: 'Tomorrow' },
+  { value: format(addDays(new Date(), 7), 'yyyy-MM-dd'), description: 'In a week' },
+];
+
+const valuesFor = (spec: CommandFlagSpec | CommandPositionalSpec, ctx: CommandContext): CompletionCandidate[] => {
+  if (spec.complete) return spec.complete(ctx).map(toCandidate);
+  if (spec.choices) return spec.choices.map(toCandidate);
+  return spec.type === 'date' ? dateCandidates() : [];
+};
+
+const filterCandidates = (prefix: string, candidates: CompletionCandidate[]): Completion => {
+  const typed = prefix.toLowerCase();
+  return {
+    prefix,
+    candidates: candidates.filter(candidate =>
+      candidate.value.toLowerCase().startsWith(typed) ||
+      (typed && candidate.keywords?.toLowerCase().includes(typed))
+    ),
+  };
+};
+
+export const createCommandRegistry = (commands: CommandSpec[]): CommandRegistry => {
+  const byName = new Map<string, CommandSpec>();
+  for (const spec of commands) {
+    for (const name of [spec.name, ...(spec.aliases || [])]) {
+      if (byName.has(name)) {
+        throw new Error(`Duplicate terminal command name '${name}'`);
+      }
+      byName.set(name, spec);
+    }
+  }
+
+  const find = (name: string) => byName.get(name.toLowerCase());
+
+  const suggest = (name: string) => {
+    let best: string | undefined;
+    let bestDistance = 3;
+    for (const candidate of byName.keys()) {
+      const distance = editDistance(name.toLowerCase(), candidate);
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  };
+
+  const usage = (spec: CommandSpec) =>
+    [
+      spec.name,
+      ...(spec.positionals || []).map(formatPositional),
+      ...(spec.flags || []).map(formatFlag),
+    ].join(' ');
+
+  const help = (spec: CommandSpec) => {
+    const lines = [usage(spec), spec.summary, ...(spec.details || [])];
+
+    if (spec.aliases?.length) {
+      lines.push(`Aliases: ${spec.aliases.join(', ')}`);
+    }
+    if (spec.positionals?.length) {
+      lines.push('Arguments:');
+      lines.push(...branch(spec.positionals.map(p => `${p.name} - ${p.description}`)));
+    }
+    if (spec.flags?.length) {
+      lines.push('Flags:');
+      lines.push(...branch(spec.flags.map(f =>
+        `${f.short ? `-${f.short}, ` : ''}--${f.name} - ${f.description}`
+      )));
+    }
+    if (spec.examples?.length) {
+      lines.push('Examples:');
+      lines.push(...spec.examples.map(example => `• ${example}`));
+    }
+
+    return lines;
+  };
+
+  const overview = () => {
+    const lines = ['ENHANCED TERMINAL COMMANDS v3.0:'];
+    for (const { category, heading } of CATEGORY_HEADINGS) {
+      const specs = commands.filter(spec => spec.category === category);
+      if (specs.length === 0) continue;
+      lines.push('', heading);
+      lines.push(...branch(specs.map(spec => {
+        const names = [usage(spec), ...(spec.aliases || [])].join(', ');
+        return `${names} - ${spec.summary}`;
+      })));
+    }
+    lines.push('', "💡 Use 'help <command>' for detailed usage");
+    lines.push("💡 Chain commands with ;, && and ||, and pipe lists with |, e.g. todo.list | grep deploy");
+    return lines;
+  };
+
+  // A result asking the user to pick (e.g. between todos a reference matched) stops its pipe
+  // or chain like a failure; each choice is turned back into the rest of the line to run
+  const withChoiceInputs = (result: CommandResult, toInput: (input: string) => string): CommandResult => ({
+    ...result,
+    choices: result.choices.map(choice => ({ ...choice, input: toInput(choice.input) })),
+  });
+
+  // `expanding` holds the aliases already expanded on the way here, so an alias may wrap
+  // the command it is named after without looping
+  const runCommand = async (
+    input: string,
+    ctx: TerminalContext,
+    stdin?: PipeRecord[],
+    expanding: string[] = []
+  ): Promise<CommandResult | void> => {
+    let tokens: string[];
+    try {
+      tokens = tokenize(input);
+    } catch (error) {
+      return fail(`ERROR: ${error instanceof Error ? error.message : 'Invalid input'}`);
+    }
+    if (tokens.length === 0) return;
+
+    const [name, ...rest] = tokens;
+    const alias = ctx.scripts.aliases[name];
+    if (alias !== undefined && !expanding.includes(name)) {
+      return executeLine(expandAlias(alias, rest), ctx, stdin, [...expanding, name]);
+    }
+    const spec = find(name);
+
+    if (!spec) {
+      const suggestion = suggest(name);
+      return fail(
+        `Command '${name}' not recognized.`,
+        ...(suggestion ? [`Did you mean '${suggestion}'?`] : []),
+        "Type 'help' for available commands.",
+        "Use 'help <command>' for detailed usage."
+      );
+    }
+
+    if (rest.includes('--help') || (rest.includes('-h') && !spec.flags?.some(f => f.short === 'h'))) {
+      return ok(...help(spec));
+    }
+
+    let args: ParsedArgs;
+    try {
+      args = parseArgs(rest, spec);
+    } catch (error) {
+      if (error instanceof CommandParseError) {
+        return fail(`ERROR: ${error.message}`, `Usage: ${usage(spec)}`);
+      }
+      throw error;
+    }
+
+    try {
+      return await spec.handler(args, { ...ctx, registry, input, stdin });
+    } catch (error) {
+      return fail(
+        `ERROR: Command execution failed`,
+        `Details: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+
+  // Each stage gets the records of the one before; only the last stage's output is shown
+  const runPipeline = async (
+    stages: string[],
+    ctx: TerminalContext,
+    stdin: PipeRecord[] | undefined,
+    expanding: string[]
+  ): Promise<CommandResult | void> => {
+    let result: CommandResult | void;
+    let records = stdin;
+    for (const [index, stage] of stages.entries()) {
+      result = await runCommand(stage, ctx, records, expanding);
+      if (result && result.choices?.length) {
+        return withChoiceInputs(result, input => stages.map((other, i) => (i === index ? input : other.trim())).join(' | '));
+      }
+      if (result && result.type === 'error') return result;
+      records = result ? result.records ?? result.output.map(line => ({ line })) : [];
+    }
+    return result;
+  };
+
+  // Records piped into an alias go to the first command it expands to
+  const executeLine = async (
+    input: string,
+    ctx: TerminalContext,
+    stdin?: PipeRecord[],
+    expanding: string[] = []
+  ): Promise<CommandResult | void> => {
+    let links: ChainLink[];
+    try {
+      links = splitCommandLine(input);
+    } catch (error) {
+      return fail(`ERROR: ${error instanceof Error ? error.message : 'Invalid input'}`);
+    }
+
+    // A trailing ; is allowed, any other empty command is not
+    if (links.length > 1 && links[links.length - 1].stages.every(stage => !stage.trim())) {
+      links = links.slice(0, -1);
+    }
+    if (links.length === 1 && links[0].stages.length === 1) {
+      return runCommand(links[0].stages[0], ctx, stdin, expanding);
+    }
+    const empty = links.find(link => link.stages.some(stage => !stage.trim()));
+    if (empty) {
+      return fail(`ERROR: Missing command ${empty.stages.length > 1 ? "around '|'" : `near '${empty.operator || ';'}'`}`);
+    }
+
+    const results: CommandResult[] = [];
+    let failed = false;
+    for (const [index, link] of links.entries()) {
+      if ((link.operator === '&&' && failed) || (link.operator === '||' && !failed)) continue;
+      const result = await runPipeline(link.stages, ctx, index === 0 ? stdin : undefined, expanding);
+      // Nothing was done yet; the picked choice runs this link again and the rest after it
+      if (result && result.choices?.length) {
+        const rest = links.slice(index + 1).map(next => `${next.operator} ${next.stages.map(stage => stage.trim()).join(' | ')}`);
+        results.push(withChoiceInputs(result, input => [input, ...rest].join(' ')));
+        break;
+      }
+      failed = !!result && result.type === 'error';
+      if (result) results.push(result);
+    }
+    if (results.length <= 1) return results[0];
+
+    // Earlier errors keep their color inside the combined entry
+    const last = results[results.length - 1];
+    return {
+      ...last,
+      output: results.flatMap(result =>
+        result !== last && result.type === 'error' && last.type !== 'error'
+          ? result.output.map(line => [{ text: lineText(line), color: '#ef4444' }])
+          : result.output
+      ),
+    };
+  };
+
+  const execute = (input: string, ctx: TerminalContext) => executeLine(input, ctx);
+
+  // Completes the word being typed: a command name, a flag, a flag value or a positional
+  const complete = (line: string, ctx: TerminalContext): Completion | null => {
+    let input: string;
+    try {
+      const links = splitCommandLine(line);
+      const { stages } = links[links.length - 1];
+      input = stages[stages.length - 1];
+    } catch {
+      // Inside an open quote
+      return null;
+    }
+
+    const fullCtx = { ...ctx, registry, input };
+    const prefix = input.match(/\S*$/)[0];
+    let words: string[];
+    try {
+      words = tokenize(input.slice(0, input.length - prefix.length));
+    } catch {
+      // The word being typed is quoted
+      return null;
+    }
+
+    if (words.length === 0) {
+      return filterCandidates(prefix, [
+        ...[...byName.keys()].sort().map(name => ({ value: name, description: byName.get(name).summary })),
+        ...Object.entries(ctx.scripts.aliases)
+          .filter(([name]) => !byName.has(name))
+          .map(([name, body]) => ({ value: name, description: `alias: ${body}` })),
+      ]);
+    }
+
+    const spec = find(words[0]);
+    if (!spec) return null;
+
+    const flagFor = (word: string) => spec.flags?.find(f => word === `--${f.name}` || (f.short && word === `-${f.short}`));
+    const valueFlag = words.length > 1 ? flagFor(words[words.length - 1]) : undefined;
+    if (valueFlag && valueFlag.type !== 'boolean') {
+      // List values are completed one comma-separated item at a time
+      const itemPrefix = valueFlag.type === 'list' ? prefix.slice(prefix.lastIndexOf(',') + 1) : prefix;
+      const chosen = valueFlag.type === 'list' ? prefix.split(',').slice(0, -1) : [];
+      const candidates = valuesFor(valueFlag, fullCtx).filter(candidate => !chosen.includes(candidate.value));
+      return filterCandidates(itemPrefix, candidates);
+    }
+
+    if (prefix.startsWith('-')) {
+      const unused = (spec.flags || []).filter(f => !words.some(word => flagFor(word) === f || word.startsWith(`--${f.name}=`)));
+      return filterCandidates(prefix, unused.map(f => ({ value: `--${f.name}`, description: f.description })));
+    }
+
+    // Count the positionals before the cursor, skipping flags and their values
+    let position = 0;
+    for (let i = 1; i < words.length; i++) {
+      const flag = flagFor(words[i]);
+      if (flag) {
+        if (flag.type !== 'boolean') i++;
+      } else if (!words[i].startsWith('--')) {
+        position++;
+      }
+    }
+    const positionals = spec.positionals || [];
+    const last = positionals[positionals.length - 1];
+    const positional = position < positionals.length ? positionals[position] : last?.variadic ? last : undefined;
+    if (!positional) return null;
+    return filterCandidates(prefix, valuesFor(positional, fullCtx));
+  };
+
+  const registry: CommandRegistry = { commands, find, suggest, usage, help, overview, execute, complete };
+  return registry;
+};
@@ -0,0 +1,139 @@
+import { supabase } from "@/integrations/supabase/client";
+import { quoteArg, splitCommandLine, tokenize } from "./parser";
+
+// Aliases, macros and the startup script, kept per user in terminal_scripts. An alias
+// stands in for one command line; a macro is several lines run one after another.
+// Both may use $1..$9 and $@ for the arguments they are called with.
+
+export type ScriptKind = 'alias' | 'macro';
+
+export interface TerminalScripts {
+  aliases: Record<string, string>;
+  macros: Record<string, string>;
+  startup: string;
+}
+
+export const EMPTY_SCRIPTS: TerminalScripts = { aliases: {}, macros: {}, startup: '' };
+
+export const SCRIPTS_CHANGED_EVENT = 'terminal-scripts-changed';
+
+// The startup script is the single row of its kind
+const STARTUP_NAME = 'startup';
+
+const notifyScriptsChanged = () => window.dispatchEvent(new Event(SCRIPTS_CHANGED_EVENT));
+
+export const isValidScriptName = (name: string) => /^[A-Za-z][A-Za-z0-9_.-]*$/.test(name);
+
+export const fetchScripts = async (): Promise<TerminalScripts> => {
+  const { data, error } = await supabase
+    .from('terminal_scripts')
+    .select('kind, name, body')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  const scripts: TerminalScripts = { aliases: {}, macros: {}, startup: '' };
+  for (const row of data || []) {
+    if (row.kind === 'alias') scripts.aliases[row.name] = row.body;
+    else if (row.kind === 'macro') scripts.macros[row.name] = row.body;
+    else if (row.kind === 'startup') scripts.startup = row.body;
+  }
+  return scripts;
+};
+
+const upsertScript = async (kind: ScriptKind | 'startup', name: string, body: string) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('You must be logged in to save terminal scripts');
+
+  const { error } = await supabase
+    .from('terminal_scripts')
+    .upsert({ kind, name, body, user_id: user.id }, { onConflict: 'user_id,kind,name' });
+
+  if (error) throw error;
+  notifyScriptsChanged();
+};
+
+const removeScript = async (kind: ScriptKind | 'startup', name: string) => {
+  const { error } = await supabase
+    .from('terminal_scripts')
+    .delete()
+    .eq('kind', kind)
+    .eq('name', name);
+
+  if (error) throw error;
+  notifyScriptsChanged();
+};
+
+export const saveScript = (kind: ScriptKind, name: string, body: string) => {
+  if (!isValidScriptName(name)) {
+    throw new Error(`Invalid name '${name}': use letters, digits, '.', '-' or '_', starting with a letter`);
+  }
+  if (!body.trim()) {
+    throw new Error(`The ${kind} '${name}' needs a command`);
+  }
+  return upsertScript(kind, name, body.trim());
+};
+
+export const deleteScript = (kind: ScriptKind, name: string) => removeScript(kind, name);
+
+// Set while the startup script runs, so a script that starts itself again stops instead of looping
+let startupRunning = false;
+
+export const isStartupRunning = () => startupRunning;
+
+export const runAsStartup = async <T>(run: () => Promise<T>): Promise<T> => {
+  startupRunning = true;
+  try {
+    return await run();
+  } finally {
+    startupRunning = false;
+  }
+};
+
+// Any command of the script is `startup --run`
+const runsStartup = (body: string) =>
+  scriptLines(body).some(line => {
+    try {
+      return splitCommandLine(line).some(link => link.stages.some(stage => {
+        const [name, ...rest] = tokenize(stage);
+        return name === 'startup' && rest.includes('--run');
+      }));
+    } catch {
+      return false;
+    }
+  });
+
+// An empty script turns the startup script off
+export const saveStartupScript = async (body: string) => {
+  if (runsStartup(body)) {
+    throw new Error("The startup script cannot run startup --run");
+  }
+  return body.trim() ? upsertScript('startup', STARTUP_NAME, body.trim()) : removeScript('startup', STARTUP_NAME);
+};
+
+// "name=body" or "name body", as typed after alias
+export const parseAliasDefinition = (definition: string) => {
+  const match = definition.match(/^([^=\s]+)(?:=|\s+)([\s\S]*)$/);
+  return match ? { name: match[1], body: match[2].trim() } : null;
+};
+
+const PLACEHOLDER = /\$(@|[1-9])/g;
+
+const substitute = (text: string, args: string[]) =>
+  text.replace(PLACEHOLDER, (_, ref: string) =>
+    ref === '@' ? args.map(quoteArg).join(' ') : args[Number(ref) - 1] !== undefined ? quoteArg(args[Number(ref) - 1]) : ''
+  );
+
+// Without placeholders the arguments go at the end, as with shell aliases
+export const expandAlias = (body: string, args: string[]) =>
+  body.match(PLACEHOLDER) || args.length === 0
+    ? substitute(body, args)
+    : `${body} ${args.map(quoteArg).join(' ')}`;
+
+// Lines to run; blank lines and # comments are skipped
+export const scriptLines = (body: string, args: string[] = []) =>
+  body
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => substitute(line, args));
@@ -0,0 +1,146 @@
+import { addDays, addMinutes, differenceInMinutes, format, isSameDay, parse } from "date-fns";
+import { layoutDay } from "@/lib/calendarEvents";
+
+// Time logs with both a start and an end can be placed on a timeline. Older entries (and
+// ones logged as a bare duration) only have `duration`, and are listed but not placed.
+
+export interface TimeEntryTiming {
+  id: string;
+  activity: string;
+  duration: number;
+  date: string;
+  started_at: string | null;
+  ended_at: string | null;
+}
+
+export interface TimeEntryFields {
+  date: string;
+  started_at: string;
+  ended_at: string;
+  duration: number;
+}
+
+export interface TimeOverlap<T> {
+  first: T;
+  second: T;
+  start: Date;
+  end: Date;
+  minutes: number;
+}
+
+export interface TimeGap {
+  start: Date;
+  end: Date;
+  minutes: number;
+}
+
+// Untracked stretches shorter than this between two entries are not worth a warning
+export const MIN_GAP_MINUTES = 15;
+
+export const isTimedEntry = (entry: TimeEntryTiming) => !!entry.started_at && !!entry.ended_at;
+
+export const getEntryStart = (entry: TimeEntryTiming) => new Date(entry.started_at);
+export const getEntryEnd = (entry: TimeEntryTiming) => new Date(entry.ended_at);
+
+export const toEntryFields = (start: Date, end: Date): TimeEntryFields => ({
+  date: format(start, 'yyyy-MM-dd'),
+  started_at: start.toISOString(),
+  ended_at: end.toISOString(),
+  duration: Math.max(differenceInMinutes(end, start), 1),
+});
+
+// Parses "HH:mm" on the given day
+export const atTime = (day: Date, time: string) => parse(time, 'HH:mm', day);
+
+// Fields for an entry between two "HH:mm" times; an end at or before the start runs past midnight
+export const entryBetween = (day: Date, start: string, end: string) => {
+  const from = atTime(day, start);
+  const to = atTime(day, end);
+  return toEntryFields(from, to <= from ? addDays(to, 1) : to);
+};
+
+const byStart = <T extends TimeEntryTiming>(entries: T[]) =>
+  entries.filter(isTimedEntry).sort((a, b) => getEntryStart(a).getTime() - getEntryStart(b).getTime());
+
+// Every pair of entries that claim the same time
+export const findOverlaps = <T extends TimeEntryTiming>(entries: T[]): TimeOverlap<T>[] => {
+  const sorted = byStart(entries);
+  const overlaps: TimeOverlap<T>[] = [];
+
+  sorted.forEach((first, index) => {
+    for (const second of sorted.slice(index + 1)) {
+      if (getEntryStart(second) >= getEntryEnd(first)) break;
+      const end = new Date(Math.min(getEntryEnd(first).getTime(), getEntryEnd(second).getTime()));
+      overlaps.push({ first, second, start: getEntryStart(second), end, minutes: differenceInMinutes(end, getEntryStart(second)) });
+    }
+  });
+
+  return overlaps;
+};
+
+// Untracked time between the first entry's start and the last entry's end
+export const findGaps = (entries: TimeEntryTiming[], minMinutes = MIN_GAP_MINUTES): TimeGap[] => {
+  const gaps: TimeGap[] = [];
+  let coveredUntil: Date | null = null;
+
+  for (const entry of byStart(entries)) {
+    const start = getEntryStart(entry);
+    if (coveredUntil && differenceInMinutes(start, coveredUntil) >= minMinutes) {
+      gaps.push({ start: coveredUntil, end: start, minutes: differenceInMinutes(start, coveredUntil) });
+    }
+    if (!coveredUntil || getEntryEnd(entry) > coveredUntil) {
+      coveredUntil = getEntryEnd(entry);
+    }
+  }
+
+  return gaps;
+};
+
+// Positions the timed entries of a day in minutes from midnight, in lanes where they overlap
+export const layoutTimeline = <T extends TimeEntryTiming>(entries: T[], day: Date) =>
+  layoutDay(
+    entries.filter(isTimedEntry).map(entry => ({
+      entry,
+      date: entry.date,
+      start_time: entry.started_at,
+      end_time: entry.ended_at,
+      all_day: false,
+    })),
+    day
+  ).map(({ event, ...position }) => ({ entry: event.entry, ...position }));
+
+// Cuts an entry in two at the given time; both halves keep the activity
+export const splitEntry = (entry: TimeEntryTiming, at: Date): [TimeEntryFields, TimeEntryFields] | null => {
+  const start = getEntryStart(entry);
+  const end = getEntryEnd(entry);
+  if (at <= start || at >= end) return null;
+  return [toEntryFields(start, at), toEntryFields(at, end)];
+};
+
+// One entry spanning all of the given ones. Returns the untracked minutes the merge absorbs.
+export const mergeEntries = (entries: TimeEntryTiming[]) => {
+  const sorted = byStart(entries);
+  if (sorted.length < 2) return null;
+
+  const start = getEntryStart(sorted[0]);
+  const end = new Date(Math.max(...sorted.map(entry => getEntryEnd(entry).getTime())));
+  const gapMinutes = findGaps(sorted, 1).reduce((sum, gap) => sum + gap.minutes, 0);
+  const activities = Array.from(new Set(sorted.map(entry => entry.activity)));
+
+  return {
+    fields: toEntryFields(start, end),
+    activity: activities.join(' / '),
+    gapMinutes,
+  };
+};
+
+export const formatEntryRange = (entry: TimeEntryTiming) => {
+  const start = getEntryStart(entry);
+  const end = getEntryEnd(entry);
+  return isSameDay(start, end)
+    ? `${format(start, 'HH:mm')}–${format(end, 'HH:mm')}`
+    : `${format(start, 'HH:mm')}–${format(end, 'MMM d HH:mm')}`;
+};
+
+// Fields for an entry logged as "N minutes ending now" (or ending at `end`)
+export const entryEndingAt = (minutes: number, end = new Date()) => toEntryFields(addMinutes(end, -minutes), end);
@@ -0,0 +1,200 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { Project, billableAmount, describeProject } from "@/lib/projects";
+import { downloadFile } from "@/lib/utils";
+
+export type ReportGrouping = 'day' | 'week' | 'month' | 'activity' | 'project';
+
+// Both ends are whole days and inclusive
+export interface ReportRange {
+  from: Date;
+  to: Date;
+}
+
+export interface ReportEntry {
+  activity: string;
+  duration: number;
+  date: string;
+  project_id: string | null;
+}
+
+export interface ReportRow {
+  key: string;
+  label: string;
+  color?: string;
+  minutes: number;
+  amount: number;
+  entries: number;
+  // Same group in the previous period; null where the groups do not line up
+  previousMinutes: number | null;
+}
+
+export interface ChartSeries {
+  key: string;
+  label: string;
+  color: string;
+}
+
+export const GROUPING_LABELS: Record<ReportGrouping, string> = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+  activity: 'Activity',
+  project: 'Project',
+};
+
+const NO_PROJECT = 'none';
+const NO_PROJECT_COLOR = '#9ca3af';
+
+// Colors for activities, which have none of their own
+const PALETTE = ['#3b82f6', '#10b981', '#f97316', '#8b5cf6', '#ec4899', '#eab308', '#14b8a6', '#ef4444'];
+
+const isTimeGrouping = (grouping: ReportGrouping) => grouping === 'day' || grouping === 'week' || grouping === 'month';
+
+const weekOptions = { weekStartsOn: 1 as const };
+
+// The period of the same length that ends the day before this one starts
+export const previousRange = ({ from, to }: ReportRange): ReportRange => {
+  const days = differenceInCalendarDays(to, from) + 1;
+  return { from: addDays(from, -days), to: addDays(from, -1) };
+};
+
+export const percentChange = (current: number, previous: number | null) =>
+  previous ? Math.round(((current - previous) / previous) * 100) : null;
+
+const timeBuckets = (grouping: ReportGrouping, { from, to }: ReportRange) => {
+  if (grouping === 'week') return eachWeekOfInterval({ start: from, end: to }, weekOptions);
+  if (grouping === 'month') return eachMonthOfInterval({ start: from, end: to });
+  return eachDayOfInterval({ start: from, end: to });
+};
+
+const bucketKey = (grouping: ReportGrouping, day: Date) => {
+  if (grouping === 'week') return format(startOfWeek(day, weekOptions), 'yyyy-MM-dd');
+  if (grouping === 'month') return format(startOfMonth(day), 'yyyy-MM');
+  return format(day, 'yyyy-MM-dd');
+};
+
+const bucketLabel = (grouping: ReportGrouping, day: Date) => {
+  if (grouping === 'week') return `Week of ${format(day, 'MMM d')}`;
+  if (grouping === 'month') return format(day, 'MMMM yyyy');
+  return format(day, 'EEE, MMM d');
+};
+
+const groupOf = (entry: ReportEntry, grouping: ReportGrouping, projects: Project[]) => {
+  if (grouping === 'project') {
+    const project = projects.find(p => p.id === entry.project_id);
+    return project
+      ? { key: project.id, label: describeProject(project), color: project.color }
+      : { key: NO_PROJECT, label: 'No project', color: NO_PROJECT_COLOR };
+  }
+  if (grouping === 'activity') {
+    return { key: entry.activity.trim().toLowerCase(), label: entry.activity.trim() };
+  }
+  const day = parseISO(entry.date);
+  return { key: bucketKey(grouping, day), label: bucketLabel(grouping, day) };
+};
+
+const accumulate = (entries: ReportEntry[], grouping: ReportGrouping, projects: Project[]) => {
+  const rows = new Map<string, ReportRow>();
+  for (const entry of entries) {
+    const group = groupOf(entry, grouping, projects);
+    const row = rows.get(group.key) || { ...group, minutes: 0, amount: 0, entries: 0, previousMinutes: null };
+    row.minutes += entry.duration;
+    row.amount += billableAmount(entry.duration, projects.find(p => p.id === entry.project_id));
+    row.entries += 1;
+    rows.set(group.key, row);
+  }
+  return rows;
+};
+
+// One row per group. Time groupings list every bucket in the range, empty or not, and compare
+// each with the bucket at the same position in the previous period; other groupings compare by key.
+export const buildReport = (
+  entries: ReportEntry[],
+  previousEntries: ReportEntry[],
+  grouping: ReportGrouping,
+  range: ReportRange,
+  projects: Project[]
+): ReportRow[] => {
+  const current = accumulate(entries, grouping, projects);
+  const previous = accumulate(previousEntries, grouping, projects);
+
+  if (!isTimeGrouping(grouping)) {
+    return Array.from(current.values())
+      .map(row => ({ ...row, previousMinutes: previous.get(row.key)?.minutes ?? 0 }))
+      .sort((a, b) => b.minutes - a.minutes);
+  }
+
+  const buckets = timeBuckets(grouping, range);
+  const previousBuckets = timeBuckets(grouping, previousRange(range));
+  return buckets.map((day, index) => {
+    const key = bucketKey(grouping, day);
+    const previousDay = previousBuckets.length === buckets.length ? previousBuckets[index] : null;
+    return {
+      key,
+      label: bucketLabel(grouping, day),
+      minutes: current.get(key)?.minutes ?? 0,
+      amount: current.get(key)?.amount ?? 0,
+      entries: current.get(key)?.entries ?? 0,
+      previousMinutes: previousDay ? previous.get(bucketKey(grouping, previousDay))?.minutes ?? 0 : null,
+    };
+  });
+};
+
+// Bars over time, stacked by project. Grouping by activity or project still needs a time axis,
+// so it is picked from the length of the range.
+export const buildStackedChart = (entries: ReportEntry[], grouping: ReportGrouping, range: ReportRange, projects: Project[]) => {
+  const days = differenceInCalendarDays(range.to, range.from) + 1;
+  const axis: ReportGrouping = isTimeGrouping(grouping) ? grouping : days <= 31 ? 'day' : days <= 183 ? 'week' : 'month';
+
+  const series = new Map<string, ChartSeries>();
+  const data = timeBuckets(axis, range).map(day => ({
+    key: bucketKey(axis, day),
+    label: axis === 'month' ? format(day, 'MMM yyyy') : format(day, 'MMM d'),
+  } as Record<string, string | number>));
+  const byKey = new Map(data.map(point => [point.key as string, point]));
+
+  for (const entry of entries) {
+    const point = byKey.get(bucketKey(axis, parseISO(entry.date)));
+    if (!point) continue;
+    const project = groupOf(entry, 'project', projects);
+    series.set(project.key, { key: project.key, label: project.label, color: project.color });
+    // Hours read better than minutes on the axis
+    point[project.key] = Math.round((((point[project.key] as number) || 0) + entry.duration / 60) * 100) / 100;
+  }
+
+  return { data, series: Array.from(series.values()) };
+};
+
+export const rowColor = (row: ReportRow, index: number) => row.color || PALETTE[index % PALETTE.length];
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const reportToCsv = (rows: ReportRow[], grouping: ReportGrouping) => {
+  const header = [GROUPING_LABELS[grouping], 'Hours', 'Minutes', 'Entries', 'Billable amount', 'Previous minutes', 'Change %'];
+  const lines = rows.map(row => [
+    row.label,
+    (row.minutes / 60).toFixed(2),
+    row.minutes,
+    row.entries,
+    row.amount.toFixed(2),
+    row.previousMinutes ?? '',
+    percentChange(row.minutes, row.previousMinutes) ?? '',
+  ]);
+  return [header, ...lines].map(line => line.map(csvCell).join(',')).join('\r\n');
+};
+
+export const downloadCsv = (csv: string, filename: string) =>
+  downloadFile(csv, 'text/csv;charset=utf-8', filename);
@@ -0,0 +1,128 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+// A running timer is a time_logs row with started_at set and ended_at still null. Keeping it in
+// the database (rather than in one browser's storage) makes it visible from every device.
+
+export type TimeLogRow = Tables<'time_logs'>;
+
+// Fired on window after this tab starts or stops a timer, so every view refreshes at once
+// even where realtime updates are not available.
+export const TIMER_CHANGED_EVENT = 'running-timer-changed';
+
+const notifyTimerChanged = () => window.dispatchEvent(new Event(TIMER_CHANGED_EVENT));
+
+// Fired on window before a running timer is stopped to start another. While the idle dialog
+// is asking about idle time in that timer it hands over its decision through `settle`, so the
+// new timer waits for it instead of logging the idle time as work.
+export const TIMER_REPLACING_EVENT = 'running-timer-replacing';
+
+export interface TimerReplacing {
+  timer: TimeLogRow;
+  // Resolves with the row the dialog stopped, or undefined when it stopped nothing
+  settle: (decision: Promise<TimeLogRow | null | undefined>) => void;
+}
+
+export const isRunning = (log: Pick<TimeLogRow, 'started_at' | 'ended_at'>) => !!log.started_at && !log.ended_at;
+
+export const getElapsedMs = (timer: Pick<TimeLogRow, 'started_at'>, now = Date.now()) =>
+  Math.max(now - new Date(timer.started_at).getTime(), 0);
+
+// Whole minutes as stored in `duration`; a stopped timer always counts at least one minute
+export const elapsedMinutes = (timer: Pick<TimeLogRow, 'started_at'>, now = Date.now()) =>
+  Math.max(Math.round(getElapsedMs(timer, now) / 60000), 1);
+
+export const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+export const fetchRunningTimer = async (): Promise<TimeLogRow | null> => {
+  const { data, error } = await supabase
+    .from('time_logs')
+    .select('*')
+    .not('started_at', 'is', null)
+    .is('ended_at', null)
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Resolves with the stopped row, or null if another device stopped it first
+export const stopTimer = async (timer: TimeLogRow, endedAt = new Date()): Promise<TimeLogRow | null> => {
+  const { data, error } = await supabase
+    .from('time_logs')
+    .update({
+      ended_at: endedAt.toISOString(),
+      duration: elapsedMinutes(timer, endedAt.getTime()),
+    })
+    .eq('id', timer.id)
+    .is('ended_at', null)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  notifyTimerChanged();
+  return data;
+};
+
+export const stopRunningTimer = async (): Promise<TimeLogRow | null> => {
+  const timer = await fetchRunningTimer();
+  return timer ? stopTimer(timer) : null;
+};
+
+// Stops the running timer to make way for another, after idle time in it has been settled
+const replaceRunningTimer = async (): Promise<TimeLogRow | null> => {
+  const timer = await fetchRunningTimer();
+  if (!timer) return null;
+
+  let decision: Promise<TimeLogRow | null | undefined> | undefined;
+  window.dispatchEvent(new CustomEvent<TimerReplacing>(TIMER_REPLACING_EVENT, {
+    detail: { timer, settle: (settled) => { decision = settled; } },
+  }));
+  const stopped = decision ? await decision : undefined;
+  return stopped !== undefined ? stopped : stopTimer(timer);
+};
+
+export interface StartTimerOptions {
+  startedAt?: Date;
+  todoId?: string | null;
+  projectId?: string | null;
+  tags?: string[];
+}
+
+// Starts a timer, first stopping whatever was running
+export const startTimer = async (
+  activity: string,
+  { startedAt = new Date(), todoId = null, projectId = null, tags = [] }: StartTimerOptions = {}
+) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('You must be logged in to track time');
+
+  const stopped = await replaceRunningTimer();
+  const { data: started, error } = await supabase
+    .from('time_logs')
+    .insert({
+      activity,
+      duration: 0,
+      date: format(startedAt, 'yyyy-MM-dd'),
+      started_at: startedAt.toISOString(),
+      todo_id: todoId,
+      project_id: projectId,
+      tags,
+      user_id: user.id,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  notifyTimerChanged();
+  return { started, stopped };
+};
@@ -0,0 +1,20 @@
+import { supabase } from "@/integrations/supabase/client";
+import { isRunning } from "@/lib/timer";
+
+// Finished minutes logged against each todo, keyed by todo id. A running timer is left
+// out until it stops, the same as in the time log totals.
+export const fetchMinutesByTodo = async (): Promise<Record<string, number>> => {
+  const { data, error } = await supabase
+    .from('time_logs')
+    .select('todo_id, duration, started_at, ended_at')
+    .not('todo_id', 'is', null);
+
+  if (error) throw error;
+
+  const minutes: Record<string, number> = {};
+  for (const log of data || []) {
+    if (isRunning(log)) continue;
+    minutes[log.todo_id] = (minutes[log.todo_id] || 0) + log.duration;
+  }
+  return minutes;
+};
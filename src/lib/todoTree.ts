@@ -0,0 +1,123 @@
+import { arrayMove } from "@dnd-kit/sortable";
+
+export interface TreeItem {
+  id: string;
+  parent_id?: string | null;
+  completed: boolean;
+}
+
+export type TreeNode<T extends TreeItem> = T & { subtasks: TreeNode<T>[] };
+
+export interface FlattenedNode<T extends TreeItem> {
+  node: TreeNode<T>;
+  depth: number;
+  parentId: string | null;
+}
+
+export interface Projection {
+  depth: number;
+  parentId: string | null;
+}
+
+// Builds the full todo tree; children whose parent is missing are treated as roots
+export function buildTree<T extends TreeItem>(items: T[], compare: (a: T, b: T) => number): TreeNode<T>[] {
+  const ids = new Set(items.map(item => item.id));
+  const childrenOf = new Map<string | null, T[]>();
+
+  for (const item of items) {
+    const parentId = item.parent_id && ids.has(item.parent_id) ? item.parent_id : null;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), item]);
+  }
+
+  const build = (parentId: string | null): TreeNode<T>[] =>
+    (childrenOf.get(parentId) || [])
+      .sort(compare)
+      .map(item => ({ ...item, subtasks: build(item.id) }));
+
+  return build(null);
+}
+
+// Completed and total counts over every descendant, not just direct children
+export function countSubtasks<T extends TreeItem>(node: TreeNode<T>): { completed: number; total: number } {
+  return node.subtasks.reduce(
+    (counts, child) => {
+      const nested = countSubtasks(child);
+      return {
+        completed: counts.completed + nested.completed + (child.completed ? 1 : 0),
+        total: counts.total + nested.total + 1,
+      };
+    },
+    { completed: 0, total: 0 }
+  );
+}
+
+// A per-item value summed over a node and every descendant
+export function rollUp<T extends TreeItem>(node: TreeNode<T>, valueOf: (item: TreeNode<T>) => number): number {
+  return node.subtasks.reduce((sum, child) => sum + rollUp(child, valueOf), valueOf(node));
+}
+
+export function collectDescendantIds<T extends TreeItem>(items: T[], id: string): Set<string> {
+  const descendants = new Set<string>();
+  const queue = [id];
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    for (const item of items) {
+      if (item.parent_id === current && !descendants.has(item.id)) {
+        descendants.add(item.id);
+        queue.push(item.id);
+      }
+    }
+  }
+
+  return descendants;
+}
+
+export function flattenTree<T extends TreeItem>(
+  nodes: TreeNode<T>[],
+  isExpanded: (id: string) => boolean,
+  depth = 0,
+  parentId: string | null = null
+): FlattenedNode<T>[] {
+  return nodes.flatMap(node => [
+    { node, depth, parentId },
+    ...(isExpanded(node.id) ? flattenTree(node.subtasks, isExpanded, depth + 1, node.id) : []),
+  ]);
+}
+
+// Works out where a dragged row would land: its position comes from the row it is over,
+// its depth from how far it was dragged sideways, clamped to what the neighbours allow.
+export function getProjection<T extends TreeItem>(
+  items: FlattenedNode<T>[],
+  activeId: string,
+  overId: string,
+  dragOffset: number,
+  indentationWidth: number
+): Projection {
+  const activeIndex = items.findIndex(item => item.node.id === activeId);
+  const overIndex = items.findIndex(item => item.node.id === overId);
+  const reordered = arrayMove(items, activeIndex, overIndex);
+  const previous = reordered[overIndex - 1];
+  const next = reordered[overIndex + 1];
+
+  const projectedDepth = items[activeIndex].depth + Math.round(dragOffset / indentationWidth);
+  const maxDepth = previous ? previous.depth + 1 : 0;
+  const minDepth = next ? next.depth : 0;
+  const depth = Math.max(minDepth, Math.min(projectedDepth, maxDepth));
+
+  if (depth === 0 || !previous) {
+    return { depth, parentId: null };
+  }
+  if (depth === previous.depth) {
+    return { depth, parentId: previous.parentId };
+  }
+  if (depth > previous.depth) {
+    return { depth, parentId: previous.node.id };
+  }
+
+  const sibling = reordered
+    .slice(0, overIndex)
+    .reverse()
+    .find(item => item.depth === depth);
+  return { depth, parentId: sibling ? sibling.parentId : null };
+}
@@ -0,0 +1,156 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Links between notes and the rest of the app, written inside note content as
+//   [[Note title]]            another note, by title
+//   [[todo:Buy milk]]         a todo, by text or id prefix
+//   [[event:Team meeting]]    a calendar event, by title
+// with an optional label after a pipe: [[Note title|see here]].
+
+export type WikiLinkKind = 'note' | 'todo' | 'event';
+
+export interface WikiLink {
+  kind: WikiLinkKind;
+  target: string;
+  label: string;
+}
+
+export interface WikiLinkIndex {
+  notes: { id: string; title: string }[];
+  todos: { id: string; text: string; completed: boolean }[];
+  events: { id: string; title: string; date: string }[];
+}
+
+export interface ResolvedWikiLink {
+  kind: WikiLinkKind;
+  id: string;
+  title: string;
+  // Where the app shows it
+  path: string;
+}
+
+export interface WikiLinkSuggestion {
+  kind: WikiLinkKind;
+  label: string;
+  // What goes between the brackets
+  insert: string;
+}
+
+export const WIKI_LINK_PATTERN = /\[\[(?:(todo|event):)?([^\]|\n]+?)(?:\|([^\]\n]+))?\]\]/g;
+
+// Rendered wiki links point here, so they pass link sanitizing as plain fragments
+const WIKI_HREF_PREFIX = '#wiki/';
+
+export const EMPTY_WIKI_LINK_INDEX: WikiLinkIndex = { notes: [], todos: [], events: [] };
+
+export const parseWikiLinks = (content: string): WikiLink[] =>
+  Array.from(content.matchAll(WIKI_LINK_PATTERN), ([, kind, target, label]) => ({
+    kind: (kind || 'note') as WikiLinkKind,
+    target: target.trim(),
+    label: (label || target).trim(),
+  }));
+
+const sameTitle = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const resolveWikiLink = (index: WikiLinkIndex, { kind, target }: Pick<WikiLink, 'kind' | 'target'>): ResolvedWikiLink | null => {
+  if (kind === 'note') {
+    const note = index.notes.find(n => sameTitle(n.title, target));
+    return note ? { kind, id: note.id, title: note.title, path: '/notes' } : null;
+  }
+  if (kind === 'todo') {
+    const todo = index.todos.find(t => t.id.startsWith(target.toLowerCase())) || index.todos.find(t => sameTitle(t.text, target));
+    return todo ? { kind, id: todo.id, title: todo.text, path: '/todos' } : null;
+  }
+  const event = index.events.find(e => sameTitle(e.title, target));
+  return event ? { kind, id: event.id, title: event.title, path: '/calendar' } : null;
+};
+
+export const findBrokenLinks = (content: string, index: WikiLinkIndex) =>
+  parseWikiLinks(content).filter(link => !resolveWikiLink(index, link));
+
+// Notes that link to the note with this title
+export const findBacklinks = <T extends { id: string; content: string | null }>(notes: T[], title: string, id?: string) =>
+  notes.filter(note =>
+    note.id !== id &&
+    parseWikiLinks(note.content || '').some(link => link.kind === 'note' && sameTitle(link.target, title))
+  );
+
+export const getWikiLinkSuggestions = (index: WikiLinkIndex, query: string, limit = 8): WikiLinkSuggestion[] => {
+  const [, prefix, rest] = query.match(/^(?:(todo|event):)?(.*)$/) || [];
+  const search = (rest || '').trim().toLowerCase();
+  const matches = (text: string) => text.toLowerCase().includes(search);
+
+  const suggestions: WikiLinkSuggestion[] = [];
+  if (!prefix) {
+    index.notes.filter(n => matches(n.title)).forEach(n => suggestions.push({ kind: 'note', label: n.title, insert: n.title }));
+  }
+  if (!prefix || prefix === 'todo') {
+    index.todos
+      .filter(t => !t.completed && matches(t.text))
+      .forEach(t => suggestions.push({ kind: 'todo', label: t.text, insert: `todo:${t.text}` }));
+  }
+  if (!prefix || prefix === 'event') {
+    index.events
+      .filter(e => matches(e.title))
+      .forEach(e => suggestions.push({ kind: 'event', label: `${e.title} (${e.date})`, insert: `event:${e.title}` }));
+  }
+  return suggestions.slice(0, limit);
+};
+
+export const toWikiHref = ({ kind, target }: Pick<WikiLink, 'kind' | 'target'>) =>
+  `${WIKI_HREF_PREFIX}${kind}/${encodeURIComponent(target)}`;
+
+export const fromWikiHref = (href: string | undefined): Pick<WikiLink, 'kind' | 'target'> | null => {
+  if (!href?.startsWith(WIKI_HREF_PREFIX)) return null;
+  const [kind, target] = href.slice(WIKI_HREF_PREFIX.length).split('/');
+  return { kind: kind as WikiLinkKind, target: decodeURIComponent(target || '') };
+};
+
+// Just enough of the Markdown syntax tree for remarkWikiLinks
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MarkdownNode[];
+}
+
+const splitWikiLinks = (value: string): MarkdownNode[] => {
+  const nodes: MarkdownNode[] = [];
+  let last = 0;
+  for (const match of value.matchAll(WIKI_LINK_PATTERN)) {
+    const [raw, kind, target, label] = match;
+    if (match.index > last) nodes.push({ type: 'text', value: value.slice(last, match.index) });
+    nodes.push({
+      type: 'link',
+      url: toWikiHref({ kind: (kind || 'note') as WikiLinkKind, target: target.trim() }),
+      children: [{ type: 'text', value: (label || target).trim() }],
+    });
+    last = match.index + raw.length;
+  }
+  if (last < value.length) nodes.push({ type: 'text', value: value.slice(last) });
+  return nodes;
+};
+
+// Remark plugin turning [[...]] in text into links; code spans and blocks are separate
+// node types and are left alone
+export const remarkWikiLinks = () => (tree: MarkdownNode) => {
+  const visit = (node: MarkdownNode) => {
+    if (!node.children || node.type === 'link') return;
+    node.children = node.children.flatMap(child => {
+      if (child.type === 'text' && child.value?.includes('[[')) return splitWikiLinks(child.value);
+      visit(child);
+      return [child];
+    });
+  };
+  visit(tree);
+};
+
+export const fetchWikiLinkIndex = async (): Promise<Omit<WikiLinkIndex, 'notes'>> => {
+  const [todos, events] = await Promise.all([
+    supabase.from('todos').select('id, text, completed'),
+    supabase.from('calendar_events').select('id, title, date').order('date', { ascending: true }),
+  ]);
+
+  if (todos.error) throw todos.error;
+  if (events.error) throw events.error;
+  return { todos: todos.data || [], events: events.data || [] };
+};
@@ -0,0 +1,9 @@
+import { TimeReports } from "@/components/TimeReports";
+
+export default function ReportsPage() {
+  return (
+    <div className="container mx-auto px-6 py-8">
+      <TimeReports />
+    </div>
+  );
+}
@@ -7,6 +7,9 @@ import { Badge } from "@/components/ui/badge";
 import { Plus, Trash2, Settings, Palette, GripVertical } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { ProjectSettings } from "@/components/ProjectSettings";
+import { IdleTimeSettings } from "@/components/IdleTimeSettings";
+import { TerminalScriptSettings } from "@/components/TerminalScriptSettings";
 import {
   DndContext,
   closestCenter,
@@ -436,6 +439,15 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Project Management Section */}
+      <ProjectSettings />
+
+      {/* Idle Detection Section */}
+      <IdleTimeSettings />
+
+      {/* Terminal Scripts Section */}
+      <TerminalScriptSettings />
+
       {/* Future Settings Sections */}
       <Card>
         <CardHeader>
@@ -0,0 +1,3 @@
+-- Allow todos to use any of the user's custom priorities instead of the original fixed set
+ALTER TABLE public.todos
+DROP CONSTRAINT IF EXISTS todos_priority_check;
@@ -0,0 +1,9 @@
+-- Add due, start and reminder scheduling to todos
+ALTER TABLE public.todos
+ADD COLUMN due_date DATE NULL,
+ADD COLUMN due_time TIME NULL,
+ADD COLUMN start_date DATE NULL,
+ADD COLUMN reminder_minutes INTEGER NULL;
+
+-- Create index for due date range queries (agenda, calendar, dashboard)
+CREATE INDEX idx_todos_due_date ON public.todos(due_date);
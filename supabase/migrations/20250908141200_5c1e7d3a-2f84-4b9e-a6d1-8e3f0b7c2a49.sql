@@ -0,0 +1,5 @@
+-- Add recurrence rules to todos
+ALTER TABLE public.todos
+ADD COLUMN recurrence_rule TEXT NULL
+  CHECK (recurrence_rule IN ('daily', 'weekdays', 'days', 'weeks', 'monthly', 'after_completion')),
+ADD COLUMN recurrence_interval INTEGER NULL CHECK (recurrence_interval > 0);
@@ -0,0 +1,5 @@
+-- Allow custom event types and add event descriptions
+ALTER TABLE public.calendar_events DROP CONSTRAINT IF EXISTS calendar_events_type_check;
+
+ALTER TABLE public.calendar_events
+ADD COLUMN description TEXT NULL;
@@ -0,0 +1,15 @@
+-- Add start/end times and multi-day spans to calendar events
+ALTER TABLE public.calendar_events
+ADD COLUMN all_day BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN start_time TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN end_time TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN end_date DATE NULL;
+
+-- Timed events need a start; the end must not come before it
+ALTER TABLE public.calendar_events
+ADD CONSTRAINT calendar_events_timing_check CHECK (all_day OR start_time IS NOT NULL),
+ADD CONSTRAINT calendar_events_end_time_check CHECK (end_time IS NULL OR end_time >= start_time),
+ADD CONSTRAINT calendar_events_end_date_check CHECK (end_date IS NULL OR end_date >= date);
+
+-- Create index for range queries on multi-day events
+CREATE INDEX idx_calendar_events_end_date ON public.calendar_events(end_date);
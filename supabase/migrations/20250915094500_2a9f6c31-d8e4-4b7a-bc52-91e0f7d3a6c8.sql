@@ -0,0 +1,9 @@
+-- Add RFC 5545 recurrence rules to calendar events
+ALTER TABLE public.calendar_events
+ADD COLUMN rrule TEXT NULL,
+ADD COLUMN exdates DATE[] NOT NULL DEFAULT '{}',
+ADD COLUMN recurrence_id UUID NULL REFERENCES public.calendar_events(id) ON DELETE CASCADE,
+ADD COLUMN original_date DATE NULL;
+
+-- Create index for looking up occurrences detached from a series
+CREATE INDEX idx_calendar_events_recurrence_id ON public.calendar_events(recurrence_id);
@@ -0,0 +1,10 @@
+-- Add iCalendar UIDs so .ics imports can be matched against earlier imports
+ALTER TABLE public.calendar_events
+ADD COLUMN ical_uid TEXT NULL;
+
+ALTER TABLE public.todos
+ADD COLUMN ical_uid TEXT NULL;
+
+-- Create indexes for UID lookups during import
+CREATE INDEX idx_calendar_events_ical_uid ON public.calendar_events(user_id, ical_uid);
+CREATE INDEX idx_todos_ical_uid ON public.todos(user_id, ical_uid);
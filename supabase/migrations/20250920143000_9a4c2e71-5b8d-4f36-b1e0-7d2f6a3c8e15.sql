@@ -0,0 +1,11 @@
+-- Add start/end timestamps to time logs; a row with started_at set and no ended_at is a running timer
+ALTER TABLE public.time_logs
+ADD COLUMN started_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN ended_at TIMESTAMP WITH TIME ZONE NULL,
+ADD CONSTRAINT time_logs_ended_after_started CHECK (ended_at IS NULL OR ended_at >= started_at);
+
+-- Only one timer may run per user at a time
+CREATE UNIQUE INDEX idx_time_logs_running ON public.time_logs(user_id) WHERE started_at IS NOT NULL AND ended_at IS NULL;
+
+-- Broadcast changes so timers started on another device show up immediately
+ALTER PUBLICATION supabase_realtime ADD TABLE public.time_logs;
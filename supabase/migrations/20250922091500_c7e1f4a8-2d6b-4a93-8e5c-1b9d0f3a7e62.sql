@@ -0,0 +1,18 @@
+-- Derive time log durations from start/end times when both are known
+CREATE OR REPLACE FUNCTION public.set_time_log_duration()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.started_at IS NOT NULL AND NEW.ended_at IS NOT NULL THEN
+    NEW.duration = GREATEST(ROUND(EXTRACT(EPOCH FROM (NEW.ended_at - NEW.started_at)) / 60), 1);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_time_logs_duration
+BEFORE INSERT OR UPDATE ON public.time_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.set_time_log_duration();
+
+-- Create index for timeline queries
+CREATE INDEX idx_time_logs_started_at ON public.time_logs(user_id, started_at);
@@ -0,0 +1,6 @@
+-- Add an optional task reference to time logs; logs outlive the todos they were tracked against
+ALTER TABLE public.time_logs
+ADD COLUMN todo_id UUID REFERENCES public.todos(id) ON DELETE SET NULL;
+
+-- Create index for per-todo time totals
+CREATE INDEX idx_time_logs_todo_id ON public.time_logs(todo_id) WHERE todo_id IS NOT NULL;
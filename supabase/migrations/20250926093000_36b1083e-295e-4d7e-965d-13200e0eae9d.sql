@@ -0,0 +1,52 @@
+-- Create projects table for grouping and billing time
+CREATE TABLE public.projects (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  client TEXT,
+  color TEXT NOT NULL DEFAULT '#3b82f6',
+  hourly_rate NUMERIC(10, 2),
+  billable BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT unique_project_per_user UNIQUE (user_id, name),
+  CONSTRAINT projects_hourly_rate_check CHECK (hourly_rate IS NULL OR hourly_rate >= 0)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own projects" 
+ON public.projects 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own projects" 
+ON public.projects 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own projects" 
+ON public.projects 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own projects" 
+ON public.projects 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_projects_updated_at
+BEFORE UPDATE ON public.projects
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add project and tags to time logs; deleting a project keeps its logged time
+ALTER TABLE public.time_logs
+ADD COLUMN project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- Create index for per-project totals
+CREATE INDEX idx_time_logs_project_id ON public.time_logs(project_id) WHERE project_id IS NOT NULL;
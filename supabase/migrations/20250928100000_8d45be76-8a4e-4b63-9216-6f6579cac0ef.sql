@@ -0,0 +1,143 @@
+-- Add full-text search across notes, todos, calendar events and time logs
+
+-- Searchable text of each table, weighted so title matches rank above body matches.
+-- array_to_string is only STABLE, but for text[] its result never changes, so these are
+-- safe to declare IMMUTABLE and index.
+CREATE OR REPLACE FUNCTION public.note_search_document(title text, content text, tags text[])
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english', coalesce(title, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(array_to_string(tags, ' '), '')), 'B')
+    || setweight(to_tsvector('english', coalesce(content, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION public.todo_search_document(text text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english', coalesce(text, '')), 'A');
+$$;
+
+CREATE OR REPLACE FUNCTION public.event_search_document(title text, description text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english', coalesce(title, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(description, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION public.time_log_search_document(activity text, tags text[])
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english', coalesce(activity, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(array_to_string(tags, ' '), '')), 'B');
+$$;
+
+-- Create indexes matching the expressions search_all filters on
+CREATE INDEX idx_notes_search ON public.notes USING GIN (public.note_search_document(title, content, tags));
+CREATE INDEX idx_todos_search ON public.todos USING GIN (public.todo_search_document(text));
+CREATE INDEX idx_calendar_events_search ON public.calendar_events USING GIN (public.event_search_document(title, description));
+CREATE INDEX idx_time_logs_search ON public.time_logs USING GIN (public.time_log_search_document(activity, tags));
+
+-- Every word of the query must match, the last ones as prefixes so results show while typing
+CREATE OR REPLACE FUNCTION public.to_prefix_tsquery(search_query text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(search_query), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+$$;
+
+-- Ranked matches of every kind. Matched words in headline and snippet are wrapped in
+-- chr(2) ... chr(3), which cannot occur in user text, for the client to highlight.
+CREATE OR REPLACE FUNCTION public.search_all(search_query text, kinds text[] DEFAULT NULL, result_limit integer DEFAULT 50)
+RETURNS TABLE (
+  kind text,
+  id uuid,
+  title text,
+  headline text,
+  snippet text,
+  rank real,
+  date text
+)
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT
+      public.to_prefix_tsquery(search_query) AS query,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) AS marks
+  )
+  SELECT * FROM (
+    SELECT
+      'note'::text,
+      n.id,
+      n.title,
+      ts_headline('english', n.title, q.query, q.marks || ', HighlightAll=true'),
+      ts_headline('english', coalesce(n.content, ''), q.query, q.marks || ', MaxFragments=2, MaxWords=18, MinWords=6, FragmentDelimiter=" … "'),
+      ts_rank(public.note_search_document(n.title, n.content, n.tags), q.query),
+      to_char(n.updated_at, 'YYYY-MM-DD')
+    FROM public.notes n, q
+    WHERE (kinds IS NULL OR 'note' = ANY(kinds))
+      AND public.note_search_document(n.title, n.content, n.tags) @@ q.query
+
+    UNION ALL
+
+    SELECT
+      'todo'::text,
+      t.id,
+      t.text,
+      ts_headline('english', t.text, q.query, q.marks || ', HighlightAll=true'),
+      NULL,
+      ts_rank(public.todo_search_document(t.text), q.query),
+      coalesce(t.due_date::text, to_char(t.created_at, 'YYYY-MM-DD'))
+    FROM public.todos t, q
+    WHERE (kinds IS NULL OR 'todo' = ANY(kinds))
+      AND public.todo_search_document(t.text) @@ q.query
+
+    UNION ALL
+
+    SELECT
+      'event'::text,
+      e.id,
+      e.title,
+      ts_headline('english', e.title, q.query, q.marks || ', HighlightAll=true'),
+      CASE WHEN e.description IS NOT NULL
+        THEN ts_headline('english', e.description, q.query, q.marks || ', MaxFragments=1, MaxWords=18, MinWords=6')
+      END,
+      ts_rank(public.event_search_document(e.title, e.description), q.query),
+      e.date::text
+    FROM public.calendar_events e, q
+    WHERE (kinds IS NULL OR 'event' = ANY(kinds))
+      AND public.event_search_document(e.title, e.description) @@ q.query
+
+    UNION ALL
+
+    SELECT
+      'time'::text,
+      l.id,
+      l.activity,
+      ts_headline('english', l.activity, q.query, q.marks || ', HighlightAll=true'),
+      NULLIF(array_to_string(l.tags, ', '), ''),
+      ts_rank(public.time_log_search_document(l.activity, l.tags), q.query),
+      l.date::text
+    FROM public.time_logs l, q
+    WHERE (kinds IS NULL OR 'time' = ANY(kinds))
+      AND public.time_log_search_document(l.activity, l.tags) @@ q.query
+  ) AS results (kind, id, title, headline, snippet, rank, date)
+  ORDER BY rank DESC, date DESC
+  LIMIT result_limit;
+$$;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION public.search_all(text, text[], integer) TO authenticated;
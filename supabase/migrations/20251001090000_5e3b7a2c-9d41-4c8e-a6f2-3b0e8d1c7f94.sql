@@ -0,0 +1,30 @@
+-- Create terminal history table so commands survive reloads and follow the user across devices
+CREATE TABLE public.terminal_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  command TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT terminal_history_command_check CHECK (length(command) > 0)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.terminal_history ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own terminal history" 
+ON public.terminal_history 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own terminal history" 
+ON public.terminal_history 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own terminal history" 
+ON public.terminal_history 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create index for loading the most recent commands
+CREATE INDEX idx_terminal_history_user_created ON public.terminal_history(user_id, created_at DESC);
@@ -0,0 +1,43 @@
+-- Create terminal scripts table for aliases, macros and the startup script
+CREATE TABLE public.terminal_scripts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  kind TEXT NOT NULL,
+  name TEXT NOT NULL,
+  body TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT unique_terminal_script_per_user UNIQUE (user_id, kind, name),
+  CONSTRAINT terminal_scripts_kind_check CHECK (kind IN ('alias', 'macro', 'startup')),
+  CONSTRAINT terminal_scripts_name_check CHECK (name ~ '^[A-Za-z][A-Za-z0-9_.-]*$')
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.terminal_scripts ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own terminal scripts" 
+ON public.terminal_scripts 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own terminal scripts" 
+ON public.terminal_scripts 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own terminal scripts" 
+ON public.terminal_scripts 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own terminal scripts" 
+ON public.terminal_scripts 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_terminal_scripts_updated_at
+BEFORE UPDATE ON public.terminal_scripts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();